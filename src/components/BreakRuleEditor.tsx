@@ -0,0 +1,186 @@
+import React, {useCallback, useState} from "react";
+import {Plus, Trash2} from "lucide-react";
+import type {BreakRule, ClockSettings} from "./type.ts";
+import {useTranslation} from "../hook/useTranslation.ts";
+import {getBreakRuleLabel, STATUTORY_BREAK_AFTER_HOURS, STATUTORY_BREAK_MINUTES, validateBreakRule} from "../utils/ClockTime.ts";
+
+interface BreakRuleEditorProps {
+  settings: ClockSettings;
+  onChange: (settings: ClockSettings) => void;
+}
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+const BreakRuleEditor: React.FC<BreakRuleEditorProps> = ({ settings, onChange }) => {
+  const { t } = useTranslation();
+  const [name, setName] = useState<string>('');
+  const [windowStart, setWindowStart] = useState<string>('18:00');
+  const [windowEnd, setWindowEnd] = useState<string>('18:30');
+  const [isPaid, setIsPaid] = useState<boolean>(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // 新增休息時段
+  const handleAdd = useCallback((): void => {
+    const rule: BreakRule = {
+      id: `break-${Date.now()}`,
+      name: name.trim(),
+      timeWindow: { start: windowStart, end: windowEnd },
+      isPaid
+    };
+    const ruleErrors = validateBreakRule(rule);
+    if (settings.breakRules.some(item => item.name === rule.name || getBreakRuleLabel(item) === rule.name)) {
+      ruleErrors.push(t('breakEditor.duplicateName', { name: rule.name }));
+    }
+    setErrors(ruleErrors);
+    if (ruleErrors.length > 0) return;
+
+    onChange({ ...settings, breakRules: [...settings.breakRules, rule] });
+    setName('');
+    setIsPaid(false);
+  }, [name, windowStart, windowEnd, isPaid, settings, onChange, t]);
+
+  // 刪除休息時段
+  const handleRemove = useCallback((id: string): void => {
+    onChange({ ...settings, breakRules: settings.breakRules.filter(rule => rule.id !== id) });
+  }, [settings, onChange]);
+
+  // 修改自動扣除設定，空白或無效值視為 0
+  const handleAutoBreakChange = useCallback((field: 'autoBreakAfterHours' | 'autoBreakMinutes', value: string): void => {
+    const parsed = parseFloat(value);
+    onChange({ ...settings, [field]: isNaN(parsed) || parsed < 0 ? 0 : parsed });
+  }, [settings, onChange]);
+
+  return (
+      <div className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">{t('common.name')}</label>
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t('breakEditor.namePlaceholder')}
+                className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">{t('breakEditor.window')}</label>
+            <div className="flex items-center gap-2">
+              <input
+                  type="time"
+                  value={windowStart}
+                  onChange={(e) => setWindowStart(e.target.value)}
+                  className={inputClassName}
+                  aria-label={t('breakEditor.start')}
+              />
+              <span className="text-gray-500">~</span>
+              <input
+                  type="time"
+                  value={windowEnd}
+                  onChange={(e) => setWindowEnd(e.target.value)}
+                  className={inputClassName}
+                  aria-label={t('breakEditor.end')}
+              />
+            </div>
+          </div>
+          <div className="flex items-end">
+            <label className="flex items-center gap-2 text-sm text-gray-600 py-2 cursor-pointer">
+              <input
+                  type="checkbox"
+                  checked={isPaid}
+                  onChange={(e) => setIsPaid(e.target.checked)}
+                  className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+              />
+              {t('breakEditor.paidOption')}
+            </label>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+            <ul className="text-sm text-red-600 list-disc pl-5">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+        )}
+
+        <button
+            type="button"
+            onClick={handleAdd}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-indigo-600 border border-indigo-300 rounded-lg hover:bg-indigo-50"
+        >
+          <Plus className="w-4 h-4"/>
+          {t('breakEditor.add')}
+        </button>
+
+        {settings.breakRules.length > 0 && (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white">
+              {settings.breakRules.map(rule => (
+                  <li key={rule.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <div>
+                      <div className="font-medium text-gray-700">{getBreakRuleLabel(rule)}</div>
+                      <div className="text-xs text-gray-500">
+                        {t('breakEditor.ruleSummary', {
+                          start: rule.timeWindow.start,
+                          end: rule.timeWindow.end,
+                          type: rule.isPaid ? t('breakEditor.paid') : t('breakEditor.unpaid')
+                        })}
+                      </div>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => handleRemove(rule.id)}
+                        className="p-1 text-gray-400 hover:text-red-500"
+                        aria-label={t('common.removeItem', { name: getBreakRuleLabel(rule) })}
+                    >
+                      <Trash2 className="w-4 h-4"/>
+                    </button>
+                  </li>
+              ))}
+            </ul>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">{t('breakEditor.autoBreakAfter')}</label>
+            <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={settings.autoBreakAfterHours}
+                onChange={(e) => handleAutoBreakChange('autoBreakAfterHours', e.target.value)}
+                className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">{t('breakEditor.autoBreakMinutes')}</label>
+            <input
+                type="number"
+                min="0"
+                step="5"
+                value={settings.autoBreakMinutes}
+                onChange={(e) => handleAutoBreakChange('autoBreakMinutes', e.target.value)}
+                className={inputClassName}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          {t('breakEditor.statutoryHint', { hours: STATUTORY_BREAK_AFTER_HOURS, minutes: STATUTORY_BREAK_MINUTES })}
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">{t('breakEditor.dayBoundary')}</label>
+            <input
+                type="time"
+                value={settings.dayBoundary}
+                onChange={(e) => e.target.value && onChange({ ...settings, dayBoundary: e.target.value })}
+                className={inputClassName}
+            />
+          </div>
+          <p className="text-xs text-gray-500 self-end pb-2">
+            {t('breakEditor.dayBoundaryHint')}
+          </p>
+        </div>
+      </div>
+  );
+};
+
+export default BreakRuleEditor;
@@ -0,0 +1,59 @@
+import React from "react";
+import type {CalculationStep, WorkDayType} from "./type.ts";
+import {useTranslation} from "../hook/useTranslation.ts";
+import {describeCalculationStep, describeSegmentLabel, formatStepAmount, formatStepMultiplier} from "../utils/CalculationSteps.ts";
+import {describeRoundingRule} from "../utils/RoundingPolicy.ts";
+
+interface CalculationStepsTableProps {
+  steps: CalculationStep[];
+  /** 工作日類型名稱，依適用法域顯示 */
+  dayTypeLabels: Record<WorkDayType, string>;
+}
+
+// 捨入調整顯示，正數加上正號
+const formatRoundingDifference = (difference: number): string =>
+  `${difference > 0 ? '+' : ''}${formatStepAmount(difference)}`;
+
+const CalculationStepsTable: React.FC<CalculationStepsTableProps> = ({ steps, dayTypeLabels }) => {
+  const { t, formatNumber } = useTranslation();
+
+  return (
+      <div className="overflow-x-auto">
+        <table className="table table-sm bg-base-100">
+          <thead>
+          <tr>
+            <th>{t('stepsTable.item')}</th>
+            <th className="text-right">{t('stepsTable.hours')}</th>
+            <th className="text-right">{t('stepsTable.baseRate')}</th>
+            <th className="text-right">{t('stepsTable.multiplier')}</th>
+            <th className="text-right">{t('stepsTable.subtotal')}</th>
+          </tr>
+          </thead>
+          <tbody>
+          {steps.map((step, index) => step.kind === 'note' ? (
+              <tr key={index}>
+                <td colSpan={5} className="opacity-70">{describeCalculationStep(step, dayTypeLabels)}</td>
+              </tr>
+          ) : (
+              <tr key={index}>
+                <td>{describeSegmentLabel(step)}</td>
+                <td className="text-right">{formatNumber(step.hours, 4)}</td>
+                <td className="text-right">{formatNumber(step.baseRate, 4)}</td>
+                <td className="text-right">{formatStepMultiplier(step.multiplier)}</td>
+                <td className="text-right">
+                  <div>{formatStepAmount(step.subtotal)}</div>
+                  {step.roundingDifference !== 0 && (
+                      <div className="text-xs opacity-60">
+                        {describeRoundingRule(step.rounding)} {formatRoundingDifference(step.roundingDifference)}
+                      </div>
+                  )}
+                </td>
+              </tr>
+          ))}
+          </tbody>
+        </table>
+      </div>
+  );
+};
+
+export default CalculationStepsTable;
@@ -0,0 +1,96 @@
+import React from "react";
+import {CalendarClock} from "lucide-react";
+import type {CompLeaveResult, JurisdictionRulePack} from "./type.ts";
+import {useTranslation} from "../hook/useTranslation.ts";
+
+interface CompLeavePanelProps {
+  result: CompLeaveResult;
+  /** 適用的法域規則，決定工作日類型名稱及幣別 */
+  rulePack: JurisdictionRulePack;
+}
+
+const CompLeavePanel: React.FC<CompLeavePanelProps> = ({ result, rulePack }) => {
+  const { t, formatCurrency } = useTranslation();
+  const money = (amount: number): string => formatCurrency(amount, rulePack.currency);
+
+  return (
+      <div className="card bg-base-100 shadow-xl mt-6">
+        <div className="card-body p-4 sm:p-6">
+          <h2 className="card-title text-xl sm:text-2xl mb-4 flex items-center gap-2">
+            <CalendarClock className="w-6 h-6 text-info"/>
+            {t('compLeavePanel.title')}
+          </h2>
+
+          {/* 統計 */}
+          <div className="stats stats-vertical sm:stats-horizontal shadow mb-4">
+            <div className="stat">
+              <div className="stat-title">{t('compLeavePanel.converted')}</div>
+              <div className="stat-value text-2xl">{result.totalHours}h</div>
+              <div className="stat-desc">{t('compLeavePanel.unusedValue', { amount: money(result.totalValue) })}</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">{t('compLeavePanel.used')}</div>
+              <div className="stat-value text-2xl">{result.usedHours}h</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">{t('compLeavePanel.remaining')}</div>
+              <div className="stat-value text-2xl">{result.remainingHours}h</div>
+              <div className="stat-desc">{t('compLeavePanel.value', { amount: money(result.remainingValue) })}</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">{t('compLeavePanel.expiredPayout')}</div>
+              <div className="stat-value text-2xl text-error">{money(result.expiredPayout)}</div>
+              <div className="stat-desc">{t('compLeavePanel.expiredHours', { hours: result.expiredHours })}</div>
+            </div>
+          </div>
+
+          {/* 明細 */}
+          {result.records.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="table table-sm">
+                  <thead>
+                  <tr>
+                    <th>{t('common.date')}</th>
+                    <th>{t('compLeavePanel.type')}</th>
+                    <th className="text-right">{t('compLeavePanel.hours')}</th>
+                    <th className="text-right">{t('compLeavePanel.usedRemaining')}</th>
+                    <th>{t('compLeavePanel.expiry')}</th>
+                    <th className="text-right">{t('compLeavePanel.remainingValue')}</th>
+                  </tr>
+                  </thead>
+                  <tbody>
+                  {result.records.map((record, index) => (
+                      <tr key={`${record.date ?? 'quick'}-${record.dayType}-${index}`}
+                          className={record.isExpired && record.remainingHours > 0 ? 'text-error' : ''}>
+                        <td>{record.date ?? t('common.recordIndex', { index: index + 1 })}</td>
+                        <td>{rulePack.dayTypeLabels[record.dayType]}</td>
+                        <td className="text-right">{record.hours}h</td>
+                        <td className="text-right">{record.usedHours}h / {record.remainingHours}h</td>
+                        <td>
+                          {record.expiryDate ?? t('compLeavePanel.noExpiry')}
+                          {record.isExpired && t('compLeavePanel.expired')}
+                        </td>
+                        <td className="text-right">{money(record.remainingValue)}</td>
+                      </tr>
+                  ))}
+                  </tbody>
+                </table>
+              </div>
+          ) : (
+              <p className="text-sm opacity-60">{t('compLeavePanel.empty')}</p>
+          )}
+
+          <div className="space-y-1 mt-4">
+            {result.details.map((detail, index) => (
+                <p key={index} className="text-sm opacity-70">• {detail}</p>
+            ))}
+            <p className="text-xs opacity-60 mt-2">
+              {t('compLeavePanel.lawNote')}
+            </p>
+          </div>
+        </div>
+      </div>
+  );
+};
+
+export default CompLeavePanel;
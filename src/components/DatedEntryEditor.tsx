@@ -0,0 +1,333 @@
+import React, {useCallback, useState} from "react";
+import {CalendarPlus, CopyPlus, Trash2} from "lucide-react";
+import type {ClockSettings, DatedWorkEntry, JurisdictionRulePack, WorkDayType} from "./type.ts";
+import {TAIWAN_RULE_PACK} from "../utils/RulePacks.ts";
+import {getNextMonth, shiftEntriesToMonth, sortEntriesByDate, todayDateString} from "../utils/DateUtils.ts";
+import {crossesDayBoundary, DEFAULT_CLOCK_SETTINGS, deriveClockHours, hasClockTimes} from "../utils/ClockTime.ts";
+import {useTranslation} from "../hook/useTranslation.ts";
+
+interface DatedEntryEditorProps {
+  entries: DatedWorkEntry[];
+  onChange: (entries: DatedWorkEntry[]) => void;
+  /** 是否顯示換補休勾選欄 */
+  showCompLeave?: boolean;
+  /** 是否顯示部分工時約定工時欄 */
+  showContractualHours?: boolean;
+  /** 打卡時間換算使用的休息扣除設定 */
+  clockSettings?: ClockSettings;
+  /** 適用法域，決定可選的工作日類型及名稱 */
+  rulePack?: JurisdictionRulePack;
+}
+
+/** 時數輸入方式：直接填寫時數或上下班打卡時間 */
+type EntryInputMode = 'hours' | 'clock';
+
+// 可換取補休的工作日類型（勞基法第32條之1）
+const COMP_LEAVE_DAY_TYPES: WorkDayType[] = ['weekday', 'restDay'];
+
+// 新增列的欄數（含新增按鈕）對應的排版
+const GRID_COLUMNS: Record<number, string> = {
+  5: 'sm:grid-cols-5',
+  6: 'sm:grid-cols-6',
+  7: 'sm:grid-cols-7',
+  8: 'sm:grid-cols-8'
+};
+
+const DatedEntryEditor: React.FC<DatedEntryEditorProps> = ({
+  entries,
+  onChange,
+  showCompLeave = false,
+  showContractualHours = false,
+  clockSettings = DEFAULT_CLOCK_SETTINGS,
+  rulePack = TAIWAN_RULE_PACK
+}) => {
+  const { t } = useTranslation();
+  const [entryInputMode, setEntryInputMode] = useState<EntryInputMode>('hours');
+  const [date, setDate] = useState<string>(todayDateString);
+  const [dayType, setDayType] = useState<WorkDayType>('weekday');
+  const [hours, setHours] = useState<string>('');
+  const [startTime, setStartTime] = useState<string>('');
+  const [contractualHours, setContractualHours] = useState<string>('');
+  const [clockIn, setClockIn] = useState<string>('08:30');
+  const [clockOut, setClockOut] = useState<string>('');
+  const [breakMinutes, setBreakMinutes] = useState<string>('');
+  // 空字串表示次日與當日類型相同
+  const [nextDayType, setNextDayType] = useState<WorkDayType | ''>('');
+
+  const sortedEntries = sortEntriesByDate(entries);
+
+  // 新增一筆紀錄
+  const handleAdd = useCallback((): void => {
+    const parsedContractualHours = parseFloat(contractualHours);
+    const base = {
+      date,
+      dayType,
+      ...(showContractualHours && dayType === 'weekday' && parsedContractualHours >= 0 && { contractualHours: parsedContractualHours })
+    };
+
+    if (entryInputMode === 'clock') {
+      // 時數於計算時依休息扣除設定換算，此處先記錄扣除休息後的出勤時數
+      const parsedBreakMinutes = parseFloat(breakMinutes);
+      const entry: DatedWorkEntry = {
+        ...base,
+        hours: 0,
+        clockIn,
+        clockOut,
+        ...(!isNaN(parsedBreakMinutes) && { breakMinutes: parsedBreakMinutes })
+      };
+      const clock = deriveClockHours(entry, clockSettings, 0);
+      if (!date || !clock) return;
+      onChange([...entries, {
+        ...entry,
+        hours: clock.workedHours,
+        ...(nextDayType && crossesDayBoundary(entry, clockSettings) && { nextDayType })
+      }]);
+      setClockOut('');
+      setBreakMinutes('');
+      return;
+    }
+
+    const parsedHours = parseFloat(hours);
+    if (!date || isNaN(parsedHours) || parsedHours <= 0) return;
+    onChange([...entries, { ...base, hours: parsedHours, ...(startTime && { startTime }) }]);
+    setHours('');
+  }, [date, dayType, hours, startTime, contractualHours, showContractualHours, entryInputMode, clockIn, clockOut, breakMinutes, nextDayType, clockSettings, entries, onChange]);
+
+  // 刪除指定紀錄
+  const handleRemove = useCallback((target: DatedWorkEntry): void => {
+    onChange(entries.filter(entry => entry !== target));
+  }, [entries, onChange]);
+
+  // 切換是否換補休
+  const handleToggleCompLeave = useCallback((target: DatedWorkEntry): void => {
+    onChange(entries.map(entry => entry === target ? { ...entry, compLeave: !entry.compLeave } : entry));
+  }, [entries, onChange]);
+
+  // 將整份紀錄複製到最後一筆日期的下個月
+  const handleCopyToNextMonth = useCallback((): void => {
+    if (sortedEntries.length === 0) return;
+    const lastDate = sortedEntries[sortedEntries.length - 1].date;
+    onChange(shiftEntriesToMonth(entries, getNextMonth(lastDate)));
+  }, [entries, sortedEntries, onChange]);
+
+  return (
+      <div className="space-y-4">
+        <div role="tablist" className="tabs tabs-boxed tabs-sm w-fit">
+          <button
+              type="button"
+              role="tab"
+              onClick={() => setEntryInputMode('hours')}
+              className={`tab ${entryInputMode === 'hours' ? 'tab-active' : ''}`}
+          >
+            {t('datedEntry.modeHours')}
+          </button>
+          <button
+              type="button"
+              role="tab"
+              onClick={() => setEntryInputMode('clock')}
+              className={`tab ${entryInputMode === 'clock' ? 'tab-active' : ''}`}
+          >
+            {t('datedEntry.modeClock')}
+          </button>
+        </div>
+        {entryInputMode === 'clock' && (
+            <p className="text-xs opacity-60">
+              {t('datedEntry.clockHint', { dayBoundary: clockSettings.dayBoundary })}
+            </p>
+        )}
+
+        <div className={`grid grid-cols-1 ${GRID_COLUMNS[(entryInputMode === 'clock' ? 7 : 5) + (showContractualHours ? 1 : 0)]} gap-3 items-end`}>
+          <label className="form-control">
+            <span className="label-text mb-1">{t('common.date')}</span>
+            <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="input input-bordered"
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text mb-1">{t('datedEntry.dayType')}</span>
+            <select
+                value={dayType}
+                onChange={(e) => setDayType(e.target.value as WorkDayType)}
+                className="select select-bordered"
+            >
+              {rulePack.dayTypes.map(type => (
+                  <option key={type} value={type}>{rulePack.dayTypeLabels[type]}</option>
+              ))}
+            </select>
+          </label>
+          {entryInputMode === 'hours' ? (
+              <>
+                <label className="form-control">
+                  <span className="label-text mb-1">{t('datedEntry.hours')}</span>
+                  <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={hours}
+                      onChange={(e) => setHours(e.target.value)}
+                      placeholder={t('datedEntry.hoursPlaceholder')}
+                      className="input input-bordered"
+                  />
+                </label>
+                <label className="form-control">
+                  <span className="label-text mb-1">{t('datedEntry.startTime')}</span>
+                  <input
+                      type="time"
+                      value={startTime}
+                      onChange={(e) => setStartTime(e.target.value)}
+                      className="input input-bordered"
+                  />
+                </label>
+              </>
+          ) : (
+              <>
+                <label className="form-control">
+                  <span className="label-text mb-1">{t('datedEntry.clockIn')}</span>
+                  <input
+                      type="time"
+                      value={clockIn}
+                      onChange={(e) => setClockIn(e.target.value)}
+                      className="input input-bordered"
+                  />
+                </label>
+                <label className="form-control">
+                  <span className="label-text mb-1">{t('datedEntry.clockOut')}</span>
+                  <input
+                      type="time"
+                      value={clockOut}
+                      onChange={(e) => setClockOut(e.target.value)}
+                      className="input input-bordered"
+                  />
+                </label>
+                <label className="form-control">
+                  <span className="label-text mb-1">{t('datedEntry.breakMinutes')}</span>
+                  <input
+                      type="number"
+                      min="0"
+                      step="5"
+                      value={breakMinutes}
+                      onChange={(e) => setBreakMinutes(e.target.value)}
+                      placeholder={t('datedEntry.breakPlaceholder')}
+                      className="input input-bordered"
+                  />
+                </label>
+                <label className="form-control">
+                  <span className="label-text mb-1">{t('datedEntry.nextDayType')}</span>
+                  <select
+                      value={nextDayType}
+                      onChange={(e) => setNextDayType(e.target.value as WorkDayType | '')}
+                      className="select select-bordered"
+                  >
+                    <option value="">{t('datedEntry.sameDayType')}</option>
+                    {rulePack.dayTypes.map(type => (
+                        <option key={type} value={type}>{rulePack.dayTypeLabels[type]}</option>
+                    ))}
+                  </select>
+                </label>
+              </>
+          )}
+          {showContractualHours && (
+              <label className="form-control">
+                <span className="label-text mb-1">{t('datedEntry.contractualHours')}</span>
+                <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={contractualHours}
+                    onChange={(e) => setContractualHours(e.target.value)}
+                    placeholder={t('datedEntry.contractualPlaceholder')}
+                    className="input input-bordered"
+                />
+              </label>
+          )}
+          <button type="button" onClick={handleAdd} className="btn btn-primary">
+            <CalendarPlus className="w-4 h-4"/>
+            {t('datedEntry.add')}
+          </button>
+        </div>
+
+        {sortedEntries.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="table table-sm">
+                <thead>
+                <tr>
+                  <th>{t('common.date')}</th>
+                  <th>{t('datedEntry.dayType')}</th>
+                  <th className="text-right">{t('datedEntry.hours')}</th>
+                  <th>{t('datedEntry.startOrClock')}</th>
+                  {showContractualHours && <th className="text-right">{t('datedEntry.contractualColumn')}</th>}
+                  {showCompLeave && <th className="text-center">{t('datedEntry.compLeave')}</th>}
+                  <th></th>
+                </tr>
+                </thead>
+                <tbody>
+                {sortedEntries.map((entry, index) => (
+                    <tr key={`${entry.date}-${entry.dayType}-${index}`}>
+                      <td>{entry.date}</td>
+                      <td>{rulePack.dayTypeLabels[entry.dayType]}</td>
+                      {hasClockTimes(entry) ? (
+                          <>
+                            <td className="text-right">{t('datedEntry.workedHours', { hours: deriveClockHours(entry, clockSettings, 0)?.workedHours ?? entry.hours })}</td>
+                            <td>
+                              {entry.clockIn} ~ {entry.clockOut}
+                              {crossesDayBoundary(entry, clockSettings) && (
+                                  <span className="badge badge-ghost badge-sm ml-1">
+                                    {t('datedEntry.crossesDay', { dayType: rulePack.dayTypeLabels[entry.nextDayType ?? entry.dayType] })}
+                                  </span>
+                              )}
+                            </td>
+                          </>
+                      ) : (
+                          <>
+                            <td className="text-right">{t('common.hoursValue', { hours: entry.hours })}</td>
+                            <td>{entry.startTime ?? '—'}</td>
+                          </>
+                      )}
+                      {showContractualHours && (
+                          <td className="text-right">{entry.contractualHours !== undefined ? t('common.hoursValue', { hours: entry.contractualHours }) : '—'}</td>
+                      )}
+                      {showCompLeave && (
+                          <td className="text-center">
+                            {COMP_LEAVE_DAY_TYPES.includes(entry.dayType) && (
+                                <input
+                                    type="checkbox"
+                                    checked={entry.compLeave ?? false}
+                                    onChange={() => handleToggleCompLeave(entry)}
+                                    className="checkbox checkbox-sm"
+                                    aria-label={t('datedEntry.compLeaveLabel', { date: entry.date })}
+                                />
+                            )}
+                          </td>
+                      )}
+                      <td className="text-right">
+                        <button
+                            type="button"
+                            onClick={() => handleRemove(entry)}
+                            className="btn btn-ghost btn-xs"
+                            aria-label={t('datedEntry.removeLabel', { date: entry.date })}
+                        >
+                          <Trash2 className="w-4 h-4"/>
+                        </button>
+                      </td>
+                    </tr>
+                ))}
+                </tbody>
+              </table>
+              <div className="flex justify-end mt-2">
+                <button type="button" onClick={handleCopyToNextMonth} className="btn btn-ghost btn-sm">
+                  <CopyPlus className="w-4 h-4"/>
+                  {t('datedEntry.copyToNextMonth')}
+                </button>
+              </div>
+            </div>
+        ) : (
+            <p className="text-sm opacity-60">{t('datedEntry.empty')}</p>
+        )}
+      </div>
+  );
+};
+
+export default DatedEntryEditor;
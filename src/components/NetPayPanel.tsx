@@ -0,0 +1,135 @@
+import React, {useState} from "react";
+import {Receipt} from "lucide-react";
+import type {TaxSplit} from "./type.ts";
+import {useTranslation} from "../hook/useTranslation.ts";
+import {estimateNetPay} from "../utils/TaxService.ts";
+
+interface NetPayPanelProps {
+  taxSplit: TaxSplit;
+  /** 預設應稅薪資（月薪制時帶入計算基礎） */
+  defaultRegularPay: number;
+}
+
+// 將輸入字串轉為非負數，空白或無效時視為 0
+const toAmount = (value: string): number => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+};
+
+// 所得稅估算僅適用於台灣，金額以新台幣表示
+const CURRENCY = 'TWD';
+
+const NetPayPanel: React.FC<NetPayPanelProps> = ({ taxSplit, defaultRegularPay }) => {
+  const { t, formatCurrency } = useTranslation();
+  const [regularPay, setRegularPay] = useState<string>(defaultRegularPay > 0 ? String(defaultRegularPay) : '');
+  const [withholdingRate, setWithholdingRate] = useState<string>('5');
+  const [withholdingThreshold, setWithholdingThreshold] = useState<string>('');
+  const [laborInsurance, setLaborInsurance] = useState<string>('');
+  const [healthInsurance, setHealthInsurance] = useState<string>('');
+  const [pensionRate, setPensionRate] = useState<string>('');
+  const [otherDeductions, setOtherDeductions] = useState<string>('');
+
+  // 扣款名稱依語系產生，不快取以便切換語系時更新
+  const estimate = estimateNetPay(taxSplit, {
+    regularPay: toAmount(regularPay),
+    withholdingRate: toAmount(withholdingRate) / 100,
+    withholdingThreshold: toAmount(withholdingThreshold),
+    laborInsurance: toAmount(laborInsurance),
+    healthInsurance: toAmount(healthInsurance),
+    pensionContributionRate: toAmount(pensionRate) / 100,
+    otherDeductions: toAmount(otherDeductions)
+  });
+  const money = (amount: number): string => formatCurrency(amount, CURRENCY);
+
+  const fields: { label: string; value: string; onChange: (value: string) => void; placeholder: string }[] = [
+    { label: t('netPay.regularPay'), value: regularPay, onChange: setRegularPay, placeholder: t('netPay.regularPayPlaceholder') },
+    { label: t('netPay.withholdingRate'), value: withholdingRate, onChange: setWithholdingRate, placeholder: t('netPay.withholdingRatePlaceholder') },
+    {
+      label: t('netPay.withholdingThreshold'),
+      value: withholdingThreshold,
+      onChange: setWithholdingThreshold,
+      placeholder: t('netPay.withholdingThresholdPlaceholder')
+    },
+    { label: t('deduction.laborInsurance'), value: laborInsurance, onChange: setLaborInsurance, placeholder: t('netPay.laborInsurancePlaceholder') },
+    { label: t('deduction.healthInsurance'), value: healthInsurance, onChange: setHealthInsurance, placeholder: t('netPay.healthInsurancePlaceholder') },
+    { label: t('netPay.pensionRate'), value: pensionRate, onChange: setPensionRate, placeholder: '0 ~ 6' },
+    { label: t('deduction.other'), value: otherDeductions, onChange: setOtherDeductions, placeholder: t('netPay.otherDeductionsPlaceholder') }
+  ];
+
+  return (
+      <div className="card bg-base-100 shadow-xl mt-6">
+        <div className="card-body p-4 sm:p-6">
+          <h2 className="card-title text-xl sm:text-2xl mb-4 flex items-center gap-2">
+            <Receipt className="w-6 h-6 text-secondary"/>
+            {t('netPay.title')}
+          </h2>
+
+          {/* 應稅／免稅拆分 */}
+          <div className="stats stats-vertical sm:stats-horizontal shadow mb-4">
+            <div className="stat">
+              <div className="stat-title">{t('netPay.nonTaxable')}</div>
+              <div className="stat-value text-2xl text-success">{money(taxSplit.nonTaxablePay)}</div>
+              <div className="stat-desc">{t('netPay.exemptHours', { hours: taxSplit.exemptHours })}</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">{t('netPay.taxable')}</div>
+              <div className="stat-value text-2xl">{money(taxSplit.taxablePay)}</div>
+              <div className="stat-desc">{t('netPay.taxableHours', { hours: taxSplit.taxableOvertimeHours })}</div>
+            </div>
+          </div>
+
+          <div className="space-y-1 mb-6">
+            {taxSplit.details.map((detail, index) => (
+                <p key={index} className="text-sm opacity-70">• {detail}</p>
+            ))}
+          </div>
+
+          {/* 實領估算 */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 mb-4">
+            {fields.map(field => (
+                <label key={field.label} className="form-control">
+                  <span className="label-text mb-1">{field.label}</span>
+                  <input
+                      type="number"
+                      min="0"
+                      value={field.value}
+                      onChange={(e) => field.onChange(e.target.value)}
+                      placeholder={field.placeholder}
+                      className="input input-bordered input-sm"
+                  />
+                </label>
+            ))}
+          </div>
+
+          <div className="card bg-base-200">
+            <div className="card-body text-sm">
+              <div className="flex justify-between">
+                <span>{t('netPay.grossPay')}</span>
+                <span>{money(estimate.grossPay)}</span>
+              </div>
+              <div className="flex justify-between opacity-70">
+                <span>{t('netPay.taxableIncome')}</span>
+                <span>{money(estimate.taxableIncome)}</span>
+              </div>
+              {estimate.deductions.map(item => (
+                  <div key={item.name} className="flex justify-between">
+                    <span>{item.name}</span>
+                    <span>-{money(item.amount)}</span>
+                  </div>
+              ))}
+              <div className="flex justify-between font-bold border-t border-base-300 pt-2">
+                <span>{t('netPay.netPay')}</span>
+                <span>{money(estimate.netPay)}</span>
+              </div>
+            </div>
+          </div>
+
+          <p className="text-xs opacity-60 mt-4">
+            {t('netPay.lawNote')}
+          </p>
+        </div>
+      </div>
+  );
+};
+
+export default NetPayPanel;
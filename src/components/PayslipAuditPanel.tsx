@@ -0,0 +1,148 @@
+import React, {useCallback, useMemo, useState} from "react";
+import {ClipboardCheck, Download, Printer} from "lucide-react";
+import type {AuditStatus, ComprehensiveResult, JurisdictionRulePack, PayslipPaidAmounts, StatutoryCategory} from "./type.ts";
+import {useTranslation} from "../hook/useTranslation.ts";
+import {auditPayslip, getAuditStatusLabel} from "../utils/PayslipAudit.ts";
+import {todayDateString} from "../utils/DateUtils.ts";
+import {STATUTORY_CATEGORIES} from "../utils/WorkDayCategories.ts";
+
+interface PayslipAuditPanelProps {
+  result: ComprehensiveResult;
+  /** 適用的法域規則，決定類別名稱及幣別 */
+  rulePack: JurisdictionRulePack;
+}
+
+const STATUS_BADGE: Record<AuditStatus, string> = {
+  shortfall: 'badge-error',
+  overpaid: 'badge-warning',
+  match: 'badge-success'
+};
+
+const PayslipAuditPanel: React.FC<PayslipAuditPanelProps> = ({ result, rulePack }) => {
+  const { t, formatCurrency } = useTranslation();
+  const [paidInputs, setPaidInputs] = useState<Partial<Record<StatutoryCategory, string>>>({});
+
+  // 空白表示未發給該類別
+  const paidAmounts = useMemo<PayslipPaidAmounts>(() => {
+    const amounts: PayslipPaidAmounts = {};
+    STATUTORY_CATEGORIES.forEach(category => {
+      const parsed = parseFloat(paidInputs[category] ?? '');
+      if (!isNaN(parsed) && parsed >= 0) amounts[category] = parsed;
+    });
+    return amounts;
+  }, [paidInputs]);
+
+  const audit = useMemo(() => auditPayslip(result, paidAmounts, rulePack), [result, paidAmounts, rulePack]);
+  const money = (amount: number): string => formatCurrency(amount, rulePack.currency);
+
+  // 以純文字開新視窗列印
+  const handlePrint = useCallback((): void => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+    const content = printWindow.document.createElement('pre');
+    content.style.whiteSpace = 'pre-wrap';
+    content.style.fontFamily = 'sans-serif';
+    content.textContent = audit.summary;
+    printWindow.document.title = t('audit.title');
+    printWindow.document.body.appendChild(content);
+    printWindow.print();
+  }, [audit.summary, t]);
+
+  // 匯出為文字檔
+  const handleExport = useCallback((): void => {
+    const blob = new Blob([audit.summary], { type: 'text/plain;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = t('auditPanel.fileName', { date: todayDateString() });
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [audit.summary, t]);
+
+  return (
+      <div className="card bg-base-100 shadow-xl mt-6">
+        <div className="card-body p-4 sm:p-6">
+          <h2 className="card-title text-xl sm:text-2xl mb-4 flex items-center gap-2">
+            <ClipboardCheck className="w-6 h-6 text-secondary"/>
+            {t('auditPanel.title')}
+          </h2>
+
+          <p className="text-sm opacity-70 mb-2">{t('auditPanel.hint')}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 mb-4">
+            {STATUTORY_CATEGORIES.map(category => (
+                <label key={category} className="form-control">
+                  <span className="label-text mb-1">{rulePack.categoryLabels[category]}</span>
+                  <input
+                      type="number"
+                      min="0"
+                      value={paidInputs[category] ?? ''}
+                      onChange={(e) => setPaidInputs(prev => ({ ...prev, [category]: e.target.value }))}
+                      placeholder={t('auditPanel.legalPlaceholder', { amount: money(result.calculations[category]?.pay ?? 0) })}
+                      className="input input-bordered input-sm"
+                  />
+                </label>
+            ))}
+          </div>
+
+          {audit.lines.length > 0 ? (
+              <div className="overflow-x-auto mb-4">
+                <table className="table table-sm">
+                  <thead>
+                  <tr>
+                    <th>{t('auditPanel.category')}</th>
+                    <th className="text-right">{t('auditPanel.legal')}</th>
+                    <th className="text-right">{t('auditPanel.paid')}</th>
+                    <th className="text-right">{t('auditPanel.difference')}</th>
+                    <th className="text-center">{t('auditPanel.result')}</th>
+                  </tr>
+                  </thead>
+                  <tbody>
+                  {audit.lines.map(line => (
+                      <tr key={line.category}>
+                        <td>{rulePack.categoryLabels[line.category]}</td>
+                        <td className="text-right">{money(line.legalPay)}</td>
+                        <td className="text-right">{money(line.paidPay)}</td>
+                        <td className="text-right">{money(line.difference)}</td>
+                        <td className="text-center">
+                          <span className={`badge badge-sm ${STATUS_BADGE[line.status]}`}>{getAuditStatusLabel(line.status)}</span>
+                        </td>
+                      </tr>
+                  ))}
+                  <tr className="font-bold">
+                    <td>{t('audit.total')}</td>
+                    <td className="text-right">{money(audit.totalLegal)}</td>
+                    <td className="text-right">{money(audit.totalPaid)}</td>
+                    <td className="text-right">{money(audit.totalDifference)}</td>
+                    <td className="text-center">
+                      <span className={`badge badge-sm ${STATUS_BADGE[audit.status]}`}>{getAuditStatusLabel(audit.status)}</span>
+                    </td>
+                  </tr>
+                  </tbody>
+                </table>
+              </div>
+          ) : (
+              <p className="text-sm opacity-60 mb-4">{t('auditPanel.empty')}</p>
+          )}
+
+          <div className="card bg-base-200">
+            <div className="card-body text-sm">
+              <pre className="whitespace-pre-wrap font-sans">{audit.summary}</pre>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2 mt-4">
+            <button type="button" onClick={handlePrint} className="btn btn-outline btn-sm">
+              <Printer className="w-4 h-4"/>
+              {t('auditPanel.print')}
+            </button>
+            <button type="button" onClick={handleExport} className="btn btn-outline btn-sm">
+              <Download className="w-4 h-4"/>
+              {t('auditPanel.export')}
+            </button>
+          </div>
+        </div>
+      </div>
+  );
+};
+
+export default PayslipAuditPanel;
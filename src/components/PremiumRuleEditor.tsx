@@ -0,0 +1,187 @@
+import React, {useCallback, useState} from "react";
+import {Plus, Trash2} from "lucide-react";
+import type {PremiumAmountType, PremiumRule, WorkDayType} from "./type.ts";
+import {useTranslation} from "../hook/useTranslation.ts";
+import {describePremiumRule, validatePremiumRule} from "../utils/PremiumRules.ts";
+
+interface PremiumRuleEditorProps {
+  rules: PremiumRule[];
+  onChange: (rules: PremiumRule[]) => void;
+  /** 工作日類型名稱，依適用法域顯示 */
+  dayTypeLabels: Record<WorkDayType, string>;
+}
+
+const AMOUNT_TYPES: PremiumAmountType[] = ['rate', 'flat'];
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+const PremiumRuleEditor: React.FC<PremiumRuleEditorProps> = ({ rules, onChange, dayTypeLabels }) => {
+  const { t } = useTranslation();
+  const [name, setName] = useState<string>('');
+  const [useTimeWindow, setUseTimeWindow] = useState<boolean>(true);
+  const [windowStart, setWindowStart] = useState<string>('22:00');
+  const [windowEnd, setWindowEnd] = useState<string>('06:00');
+  const [dayTypes, setDayTypes] = useState<WorkDayType[]>([]);
+  const [amountType, setAmountType] = useState<PremiumAmountType>('rate');
+  const [amount, setAmount] = useState<string>('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // 切換適用的工作日類型（皆未勾選表示全部適用）
+  const handleToggleDayType = useCallback((dayType: WorkDayType): void => {
+    setDayTypes(prev => prev.includes(dayType) ? prev.filter(type => type !== dayType) : [...prev, dayType]);
+  }, []);
+
+  // 新增加給規則
+  const handleAdd = useCallback((): void => {
+    const rule: PremiumRule = {
+      id: `premium-${Date.now()}`,
+      name: name.trim(),
+      ...(useTimeWindow && { timeWindow: { start: windowStart, end: windowEnd } }),
+      ...(dayTypes.length > 0 && { dayTypes }),
+      amountType,
+      amount: parseFloat(amount)
+    };
+    const ruleErrors = validatePremiumRule(rule);
+    if (rules.some(item => item.name === rule.name)) {
+      ruleErrors.push(t('premiumEditor.duplicateName', { name: rule.name }));
+    }
+    setErrors(ruleErrors);
+    if (ruleErrors.length > 0) return;
+
+    onChange([...rules, rule]);
+    setName('');
+    setAmount('');
+    setDayTypes([]);
+  }, [name, useTimeWindow, windowStart, windowEnd, dayTypes, amountType, amount, rules, onChange, t]);
+
+  // 刪除加給規則
+  const handleRemove = useCallback((id: string): void => {
+    onChange(rules.filter(rule => rule.id !== id));
+  }, [rules, onChange]);
+
+  return (
+      <div className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">{t('premiumEditor.name')}</label>
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t('premiumEditor.namePlaceholder')}
+                className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">{t('premiumEditor.calculation')}</label>
+            <div className="flex gap-2">
+              <select
+                  value={amountType}
+                  onChange={(e) => setAmountType(e.target.value as PremiumAmountType)}
+                  className={inputClassName}
+                  aria-label={t('premiumEditor.amountTypeLabel')}
+              >
+                {AMOUNT_TYPES.map(type => (
+                    <option key={type} value={type}>{t(`premiumEditor.amountType.${type}`)}</option>
+                ))}
+              </select>
+              <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder={amountType === 'rate' ? t('premiumEditor.ratePlaceholder') : t('premiumEditor.flatPlaceholder')}
+                  className={inputClassName}
+                  aria-label={t('premiumEditor.amount')}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-600 mb-1 cursor-pointer">
+              <input
+                  type="checkbox"
+                  checked={useTimeWindow}
+                  onChange={(e) => setUseTimeWindow(e.target.checked)}
+                  className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+              />
+              {t('premiumEditor.useTimeWindow')}
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                  type="time"
+                  value={windowStart}
+                  onChange={(e) => setWindowStart(e.target.value)}
+                  disabled={!useTimeWindow}
+                  className={`${inputClassName} disabled:bg-gray-100 disabled:text-gray-400`}
+                  aria-label={t('premiumEditor.windowStart')}
+              />
+              <span className="text-gray-500">~</span>
+              <input
+                  type="time"
+                  value={windowEnd}
+                  onChange={(e) => setWindowEnd(e.target.value)}
+                  disabled={!useTimeWindow}
+                  className={`${inputClassName} disabled:bg-gray-100 disabled:text-gray-400`}
+                  aria-label={t('premiumEditor.windowEnd')}
+              />
+            </div>
+          </div>
+          <div>
+            <span className="block text-sm font-medium text-gray-600 mb-1">{t('premiumEditor.dayTypes')}</span>
+            <div className="flex flex-wrap gap-3 py-2">
+              {(Object.keys(dayTypeLabels) as WorkDayType[]).map(dayType => (
+                  <label key={dayType} className="flex items-center gap-1 text-sm text-gray-600 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={dayTypes.includes(dayType)}
+                        onChange={() => handleToggleDayType(dayType)}
+                        className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                    />
+                    {dayTypeLabels[dayType]}
+                  </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+            <ul className="text-sm text-red-600 list-disc pl-5">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+        )}
+
+        <button
+            type="button"
+            onClick={handleAdd}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-indigo-600 border border-indigo-300 rounded-lg hover:bg-indigo-50"
+        >
+          <Plus className="w-4 h-4"/>
+          {t('premiumEditor.add')}
+        </button>
+
+        {rules.length > 0 && (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white">
+              {rules.map(rule => (
+                  <li key={rule.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <div>
+                      <div className="font-medium text-gray-700">{rule.name}</div>
+                      <div className="text-xs text-gray-500">{describePremiumRule(rule, dayTypeLabels)}</div>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => handleRemove(rule.id)}
+                        className="p-1 text-gray-400 hover:text-red-500"
+                        aria-label={t('common.removeItem', { name: rule.name })}
+                    >
+                      <Trash2 className="w-4 h-4"/>
+                    </button>
+                  </li>
+              ))}
+            </ul>
+        )}
+      </div>
+  );
+};
+
+export default PremiumRuleEditor;
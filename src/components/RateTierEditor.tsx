@@ -0,0 +1,131 @@
+import React, {useCallback, useState} from "react";
+import {Plus, Trash2} from "lucide-react";
+import type {RateTier} from "./type.ts";
+import {useTranslation} from "../hook/useTranslation.ts";
+import {describeMultiplier, formatMultiplierInput, parseMultiplier, validateRateTiers} from "../utils/RateTiers.ts";
+
+interface RateTierEditorProps {
+  /** 工作日類型名稱，用於錯誤訊息 */
+  label: string;
+  tiers: RateTier[];
+  onChange: (tiers: RateTier[]) => void;
+}
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+// 新增級距時，新級距的時數寬度
+const NEW_TIER_HOURS = 2;
+
+const RateTierEditor: React.FC<RateTierEditorProps> = ({ label, tiers, onChange }) => {
+  const { t } = useTranslation();
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // 檢查通過才套用，否則顯示錯誤並回傳 false
+  const commit = useCallback((next: RateTier[]): boolean => {
+    const tierErrors = validateRateTiers(next, label);
+    setErrors(tierErrors);
+    if (tierErrors.length > 0) return false;
+    onChange(next);
+    return true;
+  }, [label, onChange]);
+
+  // 修改級距上限，無效時恢復原值
+  const handleUpToBlur = useCallback((index: number, input: HTMLInputElement): void => {
+    const upToHours = parseFloat(input.value);
+    const next = tiers.map((tier, i) => i === index ? { ...tier, upToHours } : tier);
+    if (isNaN(upToHours) || !commit(next)) input.value = `${tiers[index].upToHours}`;
+  }, [tiers, commit]);
+
+  // 修改倍率，支援分數輸入，無效時恢復原值
+  const handleMultiplierBlur = useCallback((index: number, input: HTMLInputElement): void => {
+    const multiplier = parseMultiplier(input.value);
+    if (multiplier === null) {
+      setErrors([t('tierEditor.invalidMultiplier', { label, index: index + 1, value: input.value })]);
+      input.value = formatMultiplierInput(tiers[index].multiplier);
+      return;
+    }
+    if (commit(tiers.map((tier, i) => i === index ? { ...tier, multiplier } : tier))) {
+      input.value = formatMultiplierInput(multiplier);
+    }
+  }, [label, tiers, commit, t]);
+
+  // 於最後一級之前插入新級距，沿用最後一級的倍率
+  const handleAdd = useCallback((): void => {
+    const lowerHours = tiers.length > 1 ? tiers[tiers.length - 2].upToHours ?? 0 : 0;
+    const last = tiers[tiers.length - 1];
+    commit([...tiers.slice(0, -1), { upToHours: lowerHours + NEW_TIER_HOURS, multiplier: last.multiplier }, last]);
+  }, [tiers, commit]);
+
+  // 刪除級距；刪除最後一級時，前一級改為不設上限
+  const handleRemove = useCallback((index: number): void => {
+    const next = tiers.filter((_, i) => i !== index);
+    if (index === tiers.length - 1) next[next.length - 1] = { ...next[next.length - 1], upToHours: null };
+    commit(next);
+  }, [tiers, commit]);
+
+  return (
+      <div className="space-y-2">
+        {tiers.map((tier, index) => {
+          const lowerHours = index === 0 ? 0 : tiers[index - 1].upToHours ?? 0;
+          return (
+              <div key={`${index}-${tier.upToHours}-${tier.multiplier}`} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <span className="whitespace-nowrap">{lowerHours} ~</span>
+                  {tier.upToHours === null ? (
+                      <span className="px-3 py-2">{t('tierEditor.unbounded')}</span>
+                  ) : (
+                      <input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          defaultValue={tier.upToHours}
+                          onBlur={(e) => handleUpToBlur(index, e.target)}
+                          className={inputClassName}
+                          aria-label={t('tierEditor.upToHours', { label, index: index + 1 })}
+                      />
+                  )}
+                  <span>{t('common.hoursUnit')}</span>
+                </div>
+                <div>
+                  <input
+                      type="text"
+                      defaultValue={formatMultiplierInput(tier.multiplier)}
+                      onBlur={(e) => handleMultiplierBlur(index, e.target)}
+                      placeholder={t('tierEditor.multiplierPlaceholder')}
+                      className={inputClassName}
+                      aria-label={t('tierEditor.multiplier', { label, index: index + 1 })}
+                  />
+                  <span className="text-xs text-gray-500">{describeMultiplier(tier.multiplier)}</span>
+                </div>
+                <button
+                    type="button"
+                    onClick={() => handleRemove(index)}
+                    disabled={tiers.length === 1}
+                    className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-30 disabled:hover:text-gray-400"
+                    aria-label={t('tierEditor.remove', { label, index: index + 1 })}
+                >
+                  <Trash2 className="w-4 h-4"/>
+                </button>
+              </div>
+          );
+        })}
+
+        {errors.length > 0 && (
+            <ul className="text-sm text-red-600 list-disc pl-5">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+        )}
+
+        <button
+            type="button"
+            onClick={handleAdd}
+            className="flex items-center gap-2 px-3 py-1 text-sm text-indigo-600 border border-indigo-300 rounded-lg hover:bg-indigo-50"
+        >
+          <Plus className="w-4 h-4"/>
+          {t('tierEditor.add')}
+        </button>
+      </div>
+  );
+};
+
+export default RateTierEditor;
@@ -0,0 +1,204 @@
+import React, {useCallback, useState} from "react";
+import {Undo2} from "lucide-react";
+import type {
+  HoursSolution,
+  JurisdictionRulePack,
+  RoundingPolicy,
+  SalarySolution,
+  WorkDataInput,
+  WorkDayType
+} from "./type.ts";
+import {
+  type ComprehensiveOptions,
+  getPayBasisLabel,
+  type SalaryCalculatorService
+} from "../utils/SalaryCalculatorService.ts";
+import {useTranslation} from "../hook/useTranslation.ts";
+
+interface ReverseCalculatorPanelProps {
+  calculator: SalaryCalculatorService;
+  /** 目前設定換算的時薪，作為反推時數的預設值 */
+  defaultHourlyRate: number;
+  /** 反推工資使用的工時資料 */
+  workData: WorkDataInput;
+  roundingPolicy: RoundingPolicy;
+  options: ComprehensiveOptions;
+  /** 適用法域，決定可選的工作日類型及名稱 */
+  rulePack: JurisdictionRulePack;
+}
+
+const ReverseCalculatorPanel: React.FC<ReverseCalculatorPanelProps> = ({
+  calculator,
+  defaultHourlyRate,
+  workData,
+  roundingPolicy,
+  options,
+  rulePack
+}) => {
+  const { t, formatCurrency } = useTranslation();
+  const payBasisLabel = getPayBasisLabel(options.payBasis ?? 'monthly');
+  const money = (amount: number): string => formatCurrency(amount, rulePack.currency);
+
+  // 由金額反推時數
+  const [hoursTargetPay, setHoursTargetPay] = useState<string>('');
+  const [hourlyRateInput, setHourlyRateInput] = useState<string>('');
+  const [dayType, setDayType] = useState<WorkDayType>('weekday');
+  const [hoursSolution, setHoursSolution] = useState<HoursSolution | null>(null);
+  const [hoursError, setHoursError] = useState<string>('');
+
+  // 由金額反推工資
+  const [salaryTargetPay, setSalaryTargetPay] = useState<string>('');
+  const [salarySolution, setSalarySolution] = useState<SalarySolution | null>(null);
+  const [salaryError, setSalaryError] = useState<string>('');
+
+  const handleSolveHours = useCallback((): void => {
+    try {
+      const hourlyRate = hourlyRateInput ? parseFloat(hourlyRateInput) : defaultHourlyRate;
+      setHoursSolution(calculator.solveHoursForPay(parseFloat(hoursTargetPay), hourlyRate, dayType, {
+        ruleVersionId: options.ruleVersionId,
+        isEmergency: workData.isEmergency,
+        roundingPolicy
+      }));
+      setHoursError('');
+    } catch (error) {
+      setHoursSolution(null);
+      setHoursError(error instanceof Error ? error.message : t('input.calculationFailed'));
+    }
+  }, [calculator, hoursTargetPay, hourlyRateInput, defaultHourlyRate, dayType, options.ruleVersionId, workData.isEmergency, roundingPolicy, t]);
+
+  const handleSolveSalary = useCallback((): void => {
+    try {
+      setSalarySolution(calculator.solveSalaryForPay(parseFloat(salaryTargetPay), workData, roundingPolicy, options));
+      setSalaryError('');
+    } catch (error) {
+      setSalarySolution(null);
+      setSalaryError(error instanceof Error ? error.message : t('input.calculationFailed'));
+    }
+  }, [calculator, salaryTargetPay, workData, roundingPolicy, options, t]);
+
+  return (
+      <div className="card bg-base-100 shadow-xl mt-6">
+        <div className="card-body p-4 sm:p-6">
+          <h2 className="card-title text-xl sm:text-2xl mb-4 flex items-center gap-2">
+            <Undo2 className="w-6 h-6 text-accent"/>
+            {t('reverse.title')}
+          </h2>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* 反推時數 */}
+            <div className="card bg-base-200">
+              <div className="card-body p-4">
+                <h3 className="font-bold">{t('reverse.hoursTitle')}</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <label className="form-control">
+                    <span className="label-text mb-1">{t('reverse.targetPay')}</span>
+                    <input
+                        type="number"
+                        min="0"
+                        value={hoursTargetPay}
+                        onChange={(e) => setHoursTargetPay(e.target.value)}
+                        placeholder={t('reverse.targetPayPlaceholder')}
+                        className="input input-bordered input-sm"
+                    />
+                  </label>
+                  <label className="form-control">
+                    <span className="label-text mb-1">{t('reverse.hourlyRate')}</span>
+                    <input
+                        type="number"
+                        min="0"
+                        value={hourlyRateInput}
+                        onChange={(e) => setHourlyRateInput(e.target.value)}
+                        placeholder={defaultHourlyRate ? `${defaultHourlyRate}` : t('reverse.hourlyRatePlaceholder')}
+                        className="input input-bordered input-sm"
+                    />
+                  </label>
+                  <label className="form-control">
+                    <span className="label-text mb-1">{t('reverse.dayType')}</span>
+                    <select
+                        value={dayType}
+                        onChange={(e) => setDayType(e.target.value as WorkDayType)}
+                        className="select select-bordered select-sm"
+                    >
+                      {rulePack.dayTypes.map(type => (
+                          <option key={type} value={type}>{rulePack.dayTypeLabels[type]}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                <button type="button" onClick={handleSolveHours} className="btn btn-accent btn-sm mt-2">
+                  {t('reverse.solveHours')}
+                </button>
+
+                {hoursError && <div className="alert alert-error text-sm mt-2">{hoursError}</div>}
+                {hoursSolution && (
+                    <div className="mt-2 space-y-2">
+                      <div className="text-lg font-bold">
+                        {hoursSolution.range
+                            ? hoursSolution.range.min === hoursSolution.range.max
+                                ? t('reverse.hoursExact', { hours: hoursSolution.range.min })
+                                : t('reverse.hoursRange', { min: hoursSolution.range.min, max: hoursSolution.range.max })
+                            : t('reverse.hoursUnreachable')}
+                      </div>
+                      {hoursSolution.splits.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {hoursSolution.splits.map(split => (
+                                <span key={split.join('+')} className="badge badge-outline">{t('reverse.split', { hours: split.join(' + ') })}</span>
+                            ))}
+                          </div>
+                      )}
+                      <ul className="text-xs opacity-70 space-y-1">
+                        {hoursSolution.details.map((detail, index) => <li key={index}>• {detail}</li>)}
+                      </ul>
+                    </div>
+                )}
+              </div>
+            </div>
+
+            {/* 反推工資 */}
+            <div className="card bg-base-200">
+              <div className="card-body p-4">
+                <h3 className="font-bold">{t('reverse.salaryTitle', { payBasis: payBasisLabel })}</h3>
+                <p className="text-xs opacity-60">{t('reverse.salaryHint')}</p>
+                <label className="form-control">
+                  <span className="label-text mb-1">{t('reverse.totalPay')}</span>
+                  <input
+                      type="number"
+                      min="0"
+                      value={salaryTargetPay}
+                      onChange={(e) => setSalaryTargetPay(e.target.value)}
+                      placeholder={t('reverse.totalPayPlaceholder')}
+                      className="input input-bordered input-sm"
+                  />
+                </label>
+                <button type="button" onClick={handleSolveSalary} className="btn btn-accent btn-sm mt-2">
+                  {t('reverse.solveSalary', { payBasis: payBasisLabel })}
+                </button>
+
+                {salaryError && <div className="alert alert-error text-sm mt-2">{salaryError}</div>}
+                {salarySolution && (
+                    <div className="mt-2 space-y-2">
+                      <div className="text-lg font-bold">
+                        {salarySolution.range
+                            ? salarySolution.range.min === salarySolution.range.max
+                                ? t('reverse.salaryExact', { payBasis: payBasisLabel, amount: money(salarySolution.range.min) })
+                                : t('reverse.salaryRange', {
+                                  payBasis: payBasisLabel,
+                                  min: money(salarySolution.range.min),
+                                  max: money(salarySolution.range.max)
+                                })
+                            : t('reverse.salaryUnreachable')}
+                      </div>
+                      <ul className="text-xs opacity-70 space-y-1">
+                        {salarySolution.details.map((detail, index) => <li key={index}>• {detail}</li>)}
+                      </ul>
+                    </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+  );
+};
+
+export default ReverseCalculatorPanel;
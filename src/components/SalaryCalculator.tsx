@@ -1,44 +1,148 @@
-import React, {useCallback, useEffect, useState} from "react";
+import React, {useCallback, useMemo, useState} from "react";
 import {AlertTriangle, Calculator, Calendar, Clock, DollarSign, Info, Settings} from "lucide-react";
-import type { ComprehensiveResult, WorkDataInput} from "./type.ts";
-import {DEFAULT_RATES, useRateStore} from "../store/useRatestore.ts";
+import type {
+  CalculationError,
+  CalculationErrorField,
+  CompLeaveResult,
+  ComprehensiveResult,
+  DatedWorkEntry,
+  JurisdictionId,
+  Locale,
+  PayBasis,
+  RoundingRule,
+  WageComponent,
+  WorkDataInput
+} from "./type.ts";
+import {useRateStore} from "../store/useRatestore.ts";
 import {useEditDialog} from "../hook/useEditDialog.tsx";
+import {useTranslation} from "../hook/useTranslation.ts";
 import SettingsForm, {type SettingsFormData} from "./SettingsForm.tsx";
-import { createCustomCalculator} from "../utils/SalaryCalculatorService.ts";
+import {
+  type ComprehensiveOptions,
+  createCustomCalculator,
+  getPayBasisLabel,
+  InputValidationError,
+  PAY_BASES
+} from "../utils/SalaryCalculatorService.ts";
 import FloatingButton from "./FloatingButton.tsx";
+import DatedEntryEditor from "./DatedEntryEditor.tsx";
+import {getRulePackById, localizeRulePack, RULE_PACKS} from "../utils/RulePacks.ts";
+import CompLeavePanel from "./CompLeavePanel.tsx";
+import NetPayPanel from "./NetPayPanel.tsx";
+import PayslipAuditPanel from "./PayslipAuditPanel.tsx";
+import ReverseCalculatorPanel from "./ReverseCalculatorPanel.tsx";
+import ScenarioComparisonPanel from "./ScenarioComparisonPanel.tsx";
+import CalculationStepsTable from "./CalculationStepsTable.tsx";
+import {formatPeriodLabel, todayDateString} from "../utils/DateUtils.ts";
+import WageComponentEditor from "./WageComponentEditor.tsx";
+import {describeRoundingRule, getRoundingStageLabel, ROUNDING_STAGES} from "../utils/RoundingPolicy.ts";
+import {describeBillingIncrement} from "../utils/BillingIncrement.ts";
+import {getWorkingHourSchemeLabel, isFlexibleScheme} from "../utils/WorkingHourScheme.ts";
+import {getCategoryLabel} from "../utils/PremiumRules.ts";
+import {LOCALE_LABELS, LOCALES} from "../utils/I18n.ts";
+
+/** 工時輸入方式：快速字串輸入或日期制紀錄 */
+type InputMode = 'quick' | 'dated';
+
+/** 計算模式：加班費、換補休、薪資單稽核或反推計算 */
+type CalculationMode = 'pay' | 'compLeave' | 'audit' | 'reverse';
+
+// 時薪比較用的兩種規則：無條件進位至整數元、不捨入
+const CEILING_RULE: RoundingRule = { mode: 'ceil', decimals: 0 };
+const EXACT_RULE: RoundingRule = { mode: 'none', decimals: 2 };
+
+// 來自自訂倍率設定（而非本頁輸入欄位）的錯誤欄位
+const SETTINGS_ERROR_FIELDS: CalculationErrorField[] = ['premiumRules', 'rateTiers'];
+const isSettingsError = (error: CalculationError): boolean =>
+  error.field !== undefined && SETTINGS_ERROR_FIELDS.includes(error.field);
 
 const SalaryCalculator: React.FC = () => {
-  const [monthlySalary, setMonthlySalary] = useState<string>('');
+  const { locale, t, joinList, formatCurrency, getCurrencySymbol } = useTranslation();
+  const [wageAmount, setWageAmount] = useState<string>('');
+  const [payBasis, setPayBasis] = useState<PayBasis>('monthly');
+  const [wageComponents, setWageComponents] = useState<WageComponent[]>([]);
+  const [applyMinimumWageFloor, setApplyMinimumWageFloor] = useState<boolean>(false);
+  // 部分工時每日約定工時，空字串表示全時人員
+  const [contractualHours, setContractualHours] = useState<string>('');
+  const [monthlyScheduledHours, setMonthlyScheduledHours] = useState<string>('');
   const [showmodel, setShowModel] = useState<boolean>(false);
   const [workData, setWorkData] = useState<WorkDataInput>({
     weekdayOvertime: '',
     restDayWork: '',
     holidayWork: '',
     regularDayOffWork: '',
-    isEmergency: false
+    isEmergency: false,
+    entries: []
   });
+  const [inputMode, setInputMode] = useState<InputMode>('quick');
   const [results, setResults] = useState<ComprehensiveResult | null>(null);
   const [showComparison, setShowComparison] = useState<boolean>(false);
+  const [hasOvertimeConsent, setHasOvertimeConsent] = useState<boolean>(false);
+  // 空字串表示依工作日期自動判斷法規版本
+  const [ruleVersionId, setRuleVersionId] = useState<string>('');
+  const [calculationMode, setCalculationMode] = useState<CalculationMode>('pay');
+  const [compLeaveUsedHours, setCompLeaveUsedHours] = useState<string>('');
+  const [compLeaveAsOfDate, setCompLeaveAsOfDate] = useState<string>(todayDateString);
+  const [compLeaveValidityMonths, setCompLeaveValidityMonths] = useState<string>('');
+  const [compLeaveResult, setCompLeaveResult] = useState<CompLeaveResult | null>(null);
+  // 輸入檢查錯誤，顯示於對應欄位下方；工資相關錯誤不指定欄位
+  const [inputErrors, setInputErrors] = useState<CalculationError[]>([]);
+  const [calculationError, setCalculationError] = useState<string>('');
 
 
-  // 使用 React state 管理設定
-  const [, setSettings] = useState({
-    customRates: DEFAULT_RATES,
-    useCeilingCalculation: true
-  });
   // 從 Zustand Store 中取出狀態和動作
-  const { customRates, setCustomRates } = useRateStore();
+  const {
+    jurisdictionId,
+    setJurisdiction,
+    customRates,
+    setCustomRates,
+    roundingPolicy,
+    setRoundingPolicy,
+    billingIncrement,
+    setBillingIncrement,
+    premiumRules,
+    setPremiumRules,
+    workingHourScheme,
+    setWorkingHourScheme,
+    clockSettings,
+    setClockSettings,
+    setLocale
+  } = useRateStore();
+  const useCeilingCalculation = roundingPolicy.hourlyRate.mode === 'ceil';
+  // 規則包的名稱及顯示文字依目前語系；每月平均所定勞動時數依使用者輸入（未填或無效時採規則包預設值）
+  const rulePack = useMemo(() => {
+    const pack = localizeRulePack(getRulePackById(jurisdictionId), locale);
+    const hours = parseFloat(monthlyScheduledHours);
+    return pack.monthlyScheduledHours !== undefined && Number.isFinite(hours) && hours > 0
+      ? { ...pack, monthlyScheduledHours: hours }
+      : pack;
+  }, [jurisdictionId, locale, monthlyScheduledHours]);
 
-  // 使用 React state 管理計算方式
-  const [useCeilingCalculation, setUseCeilingCalculation] = useState<boolean>(true);
 
+  // 創建計算器實例 - 倍率或法域變更時重建，確保當次渲染的時薪換算即採用新法域
+  const calculator = useMemo(() => createCustomCalculator(customRates, rulePack), [customRates, rulePack]);
 
-  // 創建計算器實例 - 根據設定動態更新
-  const [calculator] = useState(() => createCustomCalculator(customRates));
+  // 切換法域時，法規版本改回依日期自動判斷
+  const handleJurisdictionChange = useCallback((id: JurisdictionId): void => {
+    setJurisdiction(id);
+    setRuleVersionId('');
+    setResults(null);
+    setInputErrors([]);
+    // 不適用例假的法域，清除已填的例假時數
+    if (!getRulePackById(id).dayTypes.includes('regularDayOff')) {
+      setWorkData(prev => ({ ...prev, regularDayOffWork: '' }));
+    }
+  }, [setJurisdiction]);
+
+  // 切換語系；結果中的說明文字依計算當時的語系產生，需重新計算
+  const handleLocaleChange = useCallback((nextLocale: Locale): void => {
+    setLocale(nextLocale);
+    setResults(null);
+    setCompLeaveResult(null);
+  }, [setLocale]);
 
-  useEffect(() => {
-    calculator.updateRates(customRates);
-  }, [calculator, customRates]);
+  // 金額顯示，幣別依適用法域
+  const money = (amount: number): string => formatCurrency(amount, rulePack.currency);
 
 
 
@@ -49,84 +153,207 @@ const SalaryCalculator: React.FC = () => {
   const handleOpenSettings = useCallback(async () => {
       setShowModel(true)
     const result = await editDialog({
-      cardTitle: "自訂倍率設定",
-      initialData: { customRates, useCeilingCalculation },
+      cardTitle: t('calc.settingsTitle'),
+      initialData: { customRates, roundingPolicy, billingIncrement, premiumRules, workingHourScheme, clockSettings },
       cardStyle:"card bg-base-100 border border-gray-200 shadow-lg max-w-5xl w-full mx-4 max-h-[80vh] overflow-auto",
       renderForm: ({ initialData, onConfirm, onCancel }) => (
         <SettingsForm
           initialData={initialData}
           onConfirm={onConfirm}
             onCancel={onCancel}
+          rulePack={rulePack}
         />
       )
     });
 
     if (result) {
-        // 更新 Zustand store 中的 customRates
-        Object.keys(result.customRates).forEach(key => {
-            setCustomRates(key as keyof typeof result.customRates, result.customRates[key as keyof typeof result.customRates]);
-        });
-      setUseCeilingCalculation(result.useCeilingCalculation);
+      // 更新 Zustand store 中的 customRates
+      setCustomRates(result.customRates);
+      setRoundingPolicy(result.roundingPolicy);
+      setBillingIncrement(result.billingIncrement);
+      setPremiumRules(result.premiumRules);
+      setWorkingHourScheme(result.workingHourScheme);
+      setClockSettings(result.clockSettings);
+      // 設定已更新，清除加給規則及倍率級距的錯誤訊息，待重新計算時再檢查
+      setInputErrors(prev => prev.filter(error => !isSettingsError(error)));
                setShowModel(false)
     }else {
          setShowModel(false)
     }
 
 
-  }, [editDialog, customRates, useCeilingCalculation, setCustomRates]);
+  }, [editDialog, t, rulePack, customRates, roundingPolicy, billingIncrement, premiumRules, workingHourScheme, clockSettings, setCustomRates, setRoundingPolicy, setBillingIncrement, setPremiumRules, setWorkingHourScheme, setClockSettings]);
+
+  // 部分工時約定工時（未填或無效時視為全時人員）
+  const partTimeHours = useMemo<number | undefined>(() => {
+    const hours = parseFloat(contractualHours);
+    return !isNaN(hours) && hours > 0 ? hours : undefined;
+  }, [contractualHours]);
+
+  // 依輸入方式決定實際送出計算的工作資料
+  // 加班費及稽核模式下全部以現金計算，忽略換補休勾選
+  // 日期明細模式下清空隱藏的快速輸入欄位，避免尚無明細時改以看不到的欄位計算
+  const effectiveWorkData = useMemo<WorkDataInput>(() => {
+    if (inputMode !== 'dated') return { ...workData, entries: undefined };
+    const datedWorkData: WorkDataInput = {
+      ...workData,
+      weekdayOvertime: '',
+      restDayWork: '',
+      holidayWork: '',
+      regularDayOffWork: ''
+    };
+    if (calculationMode !== 'compLeave') {
+      return { ...datedWorkData, entries: workData.entries?.map(entry => ({ ...entry, compLeave: false })) };
+    }
+    return datedWorkData;
+  }, [inputMode, calculationMode, workData]);
+
+  // 目前的計薪設定，供反推計算及情境比較沿用
+  const currentOptions = useMemo<ComprehensiveOptions>(() => ({
+    ruleVersionId: ruleVersionId || undefined,
+    payBasis,
+    wageComponents,
+    billingIncrement,
+    premiumRules,
+    workingHourScheme,
+    contractualHours: partTimeHours,
+    clockSettings
+  }), [ruleVersionId, payBasis, wageComponents, billingIncrement, premiumRules, workingHourScheme, partTimeHours, clockSettings]);
+
+  // 目前輸入存為比較情境時的內容，一律以現金計算
+  const currentScenario = useMemo(() => ({
+    wageAmount: parseFloat(wageAmount),
+    workData: { ...effectiveWorkData, entries: effectiveWorkData.entries?.map(entry => ({ ...entry, compLeave: false })) },
+    roundingPolicy,
+    rates: customRates,
+    rulePack,
+    options: { ...currentOptions, applyMinimumWageFloor }
+  }), [wageAmount, effectiveWorkData, roundingPolicy, customRates, rulePack, currentOptions, applyMinimumWageFloor]);
+
+  // 每月及每三個月延長工時上限檢查
+  const legalCheck = useMemo(() => (
+    results ? calculator.checkLegalLimits(effectiveWorkData, { withConsent: hasOvertimeConsent, workingHourScheme, contractualHours: partTimeHours, clockSettings }) : null
+  ), [calculator, results, effectiveWorkData, hasOvertimeConsent, workingHourScheme, partTimeHours, clockSettings]);
 
   // 計算綜合加班費 - 使用封裝的服務
   const calculateComprehensive = useCallback((): void => {
-    const salary = parseFloat(monthlySalary);
-    if (!salary || salary <= 0) {
-      alert('請輸入有效的月薪');
-      return;
-    }
+    const salary = parseFloat(wageAmount);
+    const validation = calculator.validateInput(salary, effectiveWorkData, { payBasis, wageComponents, premiumRules });
+    setInputErrors(validation.errors);
+    setCalculationError('');
+    if (!validation.isValid) return;
 
     try {
-      const result = calculator.calculateComprehensive(salary, workData, useCeilingCalculation);
+      // 換補休模式的快速輸入：平日加班及休息日工作全數換補休，不再計入加班費
+      const cashWorkData = calculationMode === 'compLeave' && inputMode === 'quick'
+        ? { ...effectiveWorkData, weekdayOvertime: '', restDayWork: '' }
+        : effectiveWorkData;
+      const result = calculator.calculateComprehensive(salary, cashWorkData, roundingPolicy, {
+        ruleVersionId: ruleVersionId || undefined,
+        payBasis,
+        wageComponents,
+        applyMinimumWageFloor,
+        billingIncrement,
+        premiumRules,
+        workingHourScheme,
+        contractualHours: partTimeHours,
+        clockSettings
+      });
       setResults(result);
 
-      // 顯示工時合規性檢查
-      const validation = calculator.validateWorkHours(workData);
-      if (!validation.isValid && validation.warnings.length > 0) {
-        const warningMessage = validation.warnings.join('\n');
-        // 可以選擇顯示警告，但不阻止計算
-        console.warn('工時檢查警告:', warningMessage);
+      if (calculationMode === 'compLeave') {
+        setCompLeaveResult(calculator.calculateCompensatoryLeave(salary, effectiveWorkData, roundingPolicy, {
+          ruleVersionId: ruleVersionId || undefined,
+          payBasis,
+          wageComponents,
+          applyMinimumWageFloor,
+          billingIncrement,
+          workingHourScheme,
+          contractualHours: partTimeHours,
+          clockSettings,
+          usedHours: parseFloat(compLeaveUsedHours) || 0,
+          asOfDate: compLeaveAsOfDate || undefined,
+          validityMonths: parseInt(compLeaveValidityMonths, 10) || undefined
+        }));
+      } else {
+        setCompLeaveResult(null);
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : '計算發生錯誤';
-      alert(errorMessage);
+      if (error instanceof InputValidationError) {
+        setInputErrors(error.errors);
+      } else {
+        setCalculationError(error instanceof Error ? error.message : t('input.calculationFailed'));
+      }
     }
-  }, [calculator, monthlySalary, workData, useCeilingCalculation]);
+  }, [calculator, t, wageAmount, payBasis, wageComponents, applyMinimumWageFloor, effectiveWorkData, roundingPolicy, billingIncrement, premiumRules, workingHourScheme, partTimeHours, clockSettings, ruleVersionId, calculationMode, inputMode,
+    compLeaveUsedHours, compLeaveAsOfDate, compLeaveValidityMonths]);
 
-  // 處理輸入變更
+  // 處理工資變更，同時清除工資的錯誤訊息
+  const handleWageAmountChange = useCallback((value: string): void => {
+    setWageAmount(value);
+    setInputErrors(prev => prev.filter(error => error.field !== undefined));
+  }, []);
+
+  // 處理輸入變更，同時清除該欄位的錯誤訊息
   const handleInputChange = useCallback((field: keyof WorkDataInput, value: string | boolean): void => {
     setWorkData(prev => ({ ...prev, [field]: value }));
+    setInputErrors(prev => prev.filter(error => error.field !== field));
+  }, []);
+
+  // 處理日期制紀錄變更
+  const handleEntriesChange = useCallback((entries: DatedWorkEntry[]): void => {
+    setWorkData(prev => ({ ...prev, entries }));
+    setInputErrors(prev => prev.filter(error => error.field !== 'entries'));
   }, []);
 
   // 重置表單
   const resetForm = useCallback((): void => {
-    setMonthlySalary('');
+    setWageAmount('');
+    setPayBasis('monthly');
+    setWageComponents([]);
+    setApplyMinimumWageFloor(false);
     setWorkData({
       weekdayOvertime: '',
       restDayWork: '',
       holidayWork: '',
       regularDayOffWork: '',
-      isEmergency: false
+      isEmergency: false,
+      entries: []
     });
     setResults(null);
+    setCompLeaveResult(null);
     setShowComparison(false);
+    setInputErrors([]);
+    setCalculationError('');
   }, []);
 
+  // 指定欄位的輸入錯誤；未指定欄位時為工資相關錯誤
+  const getFieldErrors = (field?: CalculationErrorField): CalculationError[] =>
+    inputErrors.filter(error => error.field === field);
+
+  const renderFieldErrors = (field?: CalculationErrorField) => getFieldErrors(field).map((error, index) => (
+      <p key={index} className="text-error text-sm mt-1">{error.message}</p>
+  ));
+
+  // 有錯誤的輸入框以紅框標示
+  const inputErrorClass = (field?: CalculationErrorField): string => getFieldErrors(field).length > 0 ? 'input-error' : '';
+
   // 計算薪資比較數據 - 使用計算器服務
-  const hourlyRateExact = monthlySalary ? calculator.calculateHourlyRate(parseFloat(monthlySalary), false) : 0;
-  const hourlyRateCeiling = monthlySalary ? calculator.calculateHourlyRate(parseFloat(monthlySalary), true) : 0;
-  const dailyWageExact = monthlySalary ? calculator.calculateDailyWage(parseFloat(monthlySalary), false) : 0;
-  const dailyWageCeiling = monthlySalary ? calculator.calculateDailyWage(parseFloat(monthlySalary), true) : 0;
+  // 工資須為有限正數，避免 1e400 等輸入轉為 Infinity 後於渲染時拋出錯誤
+  const previewSalary = parseFloat(wageAmount);
+  const hasValidPreviewSalary = Number.isFinite(previewSalary) && previewSalary > 0;
+  const hourlyRateExact = hasValidPreviewSalary ? calculator.calculateHourlyRate(previewSalary, EXACT_RULE, payBasis, wageComponents) : 0;
+  const hourlyRateCeiling = hasValidPreviewSalary ? calculator.calculateHourlyRate(previewSalary, CEILING_RULE, payBasis, wageComponents) : 0;
+  const dailyWageExact = hasValidPreviewSalary ? calculator.calculateDailyWage(previewSalary, EXACT_RULE, payBasis, wageComponents) : 0;
+  const dailyWageCeiling = hasValidPreviewSalary ? calculator.calculateDailyWage(previewSalary, CEILING_RULE, payBasis, wageComponents) : 0;
 
-  const currentHourlyRate = monthlySalary ? calculator.calculateHourlyRate(parseFloat(monthlySalary), useCeilingCalculation) : 0;
-  const currentDailyWage = monthlySalary ? calculator.calculateDailyWage(parseFloat(monthlySalary), useCeilingCalculation) : 0;
+  const currentHourlyRate = hasValidPreviewSalary ? calculator.calculateHourlyRate(previewSalary, roundingPolicy.hourlyRate, payBasis, wageComponents) : 0;
+  const currentDailyWage = hasValidPreviewSalary ? calculator.calculateDailyWage(previewSalary, roundingPolicy.hourlyRate, payBasis, wageComponents) : 0;
+
+  // 即時最低工資檢查（以今天為準）
+  const minimumWagePreview = hasValidPreviewSalary
+    ? calculator.checkMinimumWage(previewSalary, payBasis, wageComponents)
+    : null;
 
   // 檢查是否要顯示計算比較 - 假設這是一個 prop 或設定
   const showCalculationComparison = true;
@@ -136,37 +363,115 @@ const SalaryCalculator: React.FC = () => {
         <div className="max-w-4xl mx-auto">
           {/* Header */}
           <div className="text-center mb-8 relative">
+            <select
+                value={locale}
+                onChange={(e) => handleLocaleChange(e.target.value as Locale)}
+                className="select select-bordered select-sm absolute right-0 top-0"
+                aria-label={t('app.language')}
+            >
+              {LOCALES.map(option => (
+                  <option key={option} value={option}>{LOCALE_LABELS[option]}</option>
+              ))}
+            </select>
             <div className="flex flex-col items-center gap-2 mb-4">
               <div className="flex justify-center items-center gap-3">
                 <Calculator className="w-8 h-8 text-primary"/>
-                <h1 className="text-2xl sm:text-3xl font-bold text-base-content">勞動基準法加班費計算系統</h1>
+                <h1 className="text-2xl sm:text-3xl font-bold text-base-content">{t('app.title')}</h1>
               </div>
-              <p className="text-sm sm:text-base text-base-content opacity-60 mt-1">根據勞基法第24條規定，準確計算各種加班費用</p>
+              <p className="text-sm sm:text-base text-base-content opacity-60 mt-1">{t('app.subtitle')}</p>
             </div>
           </div>
 
           {/* Main Content */}
           <div className="card bg-base-200 shadow-xl mb-6">
             <div className="card-body p-4 sm:p-6">
-              {/* 月薪輸入 */}
+              {/* 工資輸入 */}
               <div className="mb-6">
                 <label className="label">
             <span className="label-text text-lg font-semibold flex items-center gap-2">
               <DollarSign className="w-5 h-5"/>
-              月薪設定
+              {t('calc.wageHeading', { payBasis: getPayBasisLabel(payBasis) })}
             </span>
                 </label>
                 <div className="flex gap-4 items-center">
+                  <select
+                      value={payBasis}
+                      onChange={(e) => setPayBasis(e.target.value as PayBasis)}
+                      className="select select-bordered text-lg"
+                      aria-label={t('calc.payBasis')}
+                  >
+                    {PAY_BASES.map(basis => (
+                        <option key={basis} value={basis}>{t('calc.payBasisOption', { payBasis: getPayBasisLabel(basis) })}</option>
+                    ))}
+                  </select>
                   <input
                       type="number"
-                      value={monthlySalary}
-                      onChange={(e) => setMonthlySalary(e.target.value)}
-                      placeholder="請輸入月薪"
-                      className="input input-bordered flex-1 text-lg"
-                      aria-label="請輸入月薪"
+                      value={wageAmount}
+                      onChange={(e) => handleWageAmountChange(e.target.value)}
+                      placeholder={t('calc.wagePlaceholder', { payBasis: getPayBasisLabel(payBasis) })}
+                      className={`input input-bordered flex-1 text-lg ${inputErrorClass()}`}
+                      aria-label={t('calc.wagePlaceholder', { payBasis: getPayBasisLabel(payBasis) })}
                   />
-                  <span className="text-base-content font-medium">元</span>
+                  <span className="text-base-content font-medium">{getCurrencySymbol(rulePack.currency)}</span>
                 </div>
+                {renderFieldErrors()}
+                {minimumWagePreview && !minimumWagePreview.isCompliant && (
+                    <div className="alert alert-error mt-3 text-sm">
+                      <AlertTriangle className="w-4 h-4"/>
+                      <div>
+                        {minimumWagePreview.warnings.map((warning, index) => (
+                            <p key={index}>{warning}</p>
+                        ))}
+                      </div>
+                    </div>
+                )}
+                <label className="flex items-center gap-2 mt-3 cursor-pointer">
+                  <input
+                      type="checkbox"
+                      checked={applyMinimumWageFloor}
+                      onChange={(e) => setApplyMinimumWageFloor(e.target.checked)}
+                      className="checkbox checkbox-sm"
+                  />
+                  <span className="text-sm">{t('calc.minimumWageFloor')}</span>
+                </label>
+                <details className="collapse collapse-arrow bg-base-100 mt-3">
+                  <summary className="collapse-title text-sm font-medium">
+                    {t('calc.wageComponents')}
+                    {wageComponents.length > 0 && t('calc.wageComponentCount', { count: wageComponents.length })}
+                  </summary>
+                  <div className="collapse-content">
+                    <WageComponentEditor
+                        components={wageComponents}
+                        onChange={setWageComponents}
+                        unitLabel={getPayBasisLabel(payBasis)}
+                        currency={rulePack.currency}
+                    />
+                  </div>
+                </details>
+                <details className="collapse collapse-arrow bg-base-100 mt-3">
+                  <summary className="collapse-title text-sm font-medium">
+                    {t('calc.partTime')}
+                    {partTimeHours !== undefined && t('calc.partTimeHours', { hours: partTimeHours })}
+                  </summary>
+                  <div className="collapse-content space-y-2">
+                    <label className="form-control max-w-xs">
+                      <span className="label-text mb-1">{t('calc.contractualHours')}</span>
+                      <input
+                          type="number"
+                          min="0"
+                          max="8"
+                          step="0.5"
+                          value={contractualHours}
+                          onChange={(e) => setContractualHours(e.target.value)}
+                          placeholder={t('calc.contractualHoursPlaceholder')}
+                          className="input input-bordered"
+                      />
+                    </label>
+                    <p className="text-xs opacity-60">
+                      {t('calc.partTimeHint')}
+                    </p>
+                  </div>
+                </details>
               </div>
 
               {/* 計算方式開關 */}
@@ -175,56 +480,62 @@ const SalaryCalculator: React.FC = () => {
                   <div className="flex items-center gap-2">
                     <Calculator className="w-5 h-5"/>
                     <div>
-                      <h3 className="font-semibold">計算方式設定</h3>
-                      <p className="text-sm opacity-70">選擇薪資計算方式（影響加班費計算）</p>
+                      <h3 className="font-semibold">{t('calc.methodTitle')}</h3>
+                      <p className="text-sm opacity-70">{t('calc.methodHint')}</p>
                     </div>
                   </div>
                   <div className="flex items-center gap-3 mt-2 sm:mt-0">
               <span className={`text-sm font-medium ${!useCeilingCalculation ? 'text-base-content' : 'opacity-50'}`}>
-                四捨五入
+                {useCeilingCalculation ? t('calc.noCeiling') : describeRoundingRule(roundingPolicy.hourlyRate)}
               </span>
                     <input
                         type="checkbox"
                         name={"switcher"}
                         checked={useCeilingCalculation}
-                        onChange={(e) => setSettings(prev => ({
-                          ...prev,
-                          useCeilingCalculation: e.target.checked
-                        }))}
+                        onChange={(e) => setRoundingPolicy({
+                          ...roundingPolicy,
+                          hourlyRate: e.target.checked ? CEILING_RULE : EXACT_RULE
+                        })}
                         className="toggle"
-                        aria-label="切換計算方式"
+                        aria-label={t('calc.toggleMethod')}
                     />
                     <span
                         className={`text-sm font-medium ${useCeilingCalculation ? 'text-base-content' : 'opacity-50'}`}>
-                無條件進位
+                {t('calc.ceiling')}
               </span>
                   </div>
                 </div>
-                {monthlySalary && (
+                {hasValidPreviewSalary && (
                     <div className="mt-3 pt-3 border-t border-warning/20">
                       <div className="flex justify-between text-sm">
-                        <span>當前時薪:</span>
-                        <span className="font-bold">{currentHourlyRate} 元</span>
+                        <span>{t('calc.currentHourlyRate')}</span>
+                        <span className="font-bold">{money(currentHourlyRate)}</span>
                       </div>
                       <div className="flex justify-between text-sm">
-                        <span>當前日薪:</span>
-                        <span className="font-bold">{currentDailyWage} 元</span>
+                        <span>{t('calc.currentDailyWage')}</span>
+                        <span className="font-bold">{money(currentDailyWage)}</span>
                       </div>
+                      <p className="text-xs opacity-70 mt-1">
+                        {ROUNDING_STAGES.map(stage => t('calc.roundingSummaryItem', {
+                          stage: getRoundingStageLabel(stage),
+                          rule: describeRoundingRule(roundingPolicy[stage])
+                        })).join(t('calc.roundingSummarySeparator'))}
+                      </p>
                     </div>
                 )}
               </div>
 
               {/* 薪資比較 */}
-              {monthlySalary && showCalculationComparison && (
+              {hasValidPreviewSalary && showCalculationComparison && (
                   <div className="card bg-base-100 mb-6">
                     <div className="card-body">
                       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-3">
-                        <h3 className="card-title text-base">薪資計算方式</h3>
+                        <h3 className="card-title text-base">{t('calc.comparisonTitle')}</h3>
                         <button
                             onClick={() => setShowComparison(!showComparison)}
                             className="btn btn-link btn-sm text-primary"
                         >
-                          {showComparison ? '隱藏' : '顯示'} 計算比較
+                          {showComparison ? t('calc.hideComparison') : t('calc.showComparison')}
                         </button>
                       </div>
                       <div className="grid grid-cols-1 gap-4">
@@ -233,10 +544,11 @@ const SalaryCalculator: React.FC = () => {
                           <div className="flex items-center justify-between">
                             <div>
                               <p className="text-sm opacity-70">
-                                {useCeilingCalculation ? '✓ 使用中' : '未使用'} - 無條件進位
+                                {t('calc.methodCeiling', { status: useCeilingCalculation ? t('calc.inUse') : t('calc.notInUse') })}
+                              </p>
+                              <p className="font-bold text-primary">
+                                {t('calc.rateSummary', { hourlyRate: money(hourlyRateCeiling), dailyWage: money(dailyWageCeiling) })}
                               </p>
-                              <p className="font-bold text-primary">時薪: {hourlyRateCeiling} 元 |
-                                日薪: {dailyWageCeiling} 元</p>
                             </div>
                           </div>
                         </div>
@@ -246,10 +558,11 @@ const SalaryCalculator: React.FC = () => {
                               <div className="flex items-center justify-between">
                                 <div>
                                   <p className="text-sm opacity-70">
-                                    {!useCeilingCalculation ? '✓ 使用中' : '未使用'} - 四捨五入
+                                    {t('calc.methodExact', { status: roundingPolicy.hourlyRate.mode === 'none' ? t('calc.inUse') : t('calc.notInUse') })}
+                                  </p>
+                                  <p className="font-medium">
+                                    {t('calc.rateSummary', { hourlyRate: money(hourlyRateExact), dailyWage: money(dailyWageExact) })}
                                   </p>
-                                  <p className="font-medium">時薪: {hourlyRateExact.toFixed(2)} 元 |
-                                    日薪: {dailyWageExact.toFixed(2)} 元</p>
                                 </div>
                               </div>
                             </div>
@@ -259,23 +572,232 @@ const SalaryCalculator: React.FC = () => {
                   </div>
               )}
 
+              {/* 計算模式 */}
+              <div role="tablist" className="tabs tabs-lifted mb-6">
+                <button
+                    type="button"
+                    role="tab"
+                    onClick={() => setCalculationMode('pay')}
+                    className={`tab ${calculationMode === 'pay' ? 'tab-active' : ''}`}
+                >
+                  {t('calc.modePay')}
+                </button>
+                <button
+                    type="button"
+                    role="tab"
+                    onClick={() => setCalculationMode('compLeave')}
+                    className={`tab ${calculationMode === 'compLeave' ? 'tab-active' : ''}`}
+                >
+                  {t('calc.modeCompLeave')}
+                </button>
+                <button
+                    type="button"
+                    role="tab"
+                    onClick={() => setCalculationMode('audit')}
+                    className={`tab ${calculationMode === 'audit' ? 'tab-active' : ''}`}
+                >
+                  {t('calc.modeAudit')}
+                </button>
+                <button
+                    type="button"
+                    role="tab"
+                    onClick={() => setCalculationMode('reverse')}
+                    className={`tab ${calculationMode === 'reverse' ? 'tab-active' : ''}`}
+                >
+                  {t('calc.modeReverse')}
+                </button>
+              </div>
+
+              {calculationMode === 'audit' && (
+                  <p className="text-sm opacity-70 mb-6">
+                    {t('calc.auditHint')}
+                  </p>
+              )}
+
+              {calculationMode === 'reverse' && (
+                  <p className="text-sm opacity-70 mb-6">
+                    {t('calc.reverseHint')}
+                  </p>
+              )}
+
+              {calculationMode === 'compLeave' && (
+                  <div className="card bg-base-100 mb-6">
+                    <div className="card-body">
+                      <p className="text-sm opacity-70 mb-2">
+                        {t('calc.compLeaveHint')}
+                      </p>
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        <label className="form-control">
+                          <span className="label-text mb-1">{t('calc.compLeaveUsed')}</span>
+                          <input
+                              type="number"
+                              min="0"
+                              value={compLeaveUsedHours}
+                              onChange={(e) => setCompLeaveUsedHours(e.target.value)}
+                              placeholder={t('calc.compLeaveUsedPlaceholder')}
+                              className="input input-bordered"
+                          />
+                        </label>
+                        <label className="form-control">
+                          <span className="label-text mb-1">{t('calc.compLeaveAsOf')}</span>
+                          <input
+                              type="date"
+                              value={compLeaveAsOfDate}
+                              onChange={(e) => setCompLeaveAsOfDate(e.target.value)}
+                              className="input input-bordered"
+                          />
+                        </label>
+                        <label className="form-control">
+                          <span className="label-text mb-1">{t('calc.compLeaveValidity')}</span>
+                          <input
+                              type="number"
+                              min="1"
+                              value={compLeaveValidityMonths}
+                              onChange={(e) => setCompLeaveValidityMonths(e.target.value)}
+                              placeholder={t('calc.compLeaveValidityPlaceholder')}
+                              className="input input-bordered"
+                          />
+                        </label>
+                      </div>
+                    </div>
+                  </div>
+              )}
+
+              {/* 法域 */}
+              <div className="form-control mb-4">
+                <label className="label">
+                  <span className="label-text font-semibold">{t('calc.jurisdiction')}</span>
+                </label>
+                <select
+                    value={jurisdictionId}
+                    onChange={(e) => handleJurisdictionChange(e.target.value as JurisdictionId)}
+                    className="select select-bordered"
+                >
+                  {RULE_PACKS.map(pack => (
+                      <option key={pack.id} value={pack.id}>{localizeRulePack(pack, locale).name}</option>
+                  ))}
+                </select>
+                <p className="text-xs opacity-60 mt-1">
+                  {t('calc.jurisdictionHint', { description: rulePack.description })}
+                </p>
+              </div>
+
+              {/* 每月平均所定勞動時數（各事業單位不同的法域才顯示） */}
+              {payBasis === 'monthly' && rulePack.monthlyScheduledHours !== undefined && (
+                  <div className="form-control mb-4">
+                    <label className="label">
+                      <span className="label-text font-semibold">{t('calc.monthlyScheduledHours')}</span>
+                    </label>
+                    <input
+                        type="number"
+                        min="1"
+                        step="0.5"
+                        value={monthlyScheduledHours}
+                        onChange={(e) => setMonthlyScheduledHours(e.target.value)}
+                        placeholder={String(getRulePackById(jurisdictionId).monthlyScheduledHours)}
+                        className="input input-bordered max-w-xs"
+                    />
+                    <p className="text-xs opacity-60 mt-1">
+                      {t('calc.monthlyScheduledHoursHint', { hours: rulePack.monthlyScheduledHours })}
+                    </p>
+                  </div>
+              )}
+
+              {/* 法規版本 */}
+              <div className="form-control mb-6">
+                <label className="label">
+                  <span className="label-text font-semibold">{t('calc.ruleVersion')}</span>
+                </label>
+                <select
+                    value={ruleVersionId}
+                    onChange={(e) => setRuleVersionId(e.target.value)}
+                    className="select select-bordered"
+                >
+                  <option value="">{t('calc.ruleVersionAuto')}</option>
+                  {rulePack.ruleVersions.map(version => (
+                      <option key={version.id} value={version.id}>
+                        {t('calc.ruleVersionOption', { name: version.name, effectiveFrom: version.effectiveFrom })}
+                      </option>
+                  ))}
+                </select>
+                <p className="text-xs opacity-60 mt-1">
+                  {ruleVersionId
+                      ? rulePack.ruleVersions.find(version => version.id === ruleVersionId)?.description
+                      : t('calc.ruleVersionAutoHint')}
+                </p>
+              </div>
+
+              {/* 輸入方式切換 */}
+              <div role="tablist" className="tabs tabs-boxed mb-4">
+                <button
+                    type="button"
+                    role="tab"
+                    onClick={() => setInputMode('quick')}
+                    className={`tab ${inputMode === 'quick' ? 'tab-active' : ''}`}
+                >
+                  {t('calc.inputQuick')}
+                </button>
+                <button
+                    type="button"
+                    role="tab"
+                    onClick={() => setInputMode('dated')}
+                    className={`tab ${inputMode === 'dated' ? 'tab-active' : ''}`}
+                >
+                  {t('calc.inputDated')}
+                </button>
+              </div>
+
+              {/* 日期制工時紀錄 */}
+              {inputMode === 'dated' && (
+                  <div className="mb-6">
+                    {isFlexibleScheme(workingHourScheme) && (
+                        <div className="alert alert-info mb-4 text-sm">
+                          {t('calc.flexibleSchemeNote', { scheme: getWorkingHourSchemeLabel(workingHourScheme.type) })}
+                        </div>
+                    )}
+                    <DatedEntryEditor
+                        entries={workData.entries ?? []}
+                        onChange={handleEntriesChange}
+                        showCompLeave={calculationMode === 'compLeave'}
+                        showContractualHours={partTimeHours !== undefined && !isFlexibleScheme(workingHourScheme)}
+                        clockSettings={clockSettings}
+                        rulePack={rulePack}
+                    />
+                    {renderFieldErrors('entries')}
+                    <div className="flex items-center gap-2 mt-4">
+                      <input
+                          type="checkbox"
+                          checked={workData.isEmergency}
+                          onChange={(e) => handleInputChange('isEmergency', e.target.checked)}
+                          className="checkbox checkbox-primary checkbox-sm"
+                      />
+                      <span className="text-sm opacity-80 flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3"/>
+                {t('calc.datedEmergency')}
+              </span>
+                    </div>
+                  </div>
+              )}
+
               {/* 工作時數輸入 */}
+              {inputMode === 'quick' && (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
                 {/* 平日加班 */}
                 <div className="form-control">
                   <label className="label">
               <span className="label-text font-semibold flex items-center gap-2">
                 <Clock className="w-4 h-4"/>
-                平日加班時數
+                {t('calc.weekdayHours', { dayType: rulePack.dayTypeLabels.weekday })}
               </span>
                   </label>
                   <input
                       type="text"
                       value={workData.weekdayOvertime}
                       onChange={(e) => handleInputChange('weekdayOvertime', e.target.value)}
-                      placeholder="例如: 3 或 2,3,4"
-                      className="input input-bordered"
+                      placeholder={t('calc.weekdayPlaceholder')}
+                      className={`input input-bordered ${inputErrorClass('weekdayOvertime')}`}
                   />
+                  {renderFieldErrors('weekdayOvertime')}
                   <div className="flex items-center gap-2 mt-2">
                     <input
                         type="checkbox"
@@ -285,7 +807,7 @@ const SalaryCalculator: React.FC = () => {
                     />
                     <span className="text-sm opacity-80 flex items-center gap-1">
                 <AlertTriangle className="w-3 h-3"/>
-                天災、事變或突發事件
+                {t('calc.emergency')}
               </span>
                   </div>
                 </div>
@@ -295,16 +817,17 @@ const SalaryCalculator: React.FC = () => {
                   <label className="label">
               <span className="label-text font-semibold flex items-center gap-2">
                 <Calendar className="w-4 h-4"/>
-                休息日工作時數
+                {t('calc.restDayHours', { dayType: rulePack.dayTypeLabels.restDay })}
               </span>
                   </label>
                   <input
                       type="text"
                       value={workData.restDayWork}
                       onChange={(e) => handleInputChange('restDayWork', e.target.value)}
-                      placeholder="例如: 6 或 9,9,9,9"
-                      className="input input-bordered"
+                      placeholder={t('calc.restDayPlaceholder')}
+                      className={`input input-bordered ${inputErrorClass('restDayWork')}`}
                   />
+                  {renderFieldErrors('restDayWork')}
                 </div>
 
                 {/* 國定假日/特休 */}
@@ -312,51 +835,76 @@ const SalaryCalculator: React.FC = () => {
                   <label className="label">
               <span className="label-text font-semibold flex items-center gap-2">
                 <Calendar className="w-4 h-4 text-error"/>
-                國定假日/特休出勤
+                {t('calc.holidayHours', { dayType: rulePack.dayTypeLabels.holiday })}
               </span>
                   </label>
                   <input
                       type="text"
                       value={workData.holidayWork}
                       onChange={(e) => handleInputChange('holidayWork', e.target.value)}
-                      placeholder="例如: 8 或 8,8"
-                      className="input input-bordered"
+                      placeholder={t('calc.holidayPlaceholder')}
+                      className={`input input-bordered ${inputErrorClass('holidayWork')}`}
                   />
+                  {renderFieldErrors('holidayWork')}
                 </div>
 
                 {/* 例假 */}
+                {rulePack.dayTypes.includes('regularDayOff') && (
                 <div className="form-control">
                   <label className="label">
               <span className="label-text font-semibold flex items-center gap-2">
                 <Calendar className="w-4 h-4 text-warning"/>
-                例假出勤時數
+                {t('calc.regularDayOffHours', { dayType: rulePack.dayTypeLabels.regularDayOff })}
               </span>
                   </label>
                   <input
                       type="text"
                       value={workData.regularDayOffWork}
                       onChange={(e) => handleInputChange('regularDayOffWork', e.target.value)}
-                      placeholder="例如: 8（僅天災事變可出勤）"
-                      className="input input-bordered"
+                      placeholder={t('calc.regularDayOffPlaceholder')}
+                      className={`input input-bordered ${inputErrorClass('regularDayOffWork')}`}
                   />
+                  {renderFieldErrors('regularDayOffWork')}
                 </div>
+                )}
               </div>
+              )}
+
+              {/* 加給規則及倍率級距設定錯誤，須至自訂倍率設定修正 */}
+              {inputErrors.some(isSettingsError) && (
+                  <div className="alert alert-error mb-4 text-sm">
+                    <AlertTriangle className="w-4 h-4"/>
+                    <div>
+                      {inputErrors.filter(isSettingsError).map((error, index) => (
+                          <p key={index}>{error.message}</p>
+                      ))}
+                      <p className="mt-1">{t('input.settingsErrorHint')}</p>
+                    </div>
+                  </div>
+              )}
+
+              {calculationError && (
+                  <div className="alert alert-error mb-4 text-sm whitespace-pre-line">
+                    <AlertTriangle className="w-4 h-4"/>
+                    <span>{calculationError}</span>
+                  </div>
+              )}
 
               {/* 操作按鈕 */}
               <div className="flex flex-col sm:flex-row gap-4 justify-center">
                 <button
                     onClick={calculateComprehensive}
-                    disabled={!monthlySalary}
+                    disabled={!wageAmount}
                     className="btn btn-primary"
                 >
                   <Calculator className="w-4 h-4"/>
-                  計算加班費
+                  {t('calc.calculate')}
                 </button>
                 <button
                     onClick={resetForm}
                     className="btn btn-neutral"
                 >
-                  重置
+                  {t('calc.reset')}
                 </button>
               </div>
 
@@ -365,13 +913,14 @@ const SalaryCalculator: React.FC = () => {
                 <div>
                   <div className="flex items-center gap-2 mb-2">
                     <Info className="w-4 h-4"/>
-                    <h4 className="font-semibold">輸入格式說明</h4>
+                    <h4 className="font-semibold">{t('calc.formatTitle')}</h4>
                   </div>
                   <ul className="text-sm space-y-1">
-                    <li>• <strong>單一時數</strong>：直接輸入數字，例如 <code
+                    <li>• <strong>{t('calc.formatSingle')}</strong>{t('calc.formatSingleHint')} <code
                         className="bg-base-300 text-base-content px-1 rounded">3</code></li>
-                    <li>• <strong>多天時數</strong>：用逗號分隔，例如 <code
+                    <li>• <strong>{t('calc.formatMultiple')}</strong>{t('calc.formatMultipleHint')} <code
                         className="bg-base-300 text-base-content px-1 rounded">9,9,9,9</code></li>
+                    <li>• <strong>{t('calc.formatDated')}</strong>{t('calc.formatDatedHint')}</li>
                   </ul>
                 </div>
               </div>
@@ -384,27 +933,123 @@ const SalaryCalculator: React.FC = () => {
                 <div className="card-body p-4 sm:p-6">
                   <h2 className="card-title text-xl sm:text-2xl mb-6 flex items-center gap-2">
                     <DollarSign className="w-6 h-6 text-success"/>
-                    計算結果
+                    {t('results.title')}
                   </h2>
 
                   {/* 總計 */}
                   <div className="hero bg-gradient-to-r from-success to-accent text-success-content rounded-xl mb-6">
                     <div className="hero-content text-center py-6">
                       <div>
-                        <p className="text-lg opacity-90">總加給工資</p>
-                        <p className="text-3xl sm:text-4xl font-bold">{Math.round(results.totalPay).toLocaleString()} 元</p>
+                        <p className="text-lg opacity-90">{t('results.totalPay')}</p>
+                        <p className="text-3xl sm:text-4xl font-bold">{money(results.totalPay)}</p>
                         <p className="text-sm opacity-75 mt-2">
-                          計算方式：{useCeilingCalculation ? '無條件進位' : '四捨五入'}
-                          {useCeilingCalculation && ' (保護勞工權益)'}
+                          {t('results.hourlyRounding', { rule: describeRoundingRule(roundingPolicy.hourlyRate) })}
+                          {useCeilingCalculation && t('results.protectsWorkers')}
                         </p>
+                        {results.payBasis && (
+                            <p className="text-sm opacity-75">
+                              {t('results.payBasis', {
+                                payBasis: getPayBasisLabel(results.payBasis),
+                                hourlyRate: money(results.hourlyRate),
+                                dailyWage: money(results.dailyWage)
+                              })}
+                            </p>
+                        )}
+                        {results.monthlyHours !== undefined && (
+                            <p className="text-sm opacity-75">
+                              {t('results.monthlyHours', { hours: results.monthlyHours })}
+                              {results.monthlyHours === getRulePackById(jurisdictionId).monthlyScheduledHours && t('results.monthlyHoursAssumption')}
+                            </p>
+                        )}
+                        {billingIncrement.minutes > 0 && (
+                            <p className="text-sm opacity-75">
+                              {t('results.billingIncrement', { increment: describeBillingIncrement(billingIncrement) })}
+                            </p>
+                        )}
+                        {results.ruleVersions && results.ruleVersions.length > 0 && (
+                            <p className="text-sm opacity-75">
+                              {t('results.ruleVersions', { names: joinList(results.ruleVersions.map(version => version.name)) })}
+                            </p>
+                        )}
                       </div>
                     </div>
                   </div>
 
+                  {/* 最低工資檢查 */}
+                  {results.minimumWageCheck && !results.minimumWageCheck.isCompliant && (
+                      <div className="alert alert-warning mb-6 text-sm">
+                        <AlertTriangle className="w-5 h-5 flex-shrink-0"/>
+                        <div>
+                          <h4 className="font-semibold">{t('results.minimumWageCheck', { date: results.minimumWageCheck.date })}</h4>
+                          {results.minimumWageCheck.warnings.map((warning, index) => (
+                              <p key={index}>• {warning}</p>
+                          ))}
+                        </div>
+                      </div>
+                  )}
+
+                  {/* 計算基礎 */}
+                  {results.wageBase && results.wageBase.components.length > 0 && (
+                      <div className="card bg-base-200 mb-6">
+                        <div className="card-body text-sm">
+                          <h3 className="font-semibold">{t('results.wageBase')}</h3>
+                          <div className="flex justify-between">
+                            <span>{t('results.baseAmount')}</span>
+                            <span>{money(results.wageBase.baseAmount)}</span>
+                          </div>
+                          {results.wageBase.components.map((item, index) => (
+                              <div key={`${item.name}-${index}`}
+                                   className={`flex justify-between ${item.isRegular ? '' : 'opacity-50 line-through'}`}>
+                                <span>{t(item.isRegular ? 'results.regularComponent' : 'results.irregularComponent', { name: item.name })}</span>
+                                <span>{money(item.amount)}</span>
+                              </div>
+                          ))}
+                          <div className="flex justify-between font-bold border-t border-base-300 pt-2">
+                            <span>{t('results.wageBaseTotal')}</span>
+                            <span>{money(results.wageBase.total)}</span>
+                          </div>
+                        </div>
+                      </div>
+                  )}
+
+                  {/* 捨入紀錄 */}
+                  {results.roundingAdjustments && results.roundingAdjustments.length > 0 && (
+                      <div className="card bg-base-200 mb-6">
+                        <div className="card-body text-sm">
+                          <h3 className="font-semibold">{t('results.roundingTitle')}</h3>
+                          <div className="overflow-x-auto">
+                            <table className="table table-xs">
+                              <thead>
+                              <tr>
+                                <th>{t('results.roundingStage')}</th>
+                                <th>{t('results.roundingRule')}</th>
+                                <th className="text-right">{t('results.roundingCount')}</th>
+                                <th className="text-right">{t('results.roundingDifference')}</th>
+                              </tr>
+                              </thead>
+                              <tbody>
+                              {results.roundingAdjustments.map(adjustment => (
+                                  <tr key={adjustment.stage}>
+                                    <td>{getRoundingStageLabel(adjustment.stage)}</td>
+                                    <td>{describeRoundingRule(adjustment.rule)}</td>
+                                    <td className="text-right">{adjustment.count}</td>
+                                    <td className="text-right">
+                                      {adjustment.difference > 0 ? '+' : ''}{money(adjustment.difference)}
+                                      {adjustment.stage === 'hourlyRate' && t('results.perHour')}
+                                    </td>
+                                  </tr>
+                              ))}
+                              </tbody>
+                            </table>
+                          </div>
+                        </div>
+                      </div>
+                  )}
+
                   {/* 各項計算明細 */}
                   {Object.keys(results.calculations).length > 0 && (
                       <div className="space-y-6">
-                        <h3 className="text-xl font-semibold">詳細計算</h3>
+                        <h3 className="text-xl font-semibold">{t('results.details')}</h3>
 
                         {Object.entries(results.calculations).map(([workType, calculation]) => {
                           if (!calculation) return null;
@@ -413,24 +1058,49 @@ const SalaryCalculator: React.FC = () => {
                               <div key={workType} className="card bg-base-200 border border-base-300">
                                 <div className="card-body">
                                   <div className="flex justify-between items-center mb-3">
-                                    <h4 className="card-title text-lg">{workType}</h4>
+                                    <h4 className="card-title text-lg">
+                                      {getCategoryLabel(workType, rulePack)}
+                                      {calculation.compensatoryRestDays ? (
+                                          <span className="badge badge-warning badge-sm">
+                                            {t('results.compensatoryRestDays', { days: calculation.compensatoryRestDays })}
+                                          </span>
+                                      ) : null}
+                                    </h4>
                                     <span className="text-xl font-bold text-primary">
-                          {calculation.pay.toLocaleString()} 元
+                          {money(calculation.pay)}
                         </span>
                                   </div>
 
                                   {/* 每日明細 */}
                                   {calculation.dailyBreakdown && calculation.dailyBreakdown.length > 0 && (
                                       <div className="mb-4 p-3 bg-base-100 rounded">
-                                        <p className="font-medium mb-2">每日明細：</p>
+                                        <p className="font-medium mb-2">{t('results.dailyBreakdown')}</p>
                                         <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
                                           {calculation.dailyBreakdown.map((daily) => (
-                                              <div key={daily.day} className="card bg-base-200 card-compact">
+                                              <div key={`${daily.date ?? ""}-${daily.day}`} className="card bg-base-200 card-compact">
                                                 <div className="card-body text-sm">
-                                                  <span className="opacity-70">第{daily.day}天: </span>
-                                                  <span className="font-medium">{daily.hours}h</span>
+                                                  <span className="opacity-70">{daily.date ? formatPeriodLabel(daily.date) : t('results.dayIndex', { day: daily.day })}: </span>
+                                                  <span className="font-medium">
+                                                    {t('common.hoursValue', { hours: daily.hours })}
+                                                    {daily.billedHours !== undefined && daily.billedHours !== daily.hours && t('results.billedHours', { hours: daily.billedHours })}
+                                                  </span>
+                                                  {daily.extraNormalHours !== undefined && (
+                                                      <span className="opacity-70">{t('results.extraNormalHours', { hours: daily.extraNormalHours })}</span>
+                                                  )}
+                                                  {daily.clockIn && (
+                                                      <span className="opacity-70">{daily.clockIn} ~ {daily.clockOut}</span>
+                                                  )}
+                                                  {daily.segment && (
+                                                      <span className="badge badge-outline badge-sm">
+                                                        {t('results.shiftSegment', {
+                                                          index: daily.segment.index,
+                                                          count: daily.segment.count,
+                                                          shiftDate: daily.segment.shiftDate
+                                                        })}
+                                                      </span>
+                                                  )}
                                                   <span
-                                                      className="text-primary font-bold">{daily.pay.toLocaleString()}元</span>
+                                                      className="text-primary font-bold">{money(daily.pay)}</span>
                                                 </div>
                                               </div>
                                           ))}
@@ -441,11 +1111,9 @@ const SalaryCalculator: React.FC = () => {
                                   {/* 計算詳情 */}
                                   <div className="space-y-1">
                                     <p className="text-sm font-medium opacity-70">
-                                      {calculation.dailyBreakdown ? '總計算說明：' : '計算詳情：'}
+                                      {calculation.dailyBreakdown ? t('results.totalExplanation') : t('results.calculationDetails')}
                                     </p>
-                                    {calculation.details.map((detail, index) => (
-                                        <p key={index} className="text-sm opacity-70 ml-4">• {detail}</p>
-                                    ))}
+                                    <CalculationStepsTable steps={calculation.steps} dayTypeLabels={rulePack.dayTypeLabels}/>
                                   </div>
                                 </div>
                               </div>
@@ -457,8 +1125,8 @@ const SalaryCalculator: React.FC = () => {
                   {Object.keys(results.calculations).length === 0 && (
                       <div className="text-center py-8 opacity-50">
                         <Clock className="w-12 h-12 mx-auto mb-3"/>
-                        <p>未輸入任何工作時數</p>
-                        <p className="text-sm mt-2">請在上方輸入工作時數後重新計算</p>
+                        <p>{t('results.noHours')}</p>
+                        <p className="text-sm mt-2">{t('results.noHoursHint')}</p>
                       </div>
                   )}
 
@@ -466,23 +1134,102 @@ const SalaryCalculator: React.FC = () => {
                   <div className="alert alert-error mt-6">
                     <AlertTriangle className="w-5 h-5 flex-shrink-0"/>
                     <div className="text-sm">
-                      <h4 className="font-semibold mb-2">工時限制檢查</h4>
+                      <h4 className="font-semibold mb-2">{t('results.limitTitle')}</h4>
                       {(() => {
-                        const validation = calculator.validateWorkHours(workData);
+                        const validation = calculator.validateWorkHours(effectiveWorkData, { workingHourScheme, contractualHours: partTimeHours, clockSettings });
                         return validation.warnings.length > 0 ? (
                             <div className="bg-error/20 p-2 rounded mb-2">
-                              <p className="font-medium">⚠️ 注意：</p>
+                              <p className="font-medium">{t('results.attention')}</p>
                               {validation.warnings.map((warning, index) => (
                                   <p key={index} className="text-xs mt-1">• {warning}</p>
                               ))}
                             </div>
                         ) : null;
                       })()}
+                      {legalCheck && (
+                          <div className="mb-3">
+                            <label className="flex items-center gap-2 mb-2 cursor-pointer">
+                              <input
+                                  type="checkbox"
+                                  checked={hasOvertimeConsent}
+                                  onChange={(e) => setHasOvertimeConsent(e.target.checked)}
+                                  className="checkbox checkbox-sm"
+                              />
+                              <span>{t('results.consent')}</span>
+                            </label>
+                            {legalCheck.monthlySummaries && legalCheck.monthlySummaries.length > 0 && (
+                                <div className="overflow-x-auto mb-2">
+                                  <table className="table table-xs">
+                                    <thead>
+                                    <tr>
+                                      <th>{t('results.month')}</th>
+                                      <th className="text-right">{t('results.weekdayOvertime')}</th>
+                                      <th className="text-right">{t('results.restDay')}</th>
+                                      {rulePack.countsHolidayExcessAsOvertime && <th className="text-right">{t('results.holidayOvertime')}</th>}
+                                      <th className="text-right">{t('results.totalAndLimit')}</th>
+                                      <th className="text-right">{t('results.quarterTotal')}</th>
+                                    </tr>
+                                    </thead>
+                                    <tbody>
+                                    {legalCheck.monthlySummaries.map(summary => (
+                                        <tr key={summary.month ?? 'current'}>
+                                          <td>{summary.month ?? t('limit.currentPeriod')}</td>
+                                          <td className="text-right">{t('common.hoursValue', { hours: summary.weekdayOvertimeHours })}</td>
+                                          <td className="text-right">{t('common.hoursValue', { hours: summary.restDayHours })}</td>
+                                          {rulePack.countsHolidayExcessAsOvertime && (
+                                              <td className="text-right">{t('common.hoursValue', { hours: summary.holidayOvertimeHours })}</td>
+                                          )}
+                                          <td className="text-right">
+                                            {t('common.hoursValue', { hours: summary.totalHours })} / {t('common.hoursValue', { hours: summary.monthlyLimit })}
+                                          </td>
+                                          <td className="text-right">
+                                            {t('common.hoursValue', { hours: summary.rollingQuarterHours })} / {t('common.hoursValue', { hours: summary.quarterlyLimit })}
+                                          </td>
+                                        </tr>
+                                    ))}
+                                    </tbody>
+                                  </table>
+                                </div>
+                            )}
+                            <p className="font-medium">
+                              {t('results.remaining', {
+                                monthly: legalCheck.remainingMonthlyHours ?? 0,
+                                quarterly: legalCheck.remainingQuarterlyHours ?? 0
+                              })}
+                            </p>
+                            {legalCheck.warnings.map((warning, index) => (
+                                <p key={`warning-${index}`} className="text-xs mt-1 font-medium">⚠️ {warning}</p>
+                            ))}
+                            {legalCheck.suggestions.map((suggestion, index) => (
+                                <p key={`suggestion-${index}`} className="text-xs mt-1">💡 {suggestion}</p>
+                            ))}
+                          </div>
+                      )}
+                      {/* 依目前法域規則包列出工時上限 */}
                       <ul className="space-y-1">
-                        <li>• 每日工作時間（含加班）不得超過12小時</li>
-                        <li>• 每月延長工作時間不得超過46小時（經同意後不得超過54小時）</li>
-                        <li>• 每3個月延長工作時間不得超過138小時</li>
-                        <li>• 休息日工作時數計入月加班總時數</li>
+                        {rulePack.maxDailyHours !== undefined && (
+                            <li>• {t('results.ruleDailyLimit', { hours: rulePack.maxDailyHours })}</li>
+                        )}
+                        <li>• {t('results.ruleMonthlyLimit', {
+                          monthly: rulePack.overtimeLimits.monthly,
+                          monthlyWithConsent: rulePack.overtimeLimits.monthlyWithConsent,
+                          consentLabel: rulePack.overtimeLimits.consentLabel
+                        })}</li>
+                        <li>• {rulePack.overtimeLimits.quarterlyWithConsent !== rulePack.overtimeLimits.quarterly
+                            ? t('results.ruleQuarterlyLimitWithConsent', {
+                              quarterly: rulePack.overtimeLimits.quarterly,
+                              quarterlyWithConsent: rulePack.overtimeLimits.quarterlyWithConsent,
+                              consentLabel: rulePack.overtimeLimits.consentLabel
+                            })
+                            : t('results.ruleQuarterlyLimit', { quarterly: rulePack.overtimeLimits.quarterly })}</li>
+                        <li>• {t('results.ruleRestDay', { dayType: rulePack.dayTypeLabels.restDay })}</li>
+                        {rulePack.countsHolidayExcessAsOvertime && (
+                            <li>• {t('results.ruleHolidayExcess', {
+                              dayTypes: joinList(rulePack.dayTypes
+                                .filter(dayType => dayType === 'holiday' || dayType === 'regularDayOff')
+                                .map(dayType => rulePack.dayTypeLabels[dayType]))
+                            })}</li>
+                        )}
                       </ul>
                     </div>
                   </div>
@@ -490,6 +1237,36 @@ const SalaryCalculator: React.FC = () => {
               </div>
           )}
 
+          {/* 所得稅與實領估算 */}
+          {results?.taxSplit && (
+              <NetPayPanel
+                  key={results.wageBase?.total ?? 0}
+                  taxSplit={results.taxSplit}
+                  defaultRegularPay={results.payBasis === 'monthly' && results.wageBase ? results.wageBase.total : 0}
+              />
+          )}
+
+          {/* 薪資單稽核 */}
+          {calculationMode === 'audit' && results && <PayslipAuditPanel result={results} rulePack={rulePack}/>}
+
+          {/* 反推計算 */}
+          {calculationMode === 'reverse' && (
+              <ReverseCalculatorPanel
+                  calculator={calculator}
+                  defaultHourlyRate={currentHourlyRate}
+                  workData={effectiveWorkData}
+                  roundingPolicy={roundingPolicy}
+                  options={currentOptions}
+                  rulePack={rulePack}
+              />
+          )}
+
+          {/* 補休結算 */}
+          {compLeaveResult && <CompLeavePanel result={compLeaveResult} rulePack={rulePack}/>}
+
+          {/* 情境比較 */}
+          <ScenarioComparisonPanel calculator={calculator} currentScenario={currentScenario}/>
+
           {/* EditDialog Component */}
           {EditComponent}
           {!showmodel && (
@@ -502,8 +1279,8 @@ const SalaryCalculator: React.FC = () => {
 
           {/* Footer */}
           <div className="text-center mt-8 text-sm opacity-50">
-            <p>本計算器依據《勞動基準法》第24條、第32條、第36條、第39條、第40條規定製作</p>
-            <p>計算結果僅供參考，實際薪資以公司規定為準</p>
+            <p>{t('app.footerLaw')}</p>
+            <p>{t('app.footerDisclaimer')}</p>
           </div>
         </div>
       </div>
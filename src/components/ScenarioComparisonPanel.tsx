@@ -0,0 +1,174 @@
+import React, {useCallback, useMemo, useState} from "react";
+import {Layers, Plus, Trash2} from "lucide-react";
+import type {CalculationCategoryName, ScenarioComparisonRow, WorkDataInput, WorkDayType} from "./type.ts";
+import {useTranslation} from "../hook/useTranslation.ts";
+import {
+  type ComparisonScenario,
+  getPayBasisLabel,
+  type SalaryCalculatorService
+} from "../utils/SalaryCalculatorService.ts";
+import {getCategoryLabel} from "../utils/PremiumRules.ts";
+import {t} from "../utils/I18n.ts";
+
+interface ScenarioComparisonPanelProps {
+  calculator: SalaryCalculatorService;
+  /** 目前輸入的工資、工時及設定，加入時另存為一個情境 */
+  currentScenario: Omit<ComparisonScenario, 'id' | 'name'>;
+}
+
+// 工時摘要，例如：平日 2,2,2,2／休息日 8
+const describeWorkData = (workData: WorkDataInput, dayTypeLabels: Record<WorkDayType, string>): string => {
+  if (workData.entries && workData.entries.length > 0) return t('scenario.datedRecords', { count: workData.entries.length });
+  const parts = [
+    [dayTypeLabels.weekday, workData.weekdayOvertime],
+    [dayTypeLabels.restDay, workData.restDayWork],
+    [dayTypeLabels.holiday, workData.holidayWork],
+    [dayTypeLabels.regularDayOff, workData.regularDayOffWork]
+  ].filter(([, input]) => input.trim()).map(([label, input]) => `${label} ${input}`);
+  return parts.length > 0 ? parts.join(t('scenario.partSeparator')) : t('scenario.noHours');
+};
+
+const ScenarioComparisonPanel: React.FC<ScenarioComparisonPanelProps> = ({ calculator, currentScenario }) => {
+  const { t, formatNumber, formatCurrency } = useTranslation();
+  const [scenarios, setScenarios] = useState<ComparisonScenario[]>([]);
+  const [name, setName] = useState<string>('');
+
+  const canAdd = Number.isFinite(currentScenario.wageAmount) && currentScenario.wageAmount > 0;
+
+  // 以目前輸入新增情境
+  const handleAdd = useCallback((): void => {
+    if (!canAdd) return;
+    setScenarios(prev => [...prev, {
+      ...currentScenario,
+      id: `scenario-${Date.now()}`,
+      name: name.trim() || t('scenario.defaultName', { index: prev.length + 1 })
+    }]);
+    setName('');
+  }, [canAdd, currentScenario, name, t]);
+
+  // 刪除情境
+  const handleRemove = useCallback((id: string): void => {
+    setScenarios(prev => prev.filter(scenario => scenario.id !== id));
+  }, []);
+
+  const comparison = useMemo(() => (
+    scenarios.length > 0 ? calculator.compareScenarios(scenarios) : null
+  ), [calculator, scenarios]);
+
+  const rulePack = calculator.getRulePack();
+  const money = (amount: number): string => formatCurrency(amount, rulePack.currency);
+
+  // 差額顯示，正數加上正號
+  const formatDifference = (difference: number): string =>
+    `${difference > 0 ? '+' : ''}${formatNumber(difference)}`;
+
+  const renderCell = (row: ScenarioComparisonRow, pay: number, difference: number) => (
+      <td key={row.id} className="text-right">
+        <div>{money(pay)}</div>
+        {row.id !== comparison?.baselineId && (
+            <div className={`text-xs ${difference > 0 ? 'text-success' : difference < 0 ? 'text-error' : 'opacity-50'}`}>
+              {formatDifference(difference)}
+            </div>
+        )}
+      </td>
+  );
+
+  return (
+      <div className="card bg-base-100 shadow-xl mt-6">
+        <div className="card-body p-4 sm:p-6">
+          <h2 className="card-title text-xl sm:text-2xl mb-4 flex items-center gap-2">
+            <Layers className="w-6 h-6 text-primary"/>
+            {t('scenario.title')}
+          </h2>
+
+          <p className="text-sm opacity-70 mb-2">
+            {t('scenario.hint')}
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2 mb-4">
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t('scenario.namePlaceholder')}
+                className="input input-bordered input-sm flex-1"
+            />
+            <button type="button" onClick={handleAdd} disabled={!canAdd} className="btn btn-primary btn-sm">
+              <Plus className="w-4 h-4"/>
+              {t('scenario.add')}
+            </button>
+          </div>
+
+          {scenarios.length > 0 ? (
+              <ul className="space-y-1 mb-4">
+                {scenarios.map(scenario => (
+                    <li key={scenario.id} className="flex items-center justify-between gap-2 text-sm bg-base-200 rounded px-3 py-2">
+                      <span>
+                        <span className="font-medium">{scenario.name}</span>
+                        <span className="opacity-70 ml-2">
+                          {t('scenario.summary', {
+                            payBasis: getPayBasisLabel(scenario.options?.payBasis ?? 'monthly'),
+                            wage: money(scenario.wageAmount),
+                            workData: describeWorkData(scenario.workData, rulePack.dayTypeLabels)
+                          })}
+                        </span>
+                      </span>
+                      <button
+                          type="button"
+                          onClick={() => handleRemove(scenario.id)}
+                          className="btn btn-ghost btn-xs"
+                          aria-label={t('common.removeItem', { name: scenario.name })}
+                      >
+                        <Trash2 className="w-4 h-4"/>
+                      </button>
+                    </li>
+                ))}
+              </ul>
+          ) : (
+              <p className="text-sm opacity-60 mb-4">{t('scenario.empty')}</p>
+          )}
+
+          {comparison && (
+              <div className="overflow-x-auto">
+                <table className="table table-sm">
+                  <thead>
+                  <tr>
+                    <th>{t('scenario.category')}</th>
+                    {comparison.rows.map(row => (
+                        <th key={row.id} className="text-right">
+                          {row.name}
+                          {row.id === comparison.baselineId && <span className="badge badge-ghost badge-xs ml-1">{t('scenario.baseline')}</span>}
+                        </th>
+                    ))}
+                  </tr>
+                  </thead>
+                  <tbody>
+                  <tr>
+                    <td>{t('scenario.hourlyRate')}</td>
+                    {comparison.rows.map(row => (
+                        <td key={row.id} className="text-right">{row.error ? '—' : money(row.hourlyRate)}</td>
+                    ))}
+                  </tr>
+                  {comparison.categories.map((category: CalculationCategoryName) => (
+                      <tr key={category}>
+                        <td>{getCategoryLabel(category, rulePack)}</td>
+                        {comparison.rows.map(row => row.error
+                            ? <td key={row.id} className="text-right opacity-50">—</td>
+                            : renderCell(row, row.pays[category] ?? 0, row.differences[category] ?? 0))}
+                      </tr>
+                  ))}
+                  <tr className="font-bold">
+                    <td>{t('audit.total')}</td>
+                    {comparison.rows.map(row => row.error
+                        ? <td key={row.id} className="text-right text-error text-xs font-normal">{row.error}</td>
+                        : renderCell(row, row.totalPay, row.totalDifference))}
+                  </tr>
+                  </tbody>
+                </table>
+              </div>
+          )}
+        </div>
+      </div>
+  );
+};
+
+export default ScenarioComparisonPanel;
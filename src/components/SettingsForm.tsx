@@ -1,29 +1,53 @@
 import React, { useState, useCallback } from 'react';
 import { Clock, Calendar,  Info,  RotateCcw } from 'lucide-react';
+import type {
+  BillingIncrement,
+  BillingIncrementMode,
+  ClockSettings,
+  JurisdictionRulePack,
+  LaborStandardRates,
+  PremiumRule,
+  RateTier,
+  RoundingPolicy,
+  RoundingRule,
+  RoundingStage,
+  RoundingStrategy,
+  WorkDayType,
+  WorkingHourScheme
+} from './type.ts';
+import {
+  DEFAULT_ROUNDING_POLICY,
+  getRoundingStageLabel,
+  getRoundingStrategyLabel,
+  ROUNDING_DECIMAL_OPTIONS,
+  ROUNDING_STAGES,
+  ROUNDING_STRATEGIES
+} from '../utils/RoundingPolicy.ts';
+import {
+  BILLING_INCREMENT_MODES,
+  BILLING_INCREMENT_OPTIONS,
+  DEFAULT_BILLING_INCREMENT,
+  getBillingIncrementModeLabel
+} from '../utils/BillingIncrement.ts';
+import PremiumRuleEditor from './PremiumRuleEditor.tsx';
+import WorkingHourSchemeEditor from './WorkingHourSchemeEditor.tsx';
+import BreakRuleEditor from './BreakRuleEditor.tsx';
+import RateTierEditor from './RateTierEditor.tsx';
+import { createDefaultScheme } from '../utils/WorkingHourScheme.ts';
+import { DEFAULT_CLOCK_SETTINGS } from '../utils/ClockTime.ts';
+import { TAIWAN_RULE_PACK } from '../utils/RulePacks.ts';
+import { describeMultiplier, formatMultiplierInput, parseMultiplier } from '../utils/RateTiers.ts';
+import { useTranslation } from '../hook/useTranslation.ts';
 
 // ===== TypeScript Interface Definitions =====
 
-interface LaborStandardRates {
-  weekdayFirst2hr: number;
-  weekdayNext2hr: number;
-  weekdayEmergency: number;
-  restDayFirst2hr: number;
-  restDay2to8hr: number;
-  restDayOver8hr: number;
-  holidayRate: number;
-  regularDayOffRate: number;
-}
-
-
-
-
-
-
-
-
 export interface SettingsFormData {
   customRates: LaborStandardRates;
-  useCeilingCalculation: boolean;
+  roundingPolicy: RoundingPolicy;
+  billingIncrement: BillingIncrement;
+  premiumRules: PremiumRule[];
+  workingHourScheme: WorkingHourScheme;
+  clockSettings: ClockSettings;
 }
 
 interface SettingsFormProps {
@@ -31,137 +55,98 @@ interface SettingsFormProps {
   onConfirm: (data: SettingsFormData) => void;
   onCancel: () => void;
   onClose?: () => void;
+  /** 適用法域，決定預設倍率及工作日類型名稱 */
+  rulePack?: JurisdictionRulePack;
 }
 
-// ===== Constants =====
-
-const DEFAULT_RATES: LaborStandardRates = {
-  weekdayFirst2hr: 4 / 3,
-  weekdayNext2hr: 5 / 3,
-  weekdayEmergency: 2,
-  restDayFirst2hr: 4 / 3,
-  restDay2to8hr: 5 / 3,
-  restDayOver8hr: 8 / 3,
-  holidayRate: 2,
-  regularDayOffRate: 2,
-};
-
 // ===== Settings Form Component =====
 
 const SettingsForm: React.FC<SettingsFormProps> = ({
   initialData,
   onConfirm,
   onCancel,
-
+  rulePack = TAIWAN_RULE_PACK
 }) => {
+  const { t } = useTranslation();
+  const defaultRates = rulePack.defaultRates;
+  const dayTypeLabels = rulePack.dayTypeLabels;
+  // 條文說明僅適用台灣勞基法
+  const isTaiwan = rulePack.id === TAIWAN_RULE_PACK.id;
+
   const [formData, setFormData] = useState<SettingsFormData>(() => ({
-    customRates: initialData?.customRates || DEFAULT_RATES,
-    useCeilingCalculation: initialData?.useCeilingCalculation ?? true
+    customRates: initialData?.customRates || defaultRates,
+    roundingPolicy: initialData?.roundingPolicy ?? DEFAULT_ROUNDING_POLICY,
+    billingIncrement: initialData?.billingIncrement ?? DEFAULT_BILLING_INCREMENT,
+    premiumRules: initialData?.premiumRules ?? [],
+    workingHourScheme: initialData?.workingHourScheme ?? createDefaultScheme('standard'),
+    clockSettings: initialData?.clockSettings ?? DEFAULT_CLOCK_SETTINGS
   }));
 
-  // 保存輸入框的顯示值（允許用戶輸入過程中的中間狀態）
-  const [inputValues, setInputValues] = useState<Record<keyof LaborStandardRates, string>>(() => {
-    const rates = initialData?.customRates || DEFAULT_RATES;
-    return {
-      weekdayFirst2hr: getRateInputValue(rates.weekdayFirst2hr),
-      weekdayNext2hr: getRateInputValue(rates.weekdayNext2hr),
-      weekdayEmergency: getRateInputValue(rates.weekdayEmergency),
-      restDayFirst2hr: getRateInputValue(rates.restDayFirst2hr),
-      restDay2to8hr: getRateInputValue(rates.restDay2to8hr),
-      restDayOver8hr: getRateInputValue(rates.restDayOver8hr),
-      holidayRate: getRateInputValue(rates.holidayRate),
-      regularDayOffRate: getRateInputValue(rates.regularDayOffRate),
-    };
-  });
-
-  const handleInputChange = useCallback((field: keyof LaborStandardRates, value: string): void => {
-    setInputValues(prev => ({ ...prev, [field]: value }));
-  }, []);
+  // 保存天災事變倍率輸入框的顯示值（允許用戶輸入過程中的中間狀態）
+  const [emergencyInput, setEmergencyInput] = useState<string>(() =>
+    formatMultiplierInput((initialData?.customRates || defaultRates).weekdayEmergency)
+  );
 
-  const handleInputBlur = useCallback((field: keyof LaborStandardRates, value: string): void => {
-    if (!value.trim()) {
-      // 如果輸入為空，恢復到當前有效值
-      setInputValues(prev => ({ ...prev, [field]: getRateInputValue(formData.customRates[field]) }));
+  const handleEmergencyBlur = useCallback((value: string): void => {
+    const multiplier = parseMultiplier(value);
+    if (multiplier === null) {
+      // 格式錯誤或為空時恢復到上一個有效值
+      if (value.trim()) console.warn(`倍率輸入錯誤 (weekdayEmergency): ${value}`);
+      setEmergencyInput(formatMultiplierInput(formData.customRates.weekdayEmergency));
       return;
     }
+    setFormData(prev => ({ ...prev, customRates: { ...prev.customRates, weekdayEmergency: multiplier } }));
+    // 將輸入框值標準化顯示
+    setEmergencyInput(formatMultiplierInput(multiplier));
+  }, [formData.customRates.weekdayEmergency]);
+
+  const handleTiersChange = useCallback((dayType: WorkDayType, tiers: RateTier[]): void => {
+    setFormData(prev => ({
+      ...prev,
+      customRates: { ...prev.customRates, tiers: { ...prev.customRates.tiers, [dayType]: tiers } }
+    }));
+  }, []);
 
-    try {
-      let numValue: number;
-
-      if (value.includes('/')) {
-        const parts = value.split('/');
-        if (parts.length === 2) {
-          const numerator = parseFloat(parts[0].trim());
-          const denominator = parseFloat(parts[1].trim());
-
-          if (!isNaN(numerator) && !isNaN(denominator) && denominator !== 0) {
-            numValue = numerator / denominator;
-          } else {
-            throw new Error('無效的分數格式');
-          }
-        } else {
-          throw new Error('分數格式應為 a/b');
-        }
-      } else {
-        numValue = parseFloat(value);
-        if (isNaN(numValue)) {
-          throw new Error('無效的數字格式');
-        }
+  const handleResetAll = useCallback(() => {
+    setFormData({
+      customRates: defaultRates,
+      roundingPolicy: DEFAULT_ROUNDING_POLICY,
+      billingIncrement: DEFAULT_BILLING_INCREMENT,
+      premiumRules: [],
+      workingHourScheme: createDefaultScheme('standard'),
+      clockSettings: DEFAULT_CLOCK_SETTINGS
+    });
+    // 同時重置輸入框顯示值
+    setEmergencyInput(formatMultiplierInput(defaultRates.weekdayEmergency));
+  }, [defaultRates]);
+
+  const handleRoundingChange = useCallback((stage: RoundingStage, rule: Partial<RoundingRule>): void => {
+    setFormData(prev => ({
+      ...prev,
+      roundingPolicy: {
+        ...prev.roundingPolicy,
+        [stage]: { ...prev.roundingPolicy[stage], ...rule }
       }
+    }));
+  }, []);
 
-      if (numValue > 0) {
-        // 更新實際的倍率值
-        setFormData(prev => ({
-          ...prev,
-          customRates: {
-            ...prev.customRates,
-            [field]: numValue
-          }
-        }));
-        // 將輸入框值標準化顯示
-        setInputValues(prev => ({ ...prev, [field]: getRateInputValue(numValue) }));
-      } else {
-        throw new Error('倍率必須大於0');
-      }
-    } catch (error) {
-      console.warn(`倍率輸入錯誤 (${field}): ${error instanceof Error ? error.message : '未知錯誤'}`);
-      // 恢復到上一個有效值
-      setInputValues(prev => ({ ...prev, [field]: getRateInputValue(formData.customRates[field]) }));
-    }
-  }, [formData.customRates]);
+  const handleBillingIncrementChange = useCallback((increment: Partial<BillingIncrement>): void => {
+    setFormData(prev => ({
+      ...prev,
+      billingIncrement: { ...prev.billingIncrement, ...increment }
+    }));
+  }, []);
 
-  function getRateInputValue(rate: number): string {
-    if (Math.abs(rate - 4/3) < 0.001) return '4/3';
-    if (Math.abs(rate - 5/3) < 0.001) return '5/3';
-    if (Math.abs(rate - 8/3) < 0.001) return '8/3';
-    if (Math.abs(rate - 2) < 0.001) return '2';
-    return rate.toFixed(3);
-  }
+  const handlePremiumRulesChange = useCallback((premiumRules: PremiumRule[]): void => {
+    setFormData(prev => ({ ...prev, premiumRules }));
+  }, []);
 
-  const formatRateDisplay = (rate: number): string => {
-    if (Math.abs(rate - 4/3) < 0.001) return '1又1/3倍 (4/3)';
-    if (Math.abs(rate - 5/3) < 0.001) return '1又2/3倍 (5/3)';
-    if (Math.abs(rate - 8/3) < 0.001) return '2又2/3倍 (8/3)';
-    if (Math.abs(rate - 2) < 0.001) return '2倍';
-    return `${rate.toFixed(3)}倍`;
-  };
+  const handleWorkingHourSchemeChange = useCallback((workingHourScheme: WorkingHourScheme): void => {
+    setFormData(prev => ({ ...prev, workingHourScheme }));
+  }, []);
 
-  const handleResetAll = useCallback(() => {
-    setFormData({
-      customRates: DEFAULT_RATES,
-      useCeilingCalculation: true
-    });
-    // 同時重置輸入框顯示值
-    setInputValues({
-      weekdayFirst2hr: getRateInputValue(DEFAULT_RATES.weekdayFirst2hr),
-      weekdayNext2hr: getRateInputValue(DEFAULT_RATES.weekdayNext2hr),
-      weekdayEmergency: getRateInputValue(DEFAULT_RATES.weekdayEmergency),
-      restDayFirst2hr: getRateInputValue(DEFAULT_RATES.restDayFirst2hr),
-      restDay2to8hr: getRateInputValue(DEFAULT_RATES.restDay2to8hr),
-      restDayOver8hr: getRateInputValue(DEFAULT_RATES.restDayOver8hr),
-      holidayRate: getRateInputValue(DEFAULT_RATES.holidayRate),
-      regularDayOffRate: getRateInputValue(DEFAULT_RATES.regularDayOffRate),
-    });
+  const handleClockSettingsChange = useCallback((clockSettings: ClockSettings): void => {
+    setFormData(prev => ({ ...prev, clockSettings }));
   }, []);
 
   const handleSubmit = useCallback((e: React.FormEvent): void => {
@@ -171,89 +156,134 @@ const SettingsForm: React.FC<SettingsFormProps> = ({
 
   return (
 <form onSubmit={handleSubmit} className="space-y-6">
-  {/* 計算方式設定 - 優化後 */}
-  <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
-    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 sm:gap-0">
-      <div className="flex-grow">
-        <h3 className="font-semibold text-gray-700">計算方式設定</h3>
-        <span className="text-sm text-gray-600">薪資計算方式（影響加班費計算）</span>
+  {/* 捨入規則設定 */}
+  <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-3">
+    <div>
+      <h3 className="font-semibold text-gray-700">{t('settings.rounding.title')}</h3>
+      <span className="text-sm text-gray-600">{t('settings.rounding.hint')}</span>
+    </div>
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {ROUNDING_STAGES.map(stage => (
+        <div key={stage}>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {getRoundingStageLabel(stage)}
+          </label>
+          <div className="flex gap-2">
+            <select
+              value={formData.roundingPolicy[stage].mode}
+              onChange={(e) => handleRoundingChange(stage, { mode: e.target.value as RoundingStrategy })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              aria-label={t('settings.rounding.modeLabel', { stage: getRoundingStageLabel(stage) })}
+            >
+              {ROUNDING_STRATEGIES.map(mode => (
+                <option key={mode} value={mode}>{getRoundingStrategyLabel(mode)}</option>
+              ))}
+            </select>
+            <select
+              value={formData.roundingPolicy[stage].decimals}
+              onChange={(e) => handleRoundingChange(stage, { decimals: Number(e.target.value) })}
+              disabled={formData.roundingPolicy[stage].mode === 'none'}
+              className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-100 disabled:text-gray-400"
+              aria-label={t('settings.rounding.decimalsLabel', { stage: getRoundingStageLabel(stage) })}
+            >
+              {ROUNDING_DECIMAL_OPTIONS.map(decimals => (
+                <option key={decimals} value={decimals}>{decimals === 0 ? t('rounding.unitInteger') : t('rounding.unitDecimals', { decimals })}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      ))}
+    </div>
+    <p className="text-xs text-gray-500">{t('settings.rounding.noneNote')}</p>
+  </div>
+
+  {/* 加班時數計算單位 */}
+  <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-3">
+    <div>
+      <h3 className="font-semibold text-gray-700">{t('settings.billing.title')}</h3>
+      <span className="text-sm text-gray-600">{t('settings.billing.hint')}</span>
+    </div>
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-1">{t('settings.billing.unit')}</label>
+        <select
+          value={formData.billingIncrement.minutes}
+          onChange={(e) => handleBillingIncrementChange({ minutes: Number(e.target.value) })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          {BILLING_INCREMENT_OPTIONS.map(minutes => (
+            <option key={minutes} value={minutes}>{minutes === 0 ? t('billing.actualHours') : t('settings.billing.minutes', { minutes })}</option>
+          ))}
+        </select>
       </div>
-      <div className="flex items-center gap-3 mt-2 sm:mt-0">
-        <span className={`text-sm font-medium ${!formData.useCeilingCalculation ? 'text-gray-900' : 'text-gray-500'}`}>
-          四捨五入
-        </span>
-        <button
-          type="button"
-          onClick={() => setFormData(prev => ({
-            ...prev,
-            useCeilingCalculation: !prev.useCeilingCalculation
-          }))}
-          className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-indigo-600 focus:ring-offset-2 ${
-            formData.useCeilingCalculation ? 'bg-indigo-600' : 'bg-gray-200'
-          }`}
-          role="switch"
-          aria-checked={formData.useCeilingCalculation}
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-1">{t('settings.billing.remainder')}</label>
+        <select
+          value={formData.billingIncrement.mode}
+          onChange={(e) => handleBillingIncrementChange({ mode: e.target.value as BillingIncrementMode })}
+          disabled={formData.billingIncrement.minutes === 0}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-100 disabled:text-gray-400"
         >
-          <span
-            aria-hidden="true"
-            className={`pointer-events-none inline-block h-5 w-5 rounded-full bg-white shadow transform ring-0 transition duration-200 ease-in-out ${
-              formData.useCeilingCalculation ? 'translate-x-5' : 'translate-x-0'
-            }`}
-          />
-        </button>
-        <span className={`text-sm font-medium ${formData.useCeilingCalculation ? 'text-gray-900' : 'text-gray-500'}`}>
-          無條件進位
-        </span>
+          {BILLING_INCREMENT_MODES.map(mode => (
+            <option key={mode} value={mode}>{getBillingIncrementModeLabel(mode)}</option>
+          ))}
+        </select>
       </div>
     </div>
   </div>
 
+  {/* 工時制度 */}
+  <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-3">
+    <div>
+      <h3 className="font-semibold text-gray-700">{t('settings.scheme.title')}</h3>
+      <span className="text-sm text-gray-600">{t('settings.scheme.hint')}</span>
+    </div>
+    <WorkingHourSchemeEditor scheme={formData.workingHourScheme} onChange={handleWorkingHourSchemeChange} />
+  </div>
+
+  {/* 打卡休息扣除 */}
+  <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-3">
+    <div>
+      <h3 className="font-semibold text-gray-700">{t('settings.break.title')}</h3>
+      <span className="text-sm text-gray-600">{t('settings.break.hint')}</span>
+    </div>
+    <BreakRuleEditor settings={formData.clockSettings} onChange={handleClockSettingsChange} />
+  </div>
+
+  {/* 額外加給 */}
+  <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-3">
+    <div>
+      <h3 className="font-semibold text-gray-700">{t('settings.premium.title')}</h3>
+      <span className="text-sm text-gray-600">{t('settings.premium.hint')}</span>
+    </div>
+    <PremiumRuleEditor rules={formData.premiumRules} onChange={handlePremiumRulesChange} dayTypeLabels={dayTypeLabels} />
+  </div>
+
   {/* 平日加班倍率 - 優化後 */}
   <div className="space-y-4">
     <h3 className="font-semibold text-gray-700 flex flex-col sm:flex-row sm:items-center gap-2">
       <div className="flex items-center gap-2">
         <Clock className="w-4 h-4" />
-        平日加班倍率
+        {t('settings.weekdayRates', { dayType: dayTypeLabels.weekday })}
       </div>
-      <span className="text-sm text-gray-500 pl-6 sm:pl-0">（勞基法第24條第1項）</span>
+      {isTaiwan && <span className="text-sm text-gray-500 pl-6 sm:pl-0">{t('settings.weekdayArticle')}</span>}
     </h3>
+    <RateTierEditor
+      label={dayTypeLabels.weekday}
+      tiers={formData.customRates.tiers.weekday}
+      onChange={(tiers) => handleTiersChange('weekday', tiers)}
+    />
     <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
       <div>
         <label className="block text-sm font-medium text-gray-600 mb-1">
-          前2小時（{formatRateDisplay(formData.customRates.weekdayFirst2hr)}）
-        </label>
-        <input
-          type="text"
-          value={inputValues.weekdayFirst2hr}
-          onChange={(e) => handleInputChange('weekdayFirst2hr', e.target.value)}
-          onBlur={(e) => handleInputBlur('weekdayFirst2hr', e.target.value)}
-          placeholder="例如: 4/3 或 1.333"
-          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-        />
-      </div>
-      <div>
-        <label className="block text-sm font-medium text-gray-600 mb-1">
-          再延長2小時（{formatRateDisplay(formData.customRates.weekdayNext2hr)}）
-        </label>
-        <input
-          type="text"
-          value={inputValues.weekdayNext2hr}
-          onChange={(e) => handleInputChange('weekdayNext2hr', e.target.value)}
-          onBlur={(e) => handleInputBlur('weekdayNext2hr', e.target.value)}
-          placeholder="例如: 5/3 或 1.667"
-          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-        />
-      </div>
-      <div>
-        <label className="block text-sm font-medium text-gray-600 mb-1">
-          天災事變（{formatRateDisplay(formData.customRates.weekdayEmergency)}）
+          {t('settings.emergency', { multiplier: describeMultiplier(formData.customRates.weekdayEmergency) })}
         </label>
         <input
           type="text"
-          value={inputValues.weekdayEmergency}
-          onChange={(e) => handleInputChange('weekdayEmergency', e.target.value)}
-          onBlur={(e) => handleInputBlur('weekdayEmergency', e.target.value)}
-          placeholder="例如: 2 或 2.000"
+          value={emergencyInput}
+          onChange={(e) => setEmergencyInput(e.target.value)}
+          onBlur={(e) => handleEmergencyBlur(e.target.value)}
+          placeholder={t('settings.emergencyPlaceholder')}
           className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
         />
       </div>
@@ -265,51 +295,15 @@ const SettingsForm: React.FC<SettingsFormProps> = ({
     <h3 className="font-semibold text-gray-700 flex flex-col sm:flex-row sm:items-center gap-2">
       <div className="flex items-center gap-2">
         <Calendar className="w-4 h-4" />
-        休息日工作倍率
+        {t('settings.restDayRates', { dayType: dayTypeLabels.restDay })}
       </div>
-      <span className="text-sm text-gray-500 pl-6 sm:pl-0">（勞基法第24條第2項）</span>
+      {isTaiwan && <span className="text-sm text-gray-500 pl-6 sm:pl-0">{t('settings.restDayArticle')}</span>}
     </h3>
-    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
-      <div>
-        <label className="block text-sm font-medium text-gray-600 mb-1">
-          前2小時（{formatRateDisplay(formData.customRates.restDayFirst2hr)}）
-        </label>
-        <input
-          type="text"
-          value={inputValues.restDayFirst2hr}
-          onChange={(e) => handleInputChange('restDayFirst2hr', e.target.value)}
-          onBlur={(e) => handleInputBlur('restDayFirst2hr', e.target.value)}
-          placeholder="例如: 4/3 或 1.333"
-          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-        />
-      </div>
-      <div>
-        <label className="block text-sm font-medium text-gray-600 mb-1">
-          2-8小時（{formatRateDisplay(formData.customRates.restDay2to8hr)}）
-        </label>
-        <input
-          type="text"
-          value={inputValues.restDay2to8hr}
-          onChange={(e) => handleInputChange('restDay2to8hr', e.target.value)}
-          onBlur={(e) => handleInputBlur('restDay2to8hr', e.target.value)}
-          placeholder="例如: 5/3 或 1.667"
-          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-        />
-      </div>
-      <div>
-        <label className="block text-sm font-medium text-gray-600 mb-1">
-          超過8小時（{formatRateDisplay(formData.customRates.restDayOver8hr)}）
-        </label>
-        <input
-          type="text"
-          value={inputValues.restDayOver8hr}
-          onChange={(e) => handleInputChange('restDayOver8hr', e.target.value)}
-          onBlur={(e) => handleInputBlur('restDayOver8hr', e.target.value)}
-          placeholder="例如: 8/3 或 2.667"
-          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-        />
-      </div>
-    </div>
+    <RateTierEditor
+      label={dayTypeLabels.restDay}
+      tiers={formData.customRates.tiers.restDay}
+      onChange={(tiers) => handleTiersChange('restDay', tiers)}
+    />
   </div>
 
   {/* 假日出勤倍率 - 優化後 */}
@@ -317,37 +311,29 @@ const SettingsForm: React.FC<SettingsFormProps> = ({
     <h3 className="font-semibold text-gray-700 flex flex-col sm:flex-row sm:items-center gap-2">
       <div className="flex items-center gap-2">
         <Calendar className="w-4 h-4 text-red-500" />
-        假日出勤倍率
+        {t('settings.holidayRates')}
       </div>
-      <span className="text-sm text-gray-500 pl-6 sm:pl-0">（國定假日/特休與例假）</span>
+      {isTaiwan && <span className="text-sm text-gray-500 pl-6 sm:pl-0">{t('settings.holidayArticle')}</span>}
     </h3>
-    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-2 gap-4">
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
       <div>
-        <label className="block text-sm font-medium text-gray-600 mb-1">
-          國定假日/特休（{formatRateDisplay(formData.customRates.holidayRate)}）
-        </label>
-        <input
-          type="text"
-          value={inputValues.holidayRate}
-          onChange={(e) => handleInputChange('holidayRate', e.target.value)}
-          onBlur={(e) => handleInputBlur('holidayRate', e.target.value)}
-          placeholder="例如: 2 或 2.000"
-          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-        />
-      </div>
-      <div>
-        <label className="block text-sm font-medium text-gray-600 mb-1">
-          例假（{formatRateDisplay(formData.customRates.regularDayOffRate)}）
-        </label>
-        <input
-          type="text"
-          value={inputValues.regularDayOffRate}
-          onChange={(e) => handleInputChange('regularDayOffRate', e.target.value)}
-          onBlur={(e) => handleInputBlur('regularDayOffRate', e.target.value)}
-          placeholder="例如: 2 或 2.000"
-          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        <h4 className="text-sm font-medium text-gray-600 mb-2">{dayTypeLabels.holiday}</h4>
+        <RateTierEditor
+          label={dayTypeLabels.holiday}
+          tiers={formData.customRates.tiers.holiday}
+          onChange={(tiers) => handleTiersChange('holiday', tiers)}
         />
       </div>
+      {rulePack.dayTypes.includes('regularDayOff') && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-600 mb-2">{dayTypeLabels.regularDayOff}</h4>
+          <RateTierEditor
+            label={dayTypeLabels.regularDayOff}
+            tiers={formData.customRates.tiers.regularDayOff}
+            onChange={(tiers) => handleTiersChange('regularDayOff', tiers)}
+          />
+        </div>
+      )}
     </div>
   </div>
 
@@ -355,10 +341,11 @@ const SettingsForm: React.FC<SettingsFormProps> = ({
   <div className="p-4 bg-blue-50 rounded-lg">
     <h4 className="font-semibold text-blue-800 mb-2 flex items-center gap-1">
       <Info className="w-4 h-4" />
-      輸入格式說明
+      {t('settings.formatTitle')}
     </h4>
     <div className="text-sm text-blue-700">
-      <p>支援格式：分數 (4/3、5/3)、小數 (1.333、1.667) 或整數 (2、3)</p>
+      <p>{t('settings.formatFractions')}</p>
+      <p>{t('settings.formatTiers')}</p>
     </div>
   </div>
 
@@ -370,7 +357,7 @@ const SettingsForm: React.FC<SettingsFormProps> = ({
       className="w-full sm:w-auto px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm flex items-center justify-center gap-2"
     >
       <RotateCcw className="w-4 h-4" />
-      重置全部
+      {t('settings.resetAll')}
     </button>
     <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
       <button
@@ -378,13 +365,13 @@ const SettingsForm: React.FC<SettingsFormProps> = ({
         onClick={onCancel}
         className="w-full sm:w-auto px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 transition-colors"
       >
-        取消
+        {t('common.cancel')}
       </button>
       <button
         type="submit"
         className="w-full sm:w-auto px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
       >
-        套用設定
+        {t('settings.apply')}
       </button>
     </div>
   </div>
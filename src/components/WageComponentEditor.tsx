@@ -0,0 +1,124 @@
+import React, {useCallback, useState} from "react";
+import {Plus, Trash2} from "lucide-react";
+import type {WageComponent} from "./type.ts";
+import {useTranslation} from "../hook/useTranslation.ts";
+
+interface WageComponentEditorProps {
+  components: WageComponent[];
+  onChange: (components: WageComponent[]) => void;
+  /** 金額單位說明，例如：月薪 */
+  unitLabel: string;
+  /** 幣別，依適用法域 */
+  currency: string;
+}
+
+const WageComponentEditor: React.FC<WageComponentEditorProps> = ({ components, onChange, unitLabel, currency }) => {
+  const { t, formatCurrency } = useTranslation();
+  const [name, setName] = useState<string>('');
+  const [amount, setAmount] = useState<string>('');
+  const [isRegular, setIsRegular] = useState<boolean>(true);
+
+  // 新增工資項目
+  const handleAdd = useCallback((): void => {
+    const parsedAmount = parseFloat(amount);
+    if (!name.trim() || isNaN(parsedAmount) || parsedAmount < 0) return;
+
+    onChange([...components, { name: name.trim(), amount: parsedAmount, isRegular }]);
+    setName('');
+    setAmount('');
+    setIsRegular(true);
+  }, [name, amount, isRegular, components, onChange]);
+
+  // 刪除工資項目
+  const handleRemove = useCallback((index: number): void => {
+    onChange(components.filter((_, i) => i !== index));
+  }, [components, onChange]);
+
+  // 切換是否為經常性給與
+  const handleToggleRegular = useCallback((index: number): void => {
+    onChange(components.map((item, i) => i === index ? { ...item, isRegular: !item.isRegular } : item));
+  }, [components, onChange]);
+
+  return (
+      <div className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+          <label className="form-control">
+            <span className="label-text mb-1">{t('wageEditor.name')}</span>
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t('wageEditor.namePlaceholder')}
+                className="input input-bordered"
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text mb-1">{t('wageEditor.amount', { unit: unitLabel })}</span>
+            <input
+                type="number"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder={t('wageEditor.amountPlaceholder')}
+                className="input input-bordered"
+            />
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer h-12">
+            <input
+                type="checkbox"
+                checked={isRegular}
+                onChange={(e) => setIsRegular(e.target.checked)}
+                className="checkbox checkbox-sm"
+            />
+            <span className="label-text">{t('wageEditor.isRegular')}</span>
+          </label>
+          <button type="button" onClick={handleAdd} className="btn btn-outline">
+            <Plus className="w-4 h-4"/>
+            {t('wageEditor.add')}
+          </button>
+        </div>
+
+        {components.length > 0 && (
+            <table className="table table-sm">
+              <thead>
+              <tr>
+                <th>{t('wageEditor.item')}</th>
+                <th className="text-right">{t('wageEditor.amountColumn')}</th>
+                <th className="text-center">{t('wageEditor.includedInBase')}</th>
+                <th></th>
+              </tr>
+              </thead>
+              <tbody>
+              {components.map((item, index) => (
+                  <tr key={`${item.name}-${index}`}>
+                    <td>{item.name}</td>
+                    <td className="text-right">{formatCurrency(item.amount, currency)}</td>
+                    <td className="text-center">
+                      <input
+                          type="checkbox"
+                          checked={item.isRegular}
+                          onChange={() => handleToggleRegular(index)}
+                          className="checkbox checkbox-sm"
+                          aria-label={t('wageEditor.isRegularLabel', { name: item.name })}
+                      />
+                    </td>
+                    <td className="text-right">
+                      <button
+                          type="button"
+                          onClick={() => handleRemove(index)}
+                          className="btn btn-ghost btn-xs"
+                          aria-label={t('common.removeItem', { name: item.name })}
+                      >
+                        <Trash2 className="w-4 h-4"/>
+                      </button>
+                    </td>
+                  </tr>
+              ))}
+              </tbody>
+            </table>
+        )}
+      </div>
+  );
+};
+
+export default WageComponentEditor;
@@ -0,0 +1,113 @@
+import React, {useCallback} from "react";
+import type {WorkingHourScheme, WorkingHourSchemeType} from "./type.ts";
+import {useTranslation} from "../hook/useTranslation.ts";
+import {
+  createDefaultScheme,
+  describeWorkingHourScheme,
+  isFlexibleScheme,
+  validateScheme,
+  WORKING_HOUR_SCHEME_RULES,
+  WORKING_HOUR_SCHEME_TYPES
+} from "../utils/WorkingHourScheme.ts";
+
+interface WorkingHourSchemeEditorProps {
+  scheme: WorkingHourScheme;
+  onChange: (scheme: WorkingHourScheme) => void;
+}
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+const WorkingHourSchemeEditor: React.FC<WorkingHourSchemeEditorProps> = ({ scheme, onChange }) => {
+  const { t } = useTranslation();
+  const rule = WORKING_HOUR_SCHEME_RULES[scheme.type];
+  const errors = isFlexibleScheme(scheme) ? validateScheme(scheme) : [];
+  const weeks = Array.from({ length: Math.ceil(scheme.dailyHours.length / 7) }, (_, week) => week);
+
+  // 切換制度時重新套用預設排班
+  const handleTypeChange = useCallback((type: WorkingHourSchemeType): void => {
+    onChange(createDefaultScheme(type, scheme.startDate));
+  }, [scheme.startDate, onChange]);
+
+  // 修改單日排定工時
+  const handleHoursChange = useCallback((index: number, value: string): void => {
+    const hours = value === '' ? 0 : parseFloat(value);
+    if (isNaN(hours) || hours < 0) return;
+    onChange({ ...scheme, dailyHours: scheme.dailyHours.map((item, i) => i === index ? hours : item) });
+  }, [scheme, onChange]);
+
+  return (
+      <div className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">{t('schemeEditor.type')}</label>
+            <select
+                value={scheme.type}
+                onChange={(e) => handleTypeChange(e.target.value as WorkingHourSchemeType)}
+                className={inputClassName}
+            >
+              {WORKING_HOUR_SCHEME_TYPES.map(type => (
+                  <option key={type} value={type}>{describeWorkingHourScheme(type)}</option>
+              ))}
+            </select>
+          </div>
+          {isFlexibleScheme(scheme) && (
+              <div>
+                <label className="block text-sm font-medium text-gray-600 mb-1">{t('schemeEditor.startDate')}</label>
+                <input
+                    type="date"
+                    value={scheme.startDate}
+                    onChange={(e) => onChange({ ...scheme, startDate: e.target.value })}
+                    className={inputClassName}
+                />
+              </div>
+          )}
+        </div>
+
+        {isFlexibleScheme(scheme) && (
+            <>
+              <p className="text-xs text-gray-500">
+                {t('schemeEditor.limits', {
+                  daily: rule.maxDailyHours,
+                  weekly: rule.maxWeeklyHours !== undefined ? t('schemeEditor.weeklyLimit', { hours: rule.maxWeeklyHours }) : '',
+                  cycle: rule.maxCycleHours,
+                  daysOff: rule.minDaysOff
+                })}
+                {t('schemeEditor.entryHint')}
+              </p>
+              <div className="space-y-2">
+                {weeks.map(week => (
+                    <div key={week} className="flex items-center gap-2">
+                      <span className="w-14 text-sm text-gray-600 shrink-0">{t('schemeEditor.week', { week: week + 1 })}</span>
+                      <div className="grid grid-cols-7 gap-1 flex-1">
+                        {scheme.dailyHours.slice(week * 7, week * 7 + 7).map((hours, offset) => {
+                          const index = week * 7 + offset;
+                          return (
+                              <input
+                                  key={index}
+                                  type="number"
+                                  min="0"
+                                  max={rule.maxDailyHours}
+                                  step="0.5"
+                                  value={hours}
+                                  onChange={(e) => handleHoursChange(index, e.target.value)}
+                                  className="w-full px-2 py-1 text-sm text-center border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                                  aria-label={t('schemeEditor.dayHours', { day: index + 1 })}
+                              />
+                          );
+                        })}
+                      </div>
+                    </div>
+                ))}
+              </div>
+              {errors.length > 0 && (
+                  <ul className="text-sm text-red-600 list-disc pl-5">
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+              )}
+            </>
+        )}
+      </div>
+  );
+};
+
+export default WorkingHourSchemeEditor;
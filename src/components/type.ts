@@ -6,8 +6,14 @@ export type WorkDayType = 'weekday' | 'restDay' | 'holiday' | 'regularDayOff';
 /** 假日類型 */
 export type HolidayType = '國定假日' | '特休' | '例假';
 
-/** 計算方式 */
-export type CalculationMethod = 'ceiling' | 'round';
+/** 捨入方式：不捨入、四捨五入、無條件進位、無條件捨去 */
+export type RoundingStrategy = 'none' | 'halfUp' | 'ceil' | 'floor';
+
+/** 計薪方式：月薪制、日薪制、時薪制 */
+export type PayBasis = 'monthly' | 'daily' | 'hourly';
+
+/** 介面及計算說明的語系 */
+export type Locale = 'zh-TW' | 'en-US';
 
 // ===== 輸入資料介面 =====
 
@@ -23,6 +29,125 @@ export interface WorkDataInput {
   regularDayOffWork: string;
   /** 是否為天災、事變或突發事件 */
   isEmergency: boolean;
+  /** 日期制工時紀錄（有資料時取代上方字串欄位） */
+  entries?: DatedWorkEntry[];
+}
+
+/** 日期制單日工時紀錄 */
+export interface DatedWorkEntry {
+  /** 工作日期（YYYY-MM-DD） */
+  date: string;
+  /** 工作日類型 */
+  dayType: WorkDayType;
+  /** 工作時數（平日為加班時數，其餘為出勤時數）；有打卡時間時改由打卡時間換算 */
+  hours: number;
+  /** 本筆時數的開始時間（HH:MM），用於判斷夜班等時段加給 */
+  startTime?: string;
+  /** 上班打卡時間（HH:MM） */
+  clockIn?: string;
+  /** 下班打卡時間（HH:MM），早於上班時間表示跨日 */
+  clockOut?: string;
+  /** 當日休息分鐘數，填寫時取代休息時段規則 */
+  breakMinutes?: number;
+  /** 次日的工作日類型，班次跨越日界時超過日界的時段依此計算，未填時同當日 */
+  nextDayType?: WorkDayType;
+  /** 跨日班次拆分後的時段（計算時產生） */
+  segment?: ShiftSegment;
+  /** 部分工時人員當日約定工時，未填時依計算選項 */
+  contractualHours?: number;
+  /** 是否選擇換取補休（僅平日加班與休息日工作適用） */
+  compLeave?: boolean;
+  /** 備註 */
+  note?: string;
+}
+
+/** 跨日班次依日界拆分後的時段 */
+export interface ShiftSegment {
+  /** 原班次日期 */
+  shiftDate: string;
+  /** 原班次上下班時間（HH:MM） */
+  shiftClockIn: string;
+  shiftClockOut: string;
+  /** 第幾段（由 1 起算） */
+  index: number;
+  /** 共幾段 */
+  count: number;
+}
+
+/** 工資項目（金額與計薪方式同單位，例如月薪制填每月金額） */
+export interface WageComponent {
+  /** 項目名稱，例如：職務加給、伙食津貼 */
+  name: string;
+  /** 金額 */
+  amount: number;
+  /** 是否為經常性給與（計入加班費計算基礎） */
+  isRegular: boolean;
+}
+
+/** 加班時數換算方式：無條件捨去、無條件進位、四捨五入 */
+export type BillingIncrementMode = 'floor' | 'ceil' | 'nearest';
+
+/** 加班時數計算單位（例如以30分鐘為單位，未滿者不計） */
+export interface BillingIncrement {
+  /** 計算單位（分鐘），0 表示依實際時數計算 */
+  minutes: number;
+  /** 換算方式 */
+  mode: BillingIncrementMode;
+}
+
+/** 工時制度：一般工時或勞基法第30條、第30條之1之變形工時 */
+export type WorkingHourSchemeType = 'standard' | 'twoWeek' | 'fourWeek' | 'eightWeek';
+
+/** 變形工時排班 */
+export interface WorkingHourScheme {
+  type: WorkingHourSchemeType;
+  /** 週期起算日（YYYY-MM-DD） */
+  startDate: string;
+  /** 週期內每日排定的正常工時，依起算日起逐日排列，0 表示排休 */
+  dailyHours: number[];
+}
+
+/** 休息時段（勞基法第35條） */
+export interface BreakRule {
+  /** 規則代碼 */
+  id: string;
+  /** 名稱，例如：午休、晚餐 */
+  name: string;
+  /** 休息時段（HH:MM），出勤涵蓋時扣除重疊部分 */
+  timeWindow: { start: string; end: string };
+  /** 有薪休息計入工時，不扣除 */
+  isPaid: boolean;
+}
+
+/** 打卡時間換算工時的休息扣除設定 */
+export interface ClockSettings {
+  /** 固定休息時段 */
+  breakRules: BreakRule[];
+  /** 出勤未涵蓋任何無薪休息時段時，出勤滿此時數自動扣除休息，0 表示不自動扣除 */
+  autoBreakAfterHours: number;
+  /** 自動扣除的休息分鐘數 */
+  autoBreakMinutes: number;
+  /** 日界（HH:MM），班次跨越時拆分至次日，預設為午夜 00:00 */
+  dayBoundary: string;
+}
+
+/** 加給計算方式：時薪倍率或每小時固定金額 */
+export type PremiumAmountType = 'rate' | 'flat';
+
+/** 額外加給規則（團體協約或工作規則約定，疊加於法定加班費之上） */
+export interface PremiumRule {
+  /** 規則代碼 */
+  id: string;
+  /** 名稱，例如：夜班津貼、待命津貼 */
+  name: string;
+  /** 適用時段（HH:MM），結束早於開始表示跨午夜，例如 22:00 ~ 06:00 */
+  timeWindow?: { start: string; end: string };
+  /** 適用的工作日類型，未填表示全部 */
+  dayTypes?: WorkDayType[];
+  /** 計算方式 */
+  amountType: PremiumAmountType;
+  /** rate 為時薪倍率（例如 0.5 表示每小時加給半個時薪），flat 為每小時金額 */
+  amount: number;
 }
 
 /** 解析後的時數資料 */
@@ -39,20 +164,102 @@ export interface ParsedHoursData {
 export interface DailyWorkDetail {
   /** 第幾天 */
   day: number;
-  /** 工作時數 */
+  /** 工作日期（日期制輸入時才有）；每月延長工時加給為月份（YYYY-MM），快速輸入時為 current */
+  date?: string;
+  /** 適用的法規版本代碼 */
+  ruleVersionId?: string;
+  /** 實際工作時數 */
   hours: number;
+  /** 依計算單位換算後的計薪時數（有設定計算單位時才有） */
+  billedHours?: number;
+  /** 部分工時延長至8小時內、以平日工資計的時數 */
+  extraNormalHours?: number;
+  /** 上述時數的工資（已含於 pay） */
+  extraNormalPay?: number;
+  /** 假日出勤超過8小時、屬延長工時的時數 */
+  extendedHours?: number;
+  /** 上述時數的工資（已含於 pay） */
+  extendedPay?: number;
+  /** 本日時數所屬的跨日班次時段 */
+  segment?: ShiftSegment;
+  /** 本段打卡時間（HH:MM），以打卡時間輸入時才有 */
+  clockIn?: string;
+  clockOut?: string;
   /** 加班費或出勤工資 */
   pay: number;
 }
 
+/** 金額步驟的項目：級距、天災事變、部分工時平日工資、額外加給、月延長工時加給 */
+export type CalculationSegmentKey = 'tier' | 'emergency' | 'partTimeNormal' | 'premium' | 'monthlySurcharge';
+
+/** 說明步驟的項目 */
+export type CalculationNoteKey =
+  | 'noOvertime'
+  | 'notWorked'
+  | 'dayTypeHours'
+  | 'restDayHourBlock'
+  | 'partTimeOvertime'
+  | 'billingIncrement'
+  | 'multiDay'
+  | 'datedRange'
+  | 'ruleVersions'
+  | 'flexibleScheme'
+  | 'clockEntry'
+  | 'extraNormalTotal'
+  | 'regularDayOffRest'
+  | 'compensatoryRest'
+  | 'premiumRule'
+  | 'premiumMissingStartTime'
+  | 'monthlySurchargeRule';
+
+/** 步驟參數，內容依項目而定（例如級距上下限、日期、法規版本名稱） */
+export type CalculationStepParams = Record<string, string | number | string[] | null>;
+
+/** 金額計算步驟：時數 × 每小時基準 × 倍率 = 小計 */
+export interface CalculationSegmentStep {
+  kind: 'segment';
+  /** 項目 */
+  labelKey: CalculationSegmentKey;
+  params: CalculationStepParams;
+  /** 計薪時數 */
+  hours: number;
+  /** 每小時基準金額（時薪或每小時加給），非整分時保留至小數四位 */
+  baseRate: number;
+  /** 倍率 */
+  multiplier: number;
+  /** 小計（已捨入） */
+  subtotal: number;
+  /** 小計適用的捨入規則 */
+  rounding: RoundingRule;
+  /** 捨入調整金額（捨入後減捨入前），未調整時為 0 */
+  roundingDifference: number;
+}
+
+/** 說明步驟 */
+export interface CalculationNoteStep {
+  kind: 'note';
+  /** 項目 */
+  labelKey: CalculationNoteKey;
+  params: CalculationStepParams;
+}
+
+/** 計算步驟 */
+export type CalculationStep = CalculationSegmentStep | CalculationNoteStep;
+
 /** 計算詳細結果 */
 export interface CalculationDetail {
   /** 加班費金額 */
   pay: number;
-  /** 計算過程說明 */
-  details: string[];
+  /** 計算步驟，顯示文字由 describeCalculationStep 產生 */
+  steps: CalculationStep[];
   /** 每日工作明細（多天時才有） */
   dailyBreakdown?: DailyWorkDetail[];
+  /** 應事後補假休息日數（例假出勤，勞基法第40條） */
+  compensatoryRestDays?: number;
+  /** 部分工時延長至8小時內、以平日工資計的時數合計 */
+  extraNormalHours?: number;
+  /** 上述時數的工資合計（已含於 pay，非加班費） */
+  extraNormalPay?: number;
 }
 
 /** 平日加班計算結果 */
@@ -70,42 +277,441 @@ export interface HolidayWorkResult extends CalculationDetail {
   holidayType?: HolidayType;
 }
 
+/** 加班費計算基礎組成 */
+export interface WageBaseBreakdown {
+  /** 本薪 */
+  baseAmount: number;
+  /** 各工資項目 */
+  components: WageComponent[];
+  /** 計入的經常性給與合計 */
+  regularTotal: number;
+  /** 未計入的非經常性給與合計 */
+  excludedTotal: number;
+  /** 計算基礎合計（本薪 + 經常性給與） */
+  total: number;
+}
+
+/** 法定加班費類別 */
+export type StatutoryCategory = '平日加班' | '休息日工作' | '假日出勤' | '例假出勤';
+
+/** 額外加給類別 */
+export type PremiumCategory = `加給：${string}`;
+
 /** 綜合計算結果 */
 export interface ComprehensiveResult {
   /** 每小時薪資 */
   hourlyRate: number;
   /** 日薪 */
   dailyWage: number;
-  /** 各項工作類型的計算結果 */
+  /** 各項工作類型的計算結果，額外加給以「加給：名稱」分項列出，法定加給及每月延長工時加給以代碼列出 */
   calculations: {
-    [key in '平日加班' | '休息日工作' | '假日出勤' | '例假出勤']?: CalculationDetail;
+    [key in StatutoryCategory]?: CalculationDetail;
+  } & {
+    [key: PremiumCategory]: CalculationDetail;
   };
   /** 總加給工資 */
   totalPay: number;
-  /** 計算方式 */
-  calculationMethod?: CalculationMethod;
+  /** 本次計算採用的捨入規則 */
+  roundingPolicy?: RoundingPolicy;
+  /** 實際發生捨入的階段 */
+  roundingAdjustments?: RoundingAdjustment[];
+  /** 計薪方式 */
+  payBasis?: PayBasis;
+  /** 月薪制換算時薪的每月時數 */
+  monthlyHours?: number;
+  /** 加班費計算基礎組成 */
+  wageBase?: WageBaseBreakdown;
+  /** 最低工資檢查結果 */
+  minimumWageCheck?: MinimumWageCheck;
+  /** 加班費應稅／免稅拆分 */
+  taxSplit?: TaxSplit;
+  /** 本次計算適用的法規版本 */
+  ruleVersions?: RuleVersionSummary[];
+}
+
+// ===== 捨入規則 =====
+
+/** 單一階段的捨入規則 */
+export interface RoundingRule {
+  /** 捨入方式 */
+  mode: RoundingStrategy;
+  /** 保留小數位數（0 表示取整數元） */
+  decimals: number;
+}
+
+/** 各計算階段的捨入規則 */
+export interface RoundingPolicy {
+  /** 時薪與日薪 */
+  hourlyRate: RoundingRule;
+  /** 各倍率級距金額 */
+  segment: RoundingRule;
+  /** 每日金額 */
+  daily: RoundingRule;
+  /** 總加給工資 */
+  total: RoundingRule;
+}
+
+/** 捨入階段 */
+export type RoundingStage = keyof RoundingPolicy;
+
+/** 捨入紀錄 */
+export interface RoundingAdjustment {
+  /** 捨入階段 */
+  stage: RoundingStage;
+  /** 套用的規則 */
+  rule: RoundingRule;
+  /** 實際發生捨入的次數 */
+  count: number;
+  /** 捨入前後差額（捨入後 − 捨入前；時薪階段為每小時差額） */
+  difference: number;
+}
+
+// ===== 補休（勞基法第32條之1） =====
+
+/** 單筆補休紀錄 */
+export interface CompLeaveRecord {
+  /** 工作日期（快速輸入時為 null） */
+  date: string | null;
+  /** 工作日類型 */
+  dayType: WorkDayType;
+  /** 換取補休時數 */
+  hours: number;
+  /** 未休時應依原加班費標準發給的金額 */
+  payValue: number;
+  /** 補休期限（含），快速輸入時為 null */
+  expiryDate: string | null;
+  /** 已休時數 */
+  usedHours: number;
+  /** 剩餘時數 */
+  remainingHours: number;
+  /** 剩餘時數對應金額 */
+  remainingValue: number;
+  /** 是否已逾補休期限 */
+  isExpired: boolean;
+}
+
+/** 補休計算結果 */
+export interface CompLeaveResult {
+  /** 每小時薪資 */
+  hourlyRate: number;
+  /** 各筆補休紀錄（依日期排序） */
+  records: CompLeaveRecord[];
+  /** 換取補休總時數 */
+  totalHours: number;
+  /** 已休時數 */
+  usedHours: number;
+  /** 剩餘時數 */
+  remainingHours: number;
+  /** 全部補休若未休應發金額 */
+  totalValue: number;
+  /** 剩餘時數若未休應發金額 */
+  remainingValue: number;
+  /** 已逾期未休時數 */
+  expiredHours: number;
+  /** 已逾期應結算發給的工資 */
+  expiredPayout: number;
+  /** 計算說明 */
+  details: string[];
+}
+
+// ===== 所得稅與實領估算 =====
+
+/** 加班費應稅／免稅拆分結果 */
+export interface TaxSplit {
+  /** 免稅金額（每月46小時內之延長工時工資） */
+  nonTaxablePay: number;
+  /** 應稅金額 */
+  taxablePay: number;
+  /** 免稅延長工時時數 */
+  exemptHours: number;
+  /** 超過免稅上限的延長工時時數 */
+  taxableOvertimeHours: number;
+  /** 計算說明 */
+  details: string[];
+}
+
+/** 實領估算選項 */
+export interface NetPayOptions {
+  /** 本期應稅薪資（本薪與其他應稅給與，不含加班費） */
+  regularPay: number;
+  /** 扣繳率，例如 0.05 表示 5% */
+  withholdingRate: number;
+  /** 應稅所得未達此金額免予扣繳 */
+  withholdingThreshold?: number;
+  /** 勞保自付額 */
+  laborInsurance?: number;
+  /** 健保自付額 */
+  healthInsurance?: number;
+  /** 勞退自提比例，例如 0.06 表示 6%（自提部分不計入應稅所得） */
+  pensionContributionRate?: number;
+  /** 其他扣款 */
+  otherDeductions?: number;
+}
+
+/** 實領估算扣款項目 */
+export interface PayDeduction {
+  /** 扣款名稱 */
+  name: string;
+  /** 金額 */
+  amount: number;
+}
+
+/** 實領估算結果 */
+export interface NetPayEstimate {
+  /** 應發合計（應稅薪資 + 加班費） */
+  grossPay: number;
+  /** 扣繳所得 */
+  taxableIncome: number;
+  /** 扣繳稅額 */
+  withholdingTax: number;
+  /** 各項扣款 */
+  deductions: PayDeduction[];
+  /** 實領金額 */
+  netPay: number;
+}
+
+// ===== 薪資單稽核 =====
+
+/** 雇主實際發給的各類加班費（未填表示未發給） */
+export type PayslipPaidAmounts = { [key in StatutoryCategory]?: number };
+
+/** 稽核結果：短發、溢發或相符 */
+export type AuditStatus = 'shortfall' | 'overpaid' | 'match';
+
+/** 單一類別的稽核結果 */
+export interface PayslipAuditLine {
+  category: StatutoryCategory;
+  /** 依法應發金額 */
+  legalPay: number;
+  /** 實際發給金額 */
+  paidPay: number;
+  /** 差額（實發 − 應發），負數表示短發 */
+  difference: number;
+  status: AuditStatus;
+}
+
+/** 薪資單稽核結果 */
+export interface PayslipAuditResult {
+  lines: PayslipAuditLine[];
+  /** 依法應發合計 */
+  totalLegal: number;
+  /** 實際發給合計 */
+  totalPaid: number;
+  /** 合計差額（實發 − 應發） */
+  totalDifference: number;
+  status: AuditStatus;
+  /** 白話說明，可列印或匯出 */
+  summary: string;
+}
+
+// ===== 反推計算 =====
+
+/** 數值範圍（上下限相同表示唯一解） */
+export interface ValueRange {
+  min: number;
+  max: number;
+}
+
+/** 由加班費反推工作時數 */
+export interface HoursSolution {
+  dayType: WorkDayType;
+  targetPay: number;
+  /** 計算用時薪 */
+  hourlyRate: number;
+  /** 單日可能的工作時數範圍，單日無法達到時為 null */
+  range: ValueRange | null;
+  /** 以計算單位拆分為多日的可能組合，每組為各日時數 */
+  splits: number[][];
+  details: string[];
+}
+
+/** 由加班費反推工資 */
+export interface SalarySolution {
+  targetPay: number;
+  payBasis: PayBasis;
+  /** 反推的時薪 */
+  hourlyRate: number;
+  /** 可能的工資範圍（時薪有捨入時，多個工資會對應同一時薪），無解時為 null */
+  range: ValueRange | null;
+  details: string[];
+}
+
+// ===== 情境比較 =====
+
+/** 計算結果類別：法定加班費或額外加給 */
+export type CalculationCategoryName = StatutoryCategory | PremiumCategory;
+
+/** 情境比較表的一列 */
+export interface ScenarioComparisonRow {
+  /** 情境代碼 */
+  id: string;
+  /** 情境名稱 */
+  name: string;
+  /** 計算用時薪，計算失敗時為 0 */
+  hourlyRate: number;
+  /** 各類別金額，未發生的類別為 0 */
+  pays: Partial<Record<CalculationCategoryName, number>>;
+  /** 總加給工資 */
+  totalPay: number;
+  /** 各類別與基準情境的差額（本情境 − 基準） */
+  differences: Partial<Record<CalculationCategoryName, number>>;
+  /** 總額與基準情境的差額 */
+  totalDifference: number;
+  /** 計算失敗時的錯誤訊息 */
+  error?: string;
+}
+
+/** 情境比較結果 */
+export interface ScenarioComparison {
+  /** 作為比較基準的情境代碼（第一個計算成功的情境），全部失敗時為 null */
+  baselineId: string | null;
+  /** 出現過的類別，依法定類別在前、加給在後排列 */
+  categories: CalculationCategoryName[];
+  rows: ScenarioComparisonRow[];
 }
 
 // ===== 勞基法倍率常數 =====
 
+/** 加班費級距：自當日第0小時起累計，至 upToHours 為止適用同一倍率 */
+export interface RateTier {
+  /** 級距上限時數（含），null 表示無上限，僅能用於最後一級 */
+  upToHours: number | null;
+  /** 倍率 */
+  multiplier: number;
+}
+
+/** 各工作日類型的級距，依時數由小至大排列 */
+export type RateTierTable = Record<WorkDayType, RateTier[]>;
+
 /** 勞基法規定的加班費倍率 */
 export interface LaborStandardRates {
-  /** 平日前2小時倍率：1又1/3 */
-  weekdayFirst2hr: number;
-  /** 平日再延長2小時倍率：1又2/3 */
-  weekdayNext2hr: number;
   /** 天災事變倍率：2倍 */
   weekdayEmergency: number;
-  /** 休息日前2小時倍率：1又1/3 */
-  restDayFirst2hr: number;
-  /** 休息日2-8小時倍率：1又2/3 */
-  restDay2to8hr: number;
-  /** 休息日超過8小時倍率：2又2/3 */
-  restDayOver8hr: number;
-  /** 國定假日/特休倍率：2倍 */
-  holidayRate: number;
-  /** 例假倍率：2倍 */
-  regularDayOffRate: number;
+  /** 各工作日類型的加班費級距 */
+  tiers: RateTierTable;
+}
+
+/** 法規版本與使用者設定不同的倍率，級距依工作日類型整組取代 */
+export interface LaborRateOverrides {
+  weekdayEmergency?: number;
+  tiers?: Partial<RateTierTable>;
+}
+
+// ===== 法規版本 =====
+
+/** 依施行期間區分的勞基法計算規則 */
+export interface LaborRuleVersion {
+  /** 版本代碼 */
+  id: string;
+  /** 版本名稱 */
+  name: string;
+  /** 施行日（含，YYYY-MM-DD） */
+  effectiveFrom: string;
+  /** 失效日（含，YYYY-MM-DD），未填表示現行有效 */
+  effectiveTo?: string;
+  /** 規則說明 */
+  description: string;
+  /** 該期間法定倍率與現行不同者（未列出者沿用使用者設定） */
+  rateOverrides: LaborRateOverrides;
+  /** 休息日工作時數計算級距，例如 [4, 8, 12] 表示4小時內以4小時計、逾4至8小時以8小時計 */
+  restDayHourBlocks?: number[];
+}
+
+/** 計算結果中的法規版本摘要 */
+export interface RuleVersionSummary {
+  /** 版本代碼 */
+  id: string;
+  /** 版本名稱 */
+  name: string;
+}
+
+// ===== 法域規則 =====
+
+/** 法域代碼 */
+export type JurisdictionId = 'TW' | 'JP';
+
+/** 延長工時上限 */
+export interface OvertimeLimitRule {
+  /** 每月延長工時上限 */
+  monthly: number;
+  /** 經同意放寬後之每月上限 */
+  monthlyWithConsent: number;
+  /** 每三個月延長工時上限 */
+  quarterly: number;
+  /** 經同意放寬後之每三個月上限 */
+  quarterlyWithConsent: number;
+  /** 放寬上限所需的程序，例如：經工會或勞資會議同意 */
+  consentLabel: string;
+  /** 超過上限時的處理建議 */
+  overLimitSuggestion: string;
+  /** 天災事變等緊急延長工時的說明 */
+  emergencyNote: string;
+}
+
+/** 每月延長工時超過門檻部分的加給 */
+export interface MonthlyOvertimeSurcharge {
+  /** 每月延長工時門檻 */
+  thresholdHours: number;
+  /** 超過部分於級距倍率外另加的倍率 */
+  additionalMultiplier: number;
+}
+
+/** 法域規則包：時薪推導、工作日類型、級距、工時上限及顯示名稱 */
+export interface JurisdictionRulePack {
+  id: JurisdictionId;
+  /** 規則名稱，例如：台灣勞動基準法 */
+  name: string;
+  /** 計算說明 */
+  description: string;
+  /** 幣別（ISO 4217），例如：TWD */
+  currency: string;
+  /** 月薪換算時薪的每月日數 */
+  daysPerMonth: number;
+  /** 月薪換算時薪的每月平均所定勞動時數，各事業單位不同，可由使用者調整；未提供時為每月日數 × 每日正常工時 */
+  monthlyScheduledHours?: number;
+  /** 每日正常工時 */
+  hoursPerDay: number;
+  /** 適用的工作日類型 */
+  dayTypes: WorkDayType[];
+  /** 工作日類型名稱 */
+  dayTypeLabels: Record<WorkDayType, string>;
+  /** 各計算類別的顯示名稱 */
+  categoryLabels: Record<StatutoryCategory, string>;
+  /** 預設倍率與級距 */
+  defaultRates: LaborStandardRates;
+  /** 各工作日類型的單日建議時數上限，未列出者不檢查 */
+  dailyHourLimits: Partial<Record<WorkDayType, number>>;
+  /** 單日工作時數法定上限，未提供表示不檢查 */
+  maxDailyHours?: number;
+  /** 延長工時上限 */
+  overtimeLimits: OvertimeLimitRule;
+  /** 法定休息：連續工作超過 afterHours 小時，至少應休息 minutes 分鐘 */
+  statutoryBreak: { afterHours: number; minutes: number };
+  /** 法定額外加給，例如深夜工作加給 */
+  statutoryPremiums: PremiumRule[];
+  /** 每月延長工時超過門檻部分的加給 */
+  monthlyOvertimeSurcharge?: MonthlyOvertimeSurcharge;
+  /** 法規版本（依施行日排序） */
+  ruleVersions: LaborRuleVersion[];
+  /** 是否檢查最低工資 */
+  checksMinimumWage: boolean;
+  /** 是否依所得稅法拆分免稅加班費 */
+  splitsTaxFreeOvertime: boolean;
+  /** 國定假日及例假出勤超過8小時的部分是否計入延長工時上限 */
+  countsHolidayExcessAsOvertime: boolean;
+}
+
+/** 規則包的翻譯文字，套用於原規則包的顯示欄位 */
+export interface RulePackTranslation {
+  name: string;
+  description: string;
+  dayTypeLabels: Record<WorkDayType, string>;
+  categoryLabels: Record<StatutoryCategory, string>;
+  overtimeLimits: Pick<OvertimeLimitRule, 'consentLabel' | 'overLimitSuggestion' | 'emergencyNote'>;
+  /** 法規版本名稱及說明，依版本代碼對應 */
+  ruleVersions: Record<string, Pick<LaborRuleVersion, 'name' | 'description'>>;
+  /** 法定加給名稱，依加給代碼對應 */
+  statutoryPremiumNames: Record<string, string>;
 }
 
 // ===== 元件 Props 介面 =====
@@ -166,16 +772,27 @@ export type CalculationErrorType =
   | 'INVALID_SALARY'
   | 'INVALID_HOURS_FORMAT'
   | 'NEGATIVE_HOURS'
+  /** 單日時數超過24小時 */
+  | 'EXCEEDED_DAY_HOURS'
+  /** 適用法域不適用的工作日類型 */
+  | 'UNSUPPORTED_DAY_TYPE'
+  /** 額外加給規則設定錯誤 */
+  | 'INVALID_PREMIUM_RULE'
+  /** 加班費倍率級距設定錯誤 */
+  | 'INVALID_RATE_TIERS'
   | 'EXCEEDED_LEGAL_LIMIT';
 
+/** 錯誤對應的欄位：工時輸入欄位，或設定中的加給規則、倍率級距 */
+export type CalculationErrorField = keyof WorkDataInput | 'premiumRules' | 'rateTiers';
+
 /** 計算錯誤介面 */
 export interface CalculationError {
   /** 錯誤類型 */
   type: CalculationErrorType;
   /** 錯誤訊息 */
   message: string;
-  /** 錯誤欄位 */
-  field?: keyof WorkDataInput;
+  /** 錯誤欄位，工資相關錯誤不指定 */
+  field?: CalculationErrorField;
 }
 
 // ===== 驗證相關 =====
@@ -188,6 +805,26 @@ export interface ValidationResult {
   errors: CalculationError[];
 }
 
+/** 單月延長工時統計 */
+export interface MonthlyOvertimeSummary {
+  /** 月份（YYYY-MM），快速輸入時為 null */
+  month: string | null;
+  /** 平日延長工時（不含天災事變） */
+  weekdayOvertimeHours: number;
+  /** 休息日工作時數 */
+  restDayHours: number;
+  /** 國定假日及例假出勤超過8小時的延長工時 */
+  holidayOvertimeHours: number;
+  /** 當月延長工時合計 */
+  totalHours: number;
+  /** 含當月在內連續三個月的延長工時合計 */
+  rollingQuarterHours: number;
+  /** 當月適用上限 */
+  monthlyLimit: number;
+  /** 連續三個月適用上限 */
+  quarterlyLimit: number;
+}
+
 /** 勞基法限制檢查結果 */
 export interface LegalLimitCheck {
   /** 是否符合法規 */
@@ -196,6 +833,36 @@ export interface LegalLimitCheck {
   warnings: string[];
   /** 建議事項 */
   suggestions: string[];
+  /** 各月份延長工時統計（依月份排序） */
+  monthlySummaries?: MonthlyOvertimeSummary[];
+  /** 最新月份尚可延長工時 */
+  remainingMonthlyHours?: number;
+  /** 最新三個月區間尚可延長工時 */
+  remainingQuarterlyHours?: number;
+}
+
+/** 最低工資表項目 */
+export interface MinimumWageEntry {
+  /** 生效日（YYYY-MM-DD） */
+  effectiveFrom: string;
+  /** 每月最低工資 */
+  monthly: number;
+  /** 每小時最低工資 */
+  hourly: number;
+}
+
+/** 最低工資檢查結果 */
+export interface MinimumWageCheck {
+  /** 檢查基準日 */
+  date: string;
+  /** 適用的最低工資（查無資料時為 null） */
+  minimumWage: MinimumWageEntry | null;
+  /** 是否符合最低工資 */
+  isCompliant: boolean;
+  /** 是否已改以最低工資作為計算基礎 */
+  appliedFloor: boolean;
+  /** 警告訊息 */
+  warnings: string[];
 }
 
 // ===== 設定選項 =====
@@ -209,7 +876,7 @@ export interface CalculatorSettings {
   /** 顯示法規警告 */
   showLegalWarnings: boolean;
   /** 語言設定 */
-  locale: 'zh-TW' | 'en-US';
+  locale: Locale;
 }
 
 // ===== API 相關（如果需要後端整合） =====
@@ -1,4 +1,5 @@
 import {type JSX, type ReactNode, useCallback, useEffect, useMemo, useRef, useState} from "react";
+import {t} from "../utils/I18n.ts";
 
 
 // Define a proper interface for the return type
@@ -110,12 +111,12 @@ export const useEditDialog = <T = Record<string, unknown>>(): UseEditDialogRetur
   const editDialog = useCallback((opts: EditDialogOptions<T> = {}): Promise<T | null> => {
     return new Promise((resolve) => {
       setOptions({
-        buttonConfirm: "保存",
+        buttonConfirm: t('common.save'),
         confirmStyle: "btn-primary",
-        buttonCancel: "取消",
+        buttonCancel: t('common.cancel'),
         cancelStyle: "btn-secondary",
         escapeToClose: true,
-        cardTitle: "編輯資料", // 預設標題
+        cardTitle: t('dialog.title'), // 預設標題
         ...opts
       });
       setIsOpen(true);
@@ -290,7 +291,7 @@ export const useEditDialog = <T = Record<string, unknown>>(): UseEditDialogRetur
         // 完整的無障礙屬性
         role="dialog"
         aria-modal="true"
-        aria-label={options.ariaLabel || (options.cardTitle ? undefined : "編輯對話框")}
+        aria-label={options.ariaLabel || (options.cardTitle ? undefined : t('dialog.label'))}
         aria-labelledby={ariaLabelledBy}
         aria-describedby={ariaDescribedBy}
         aria-live="polite"
@@ -318,7 +319,7 @@ export const useEditDialog = <T = Record<string, unknown>>(): UseEditDialogRetur
             <div
               id={formId.current}
               role="region"
-              aria-label={options.formAriaLabel || "編輯表單"}
+              aria-label={options.formAriaLabel || t('dialog.formLabel')}
               className="mb-4"
             >
               {options.renderForm?.({
@@ -337,7 +338,7 @@ export const useEditDialog = <T = Record<string, unknown>>(): UseEditDialogRetur
 
             {/* 隱藏的操作說明 */}
             <div className="sr-only" aria-live="polite">
-              編輯對話框已開啟。使用 Tab 鍵在表單欄位間移動，填寫完成後可使用按鈕儲存或取消，按 Escape 鍵關閉對話框。
+              {t('dialog.instructions')}
             </div>
           </div>
         </div>
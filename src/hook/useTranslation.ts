@@ -0,0 +1,39 @@
+import {useMemo} from "react";
+import type {Locale} from "../components/type.ts";
+import {useRateStore} from "../store/useRatestore.ts";
+import {
+  formatCurrency,
+  formatNumber,
+  getCurrencySymbol,
+  joinList,
+  type MessageKey,
+  type MessageParams,
+  translate
+} from "../utils/I18n.ts";
+
+interface UseTranslationReturn {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  joinList: (items: string[]) => string;
+  formatNumber: (value: number, maximumFractionDigits?: number, minimumFractionDigits?: number) => string;
+  formatCurrency: (value: number, currency: string) => string;
+  getCurrencySymbol: (currency: string) => string;
+}
+
+/**
+ * useTranslation 自訂 Hook
+ * 依設定 store 中的語系提供翻譯及數字、金額格式化，語系變更時元件會重新渲染。
+ */
+export const useTranslation = (): UseTranslationReturn => {
+  const locale = useRateStore(state => state.locale);
+
+  return useMemo(() => ({
+    locale,
+    t: (key, params) => translate(locale, key, params),
+    joinList: (items) => joinList(items, locale),
+    formatNumber: (value, maximumFractionDigits, minimumFractionDigits) =>
+      formatNumber(value, locale, maximumFractionDigits, minimumFractionDigits),
+    formatCurrency: (value, currency) => formatCurrency(value, currency, locale),
+    getCurrencySymbol: (currency) => getCurrencySymbol(currency, locale)
+  }), [locale]);
+};
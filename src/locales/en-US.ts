@@ -0,0 +1,644 @@
+import type { JurisdictionId, RulePackTranslation } from '../components/type.ts';
+import type { MessageKey } from './zh-TW.ts';
+
+// ===== English messages =====
+
+export const enUS: Record<MessageKey, string> = {
+  // 共用
+  'common.listSeparator': ', ',
+
+  // 數值與日期
+  'fraction.zeroDenominator': 'Denominator must not be 0',
+  'fraction.nonInteger': 'Numerator and denominator must be integers: {value}',
+  'fraction.invalidNumber': 'Invalid number: {value}',
+  'fraction.divideByZero': 'Divisor must not be 0',
+  'date.invalidDate': 'Invalid date: {date}',
+  'date.invalidMonth': 'Invalid month: {month}',
+
+  // 捨入規則與計算單位
+  'rounding.stage.hourlyRate': 'Hourly / daily wage',
+  'rounding.stage.segment': 'Tier amounts',
+  'rounding.stage.daily': 'Daily amounts',
+  'rounding.stage.total': 'Total',
+  'rounding.strategy.none': 'No rounding',
+  'rounding.strategy.halfUp': 'Round half up',
+  'rounding.strategy.ceil': 'Round up',
+  'rounding.strategy.floor': 'Round down',
+  'rounding.unitInteger': 'whole units',
+  'rounding.unitDecimals': '{decimals} decimal place(s)',
+  'rounding.rule': '{strategy} to {unit}',
+  'billing.mode.floor': 'partial units not counted',
+  'billing.mode.ceil': 'partial units count as one',
+  'billing.mode.nearest': 'half a unit or more counts as one',
+  'billing.actualHours': 'actual hours',
+  'billing.increment': 'every {minutes} min ({mode})',
+
+  // 補休
+  'compLeave.summary': '{totalHours} h converted to comp leave, {usedHours} h taken',
+  'compLeave.allocationOrder': 'Leave taken is deducted from the earliest-expiring balance first',
+  'compLeave.unallocated': 'Leave taken exceeds the available balance by {hours} h; the excess is ignored',
+  'compLeave.expired': '{hours} h expired unused and must be paid at the original overtime rates',
+
+  // 打卡與休息時段
+  'clock.lunchBreak': 'Lunch break',
+  'clock.breakNameRequired': 'Enter a name for the break',
+  'clock.invalidWindowFormat': '{name}: times must be in HH:MM format',
+  'clock.windowSameStartEnd': '{name}: start and end times must differ',
+  'clock.missingClockTimes': '{date}: enter both clock-in and clock-out times',
+  'clock.invalidClockTimes': '{date}: invalid clock times {clockIn} ~ {clockOut}',
+  'clock.invalidBreakMinutes': '{date}: invalid break minutes {breakMinutes}',
+
+  // 時段加給
+  'premium.nameRequired': 'Enter a name for the premium',
+  'premium.amountPositive': '{name}: amount or rate must be greater than 0',
+  'premium.allDayTypes': 'all day types',
+  'premium.rateAmount': 'hourly wage × {amount} per hour',
+  'premium.flatAmount': '{amount} per hour',
+  'premium.description': '{dayTypes}{window}, {amount}',
+
+  // 加班級距
+  'tier.multiplier.fourThirds': '1⅓× (4/3)',
+  'tier.multiplier.fiveThirds': '1⅔× (5/3)',
+  'tier.multiplier.eightThirds': '2⅔× (8/3)',
+  'tier.multiplier.other': '{multiplier}×',
+  'tier.range.all': 'All hours',
+  'tier.range.above': 'Beyond {lowerHours} h',
+  'tier.range.first': 'First {upToHours} h',
+  'tier.range.between': '{lowerHours}-{upToHours} h',
+  'tier.error.empty': '{label}: at least one tier is required',
+  'tier.error.multiplier': '{label}: tier {index} multiplier must be greater than 0',
+  'tier.error.unboundedNotLast': '{label}: only the last tier may be unbounded',
+  'tier.error.lastBounded': '{label}: the last tier must be unbounded, otherwise excess hours cannot be calculated',
+  'tier.error.upperBound': '{label}: tier {index} limit must exceed {lowerHours} h',
+
+  // 工時制度
+  'scheme.standard.label': 'Standard hours',
+  'scheme.twoWeek.label': 'Two-week flexible hours',
+  'scheme.fourWeek.label': 'Four-week flexible hours',
+  'scheme.eightWeek.label': 'Eight-week flexible hours',
+  'scheme.standard.article': 'Art. 30(1)',
+  'scheme.twoWeek.article': 'Art. 30(2)',
+  'scheme.fourWeek.article': 'Art. 30-1',
+  'scheme.eightWeek.article': 'Art. 30(3)',
+  'scheme.labelWithArticle': '{label} ({article})',
+  'scheme.error.startDate': '{label}: invalid cycle start date {startDate}',
+  'scheme.error.cycleDays': '{label}: the schedule must cover {cycleDays} days, currently {days}',
+  'scheme.error.invalidDay': 'Day {day}: invalid scheduled hours {hours}',
+  'scheme.error.dailyLimit': 'Day {day}: {hours} h scheduled exceeds the {label} daily limit of {limit} h',
+  'scheme.error.weeklyLimit': 'Week {week}: {hours} h scheduled exceeds the {label} weekly limit of {limit} h',
+  'scheme.error.cycleLimit': '{hours} h scheduled in the cycle exceeds the {label} limit of {limit} h',
+  'scheme.error.daysOff': '{daysOff} days off in the cycle, fewer than the {minDaysOff} required under {label}',
+
+  // 延長工時上限
+  'limit.currentPeriod': 'This period',
+  'limit.monthlyExceeded': '{label}: {hours} h of overtime exceeds the monthly limit of {limit} h',
+  'limit.quarterlyExceeded': '{label}: {hours} h of overtime including the previous two months exceeds the three-month limit of {limit} h',
+  'limit.consentSuggestion': '{label}: with {consentLabel}, the monthly limit can be raised to {monthlyLimit} h (still at most {quarterlyLimit} h per three months)',
+  'limit.remainingHours': '{label}: only {hours} h of overtime remain; plan upcoming shifts accordingly',
+
+  // 所得稅與實領
+  'tax.exemptHours': 'Overtime pay for up to {monthlyHours} h per month is tax-exempt: {hours} h in total',
+  'tax.taxableHours': '{hours} h exceed the exemption limit; their overtime pay is taxed as salary income',
+  'tax.holidayPay': 'Holiday / regular day off pay of {amount} for the first 8 h is double pay and is taxed as salary income',
+  'deduction.withholdingTax': 'Income tax withheld',
+  'deduction.laborInsurance': 'Labor insurance',
+  'deduction.healthInsurance': 'Health insurance',
+  'deduction.pension': 'Voluntary pension contribution',
+  'deduction.other': 'Other deductions',
+
+  // 薪資單稽核
+  'audit.status.shortfall': 'Underpaid',
+  'audit.status.overpaid': 'Overpaid',
+  'audit.status.match': 'Matches',
+  'audit.amountMatches': 'Amounts match',
+  'audit.difference': '{status} by {amount}',
+  'audit.line': '{label}: statutory {legal}, paid {paid}. {result}',
+  'audit.title': 'Overtime payslip audit',
+  'audit.basis': 'Basis: hourly wage {hourlyRate}, daily wage {dailyWage}',
+  'audit.total': 'Total',
+  'audit.ruleVersions': 'Applicable rules: {names}',
+  'audit.premiumsExcluded': 'Additional premiums are contractual and are not audited',
+  'audit.conclusion.shortfall': 'Conclusion: the amount paid is below the statutory requirement. Consider raising it with your employer with your attendance records, or filing a complaint with the local labor authority.',
+  'audit.conclusion.partial': 'Conclusion: the total is not underpaid, but some categories are below the statutory amount; check whether your employer offset them against other categories.',
+  'audit.conclusion.ok': 'Conclusion: the amount paid meets the statutory requirement.',
+  'audit.disclaimer': 'This is an estimate based on the hours entered; attendance records and the labor authority\'s determination prevail.',
+
+  // 法規版本與規則包
+  'ruleVersion.notFound': 'Rule version not found: {id}',
+  'ruleVersion.noneForDate': 'No rule version applies on {date}',
+  'rulePack.notFound': 'Jurisdiction rules not found: {id}',
+
+  // 計算步驟
+  'step.hoursSuffix': '{label} ({hours} h)',
+  'step.emergency': 'Emergency overtime {hours} h',
+  'step.partTimeNormal': '{hours} h between the agreed {contractualHours} h and {dailyHours} h paid at the regular wage',
+  'step.premium': 'Eligible hours {hours} h',
+  'step.monthlySurcharge': '{month}: {hours} h beyond {thresholdHours} h',
+  'step.noOvertime': 'No overtime',
+  'step.notWorked': 'Not worked',
+  'step.dayTypeHours': '{dayType}: {hours} h worked:',
+  'step.restDayHourBlock': 'Under {ruleVersion}, {actualHours} h worked counts as {hours} h',
+  'step.partTimeOvertime': '{hours} h beyond {dailyHours} h are overtime:',
+  'step.billingIncrement': 'Billed {increment}: {actualHours} h worked counts as {billedHours} h',
+  'step.multiDay': '{days} days, each calculated separately',
+  'step.datedRange': '{days} days ({range}), calculated by date',
+  'step.ruleVersions': 'Applicable rules: {names}',
+  'step.flexibleScheme': 'Scheduled under {scheme}; hours beyond the day\'s scheduled regular hours count as overtime',
+  'step.clockSplit': ' ({normalHours} h regular, {overtimeHours} h overtime)',
+  'step.clockShiftSegment': ' (part {segmentIndex} of the overnight shift {shiftDate} {shiftClockIn} ~ {shiftClockOut})',
+  'step.clockEntry': '{date} clocked {clockIn} ~ {clockOut}{segment}, {breakHours} h break deducted, {workedHours} h worked{split}',
+  'step.extraNormalTotal': 'Of which {hours} h of part-time work are paid {pay} at the regular wage, not overtime pay',
+  'step.regularDayOffRest': 'Under LSA Article 40, working on a regular day off entitles the employee to 1 day of compensatory rest',
+  'step.compensatoryRest': 'Under LSA Article 40, {days} day(s) of compensatory rest are owed',
+  'step.premiumMissingStartTime': '{count} record(s) have no start time and are excluded from time-window premiums',
+  'step.monthlySurchargeRule': 'Monthly overtime beyond {thresholdHours} h earns an extra {multiplier}× the hourly wage',
+
+  // 計薪方式與類別
+  'payBasis.monthly': 'Monthly salary',
+  'payBasis.daily': 'Daily wage',
+  'payBasis.hourly': 'Hourly wage',
+  'category.premium': 'Premium: {name}',
+  'category.monthlySurcharge': 'Monthly overtime beyond {hours} h',
+
+  // 最低工資
+  'minimumWage.unsupported': 'No minimum wage data for {name}; not checked',
+  'minimumWage.noData': 'No minimum wage data for {date}; not checked',
+  'minimumWage.monthlyBelow': 'Monthly salary {wage} is below the monthly minimum wage of {minimum} effective {effectiveFrom}',
+  'minimumWage.hourlyBelow': 'Derived hourly wage {wage} is below the hourly minimum wage of {minimum} effective {effectiveFrom}',
+  'minimumWage.floorApplied': 'Overtime pay is calculated from the minimum wage of {amount} instead',
+
+  // 輸入檢查
+  'input.invalidWage': '{label}: enter a valid amount',
+  'input.invalidWageComponent': 'Invalid wage component amount: {name}',
+  'input.invalidHours': 'Unrecognised hours "{value}"; enter numbers, separating days with commas, e.g. 9,9,9,9',
+  'input.negativeHours': 'Hours cannot be negative: {value}',
+  'input.exceedsDayHours': 'Hours in one day cannot exceed {limit}: {value}',
+  'input.invalidEntryHours': 'Invalid hours: {date} {hours}',
+  'input.negativeEntryHours': 'Hours on {date} cannot be negative: {hours}',
+  'input.entryExceedsDayHours': '{hours} h on {date} exceeds {limit} h in one day',
+  'input.invalidContractualHours': 'Invalid contractual hours: {date} {hours}',
+  'input.unsupportedDayTypes': '{name} does not support {dayTypes}; choose another day type',
+  'input.formatError': 'Invalid input format',
+  'input.calculationFailed': 'Calculation failed',
+  'input.settingsErrorHint': 'Fix these in Custom rate settings, then calculate again',
+  'input.invalidTargetPay': 'Enter a valid target amount',
+  'input.invalidHourlyRate': 'Enter a valid hourly wage',
+  'input.overtimeRequired': 'Enter overtime hours first',
+
+  // 工時警告
+  'warning.weekdayAttendance': 'Weekday attendance',
+  'warning.dailyAboveRecommended': '{type}: {hours} h in one day may exceed the recommended limit of {limit} h',
+  'warning.dailyAboveStatutory': '{type}: {hours} h in one day exceeds the statutory limit of {limit} h',
+  'warning.inputError': '{type}: invalid input. {message}',
+  'warning.regularDayOffWork': 'Work on a regular day off is only allowed for disasters, incidents or emergencies under LSA Article 40, and compensatory rest must follow',
+  'warning.insufficientBreak': '{date}: worked more than {hours} h in a row with less than {minutes} min of break',
+
+  // 反推計算
+  'solve.hoursBasis': 'Hourly wage {hourlyRate}, {dayType}, under {ruleVersion}',
+  'solve.hoursUnreachable': 'At most {hours} h in one day earns {pay}; {target} cannot be reached exactly in one day',
+  'solve.hoursExact': 'Working {hours} h in one day earns {target}',
+  'solve.hoursRange': 'Working {min} ~ {max} h in one day all earn {target} (hours in this range are counted as a fixed block)',
+  'solve.splitsFound': '{count} combination(s) of up to {maxDays} days in {step} h steps (total within 1 of the target)',
+  'solve.splitsNone': 'No combination of up to {maxDays} days in {step} h steps matches the target',
+  'solve.payFormula': 'Overtime pay = hourly wage × {factor}',
+  'solve.payFormulaWithFixed': 'Overtime pay = hourly wage × {factor} + fixed premiums {fixedPay}',
+  'solve.fixedPayExceeds': 'Fixed premiums already reach {fixedPay}; the wage cannot be derived',
+  'solve.regularPayExceeds': 'After deducting regular allowances of {amount}, no wage reaches the target amount',
+  'solve.roundedHourlyRate': 'Hourly wage ({rule}): {hourlyRate}',
+  'solve.salaryExact': '{label} derived: {amount}',
+  'solve.salaryRange': '{label} from {min} to {max} all give the same hourly wage',
+  'solve.regularPayDeducted': 'Regular allowances of {amount} deducted',
+  'solve.checked': 'Check: {label} {amount} gives overtime pay of {pay}',
+  'solve.closest': 'The target cannot be reached exactly; the closest is {label} {amount} with overtime pay of {pay}',
+
+  // 計算明細表
+  'stepsTable.item': 'Item',
+  'stepsTable.hours': 'Hours',
+  'stepsTable.baseRate': 'Hourly base',
+  'stepsTable.multiplier': 'Multiplier',
+  'stepsTable.subtotal': 'Subtotal',
+
+  // 工時制度設定
+  'schemeEditor.type': 'Working hour scheme',
+  'schemeEditor.startDate': 'Cycle start date',
+  'schemeEditor.limits': 'Regular hours limit: {daily} h per day{weekly}, {cycle} h per cycle, at least {daysOff} days off (enter 0 for a day off).',
+  'schemeEditor.weeklyLimit': ', {hours} h per week',
+  'schemeEditor.entryHint': 'With flexible hours, enter the actual hours worked for dated weekday records.',
+  'schemeEditor.week': 'Week {week}',
+  'schemeEditor.dayHours': 'Day {day} scheduled hours',
+
+  // 級距設定
+  'tierEditor.invalidMultiplier': '{label}: tier {index} multiplier is invalid: {value}',
+  'tierEditor.unbounded': 'and above',
+  'common.hoursUnit': 'h',
+  'tierEditor.upToHours': '{label} tier {index} upper limit',
+  'tierEditor.multiplierPlaceholder': 'e.g. 4/3 or 1.333',
+  'tierEditor.multiplier': '{label} tier {index} multiplier',
+  'tierEditor.remove': 'Remove {label} tier {index}',
+  'tierEditor.add': 'Add tier',
+
+  // 休息時段設定
+  'common.name': 'Name',
+  'common.removeItem': 'Remove {name}',
+  'breakEditor.duplicateName': 'A break named {name} already exists',
+  'breakEditor.namePlaceholder': 'e.g. Dinner',
+  'breakEditor.window': 'Break time',
+  'breakEditor.start': 'Break start',
+  'breakEditor.end': 'Break end',
+  'breakEditor.paidOption': 'Paid break (counts as working time, not deducted)',
+  'breakEditor.add': 'Add break',
+  'breakEditor.paid': 'paid break',
+  'breakEditor.unpaid': 'unpaid break',
+  'breakEditor.ruleSummary': '{start} ~ {end}, {type}',
+  'breakEditor.autoBreakAfter': 'When no break applies, after working (hours)',
+  'breakEditor.autoBreakMinutes': 'Deduct break automatically (minutes)',
+  'breakEditor.statutoryHint': 'Enter 0 hours to disable automatic deduction. LSA Article 35 requires at least {minutes} min of break after {hours} h of continuous work; break minutes entered for a date take precedence.',
+  'breakEditor.dayBoundary': 'Overnight shift day boundary',
+  'breakEditor.dayBoundaryHint': 'Shifts crossing the boundary are split in two; the part after it uses the next day\'s day type',
+
+  // 加給設定
+  'premiumEditor.amountType.rate': 'Hourly wage multiple',
+  'premiumEditor.amountType.flat': 'Fixed amount per hour',
+  'premiumEditor.duplicateName': 'A premium named {name} already exists',
+  'premiumEditor.name': 'Premium name',
+  'premiumEditor.namePlaceholder': 'e.g. Night shift allowance',
+  'premiumEditor.calculation': 'Calculation',
+  'premiumEditor.amountTypeLabel': 'Premium calculation',
+  'premiumEditor.ratePlaceholder': 'e.g. 0.5',
+  'premiumEditor.flatPlaceholder': 'e.g. 50',
+  'premiumEditor.amount': 'Premium multiple or amount',
+  'premiumEditor.useTimeWindow': 'Limit to a time window (requires start times on dated records)',
+  'premiumEditor.windowStart': 'Window start',
+  'premiumEditor.windowEnd': 'Window end',
+  'premiumEditor.dayTypes': 'Applicable days (none checked means all)',
+  'premiumEditor.add': 'Add premium',
+
+  // 工資項目
+  'wageEditor.name': 'Item name',
+  'wageEditor.namePlaceholder': 'e.g. Position allowance',
+  'wageEditor.amount': 'Amount (same basis as {unit})',
+  'wageEditor.amountPlaceholder': 'e.g. 2000',
+  'wageEditor.isRegular': 'Regular allowance',
+  'wageEditor.add': 'Add item',
+  'wageEditor.item': 'Item',
+  'wageEditor.amountColumn': 'Amount',
+  'wageEditor.includedInBase': 'Included in base',
+  'wageEditor.isRegularLabel': 'Is {name} a regular allowance',
+
+  // 補休結算
+  'compLeavePanel.title': 'Compensatory leave',
+  'compLeavePanel.converted': 'Converted',
+  'compLeavePanel.unusedValue': 'Payable if unused: {amount}',
+  'compLeavePanel.used': 'Taken',
+  'compLeavePanel.remaining': 'Remaining',
+  'compLeavePanel.value': 'Worth {amount}',
+  'compLeavePanel.expiredPayout': 'Payable for expired leave',
+  'compLeavePanel.expiredHours': '{hours}h expired unused',
+  'common.date': 'Date',
+  'compLeavePanel.type': 'Type',
+  'compLeavePanel.hours': 'Hours',
+  'compLeavePanel.usedRemaining': 'Taken / remaining',
+  'compLeavePanel.expiry': 'Expires',
+  'compLeavePanel.remainingValue': 'Remaining value',
+  'common.recordIndex': 'Record {index}',
+  'compLeavePanel.noExpiry': 'Not agreed',
+  'compLeavePanel.expired': ' (expired)',
+  'compLeavePanel.empty': 'No records are set to convert to compensatory leave',
+  'compLeavePanel.lawNote': 'Under LSA Article 32-1, compensatory leave not taken by its expiry or by the end of the contract must be paid at the wage rates of the day the overtime or rest day work was performed.',
+
+  // 所得稅與實領估算
+  'netPay.regularPay': 'Taxable salary (excluding overtime)',
+  'netPay.regularPayPlaceholder': 'e.g. 48000',
+  'netPay.withholdingRate': 'Withholding rate (%)',
+  'netPay.withholdingRatePlaceholder': 'e.g. 5',
+  'netPay.withholdingThreshold': 'Withholding threshold',
+  'netPay.withholdingThresholdPlaceholder': 'No withholding below this amount',
+  'netPay.laborInsurancePlaceholder': 'e.g. 1145',
+  'netPay.healthInsurancePlaceholder': 'e.g. 744',
+  'netPay.pensionRate': 'Voluntary pension (%)',
+  'netPay.otherDeductionsPlaceholder': 'e.g. 500',
+  'netPay.title': 'Income tax and take-home pay',
+  'netPay.nonTaxable': 'Tax-exempt overtime pay',
+  'netPay.exemptHours': '{hours}h of overtime',
+  'netPay.taxable': 'Taxable overtime pay',
+  'netPay.taxableHours': '{hours}h above the limit',
+  'netPay.grossPay': 'Gross pay',
+  'netPay.taxableIncome': 'Income subject to withholding',
+  'netPay.netPay': 'Estimated take-home pay',
+  'netPay.lawNote': 'Under Income Tax Act Article 14, overtime pay for up to 46 h per month is tax-exempt; actual withholding and premiums follow your employer\'s filings.',
+
+  // 薪資單稽核面板
+  'auditPanel.title': 'Payslip audit',
+  'auditPanel.hint': 'Enter the overtime amounts paid on your payslip (leave blank if not paid)',
+  'auditPanel.legalPlaceholder': 'Statutory {amount}',
+  'auditPanel.category': 'Category',
+  'auditPanel.legal': 'Statutory',
+  'auditPanel.paid': 'Paid',
+  'auditPanel.difference': 'Difference',
+  'auditPanel.result': 'Result',
+  'auditPanel.empty': 'No overtime items to compare yet',
+  'auditPanel.print': 'Print',
+  'auditPanel.export': 'Export as text',
+  'auditPanel.fileName': 'overtime-audit-{date}.txt',
+
+  // 情境比較
+  'scenario.datedRecords': '{count} dated record(s)',
+  'scenario.noHours': 'No hours entered',
+  'scenario.partSeparator': ' / ',
+  'scenario.defaultName': 'Scenario {index}',
+  'scenario.title': 'Scenario comparison',
+  'scenario.hint': 'Save the current wage, hours and rate settings as a scenario, adjust them and save another to compare amounts by category and in total side by side (the first scenario is the baseline).',
+  'scenario.namePlaceholder': 'Scenario name, e.g. Working 8 h on Saturday',
+  'scenario.add': 'Add current settings',
+  'scenario.summary': '{payBasis} {wage} · {workData}',
+  'scenario.empty': 'No scenarios added yet',
+  'scenario.category': 'Category',
+  'scenario.baseline': 'Baseline',
+  'scenario.hourlyRate': 'Hourly wage',
+
+  // 設定表單
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'settings.rounding.title': 'Rounding rules',
+  'settings.rounding.hint': 'Set how each calculation stage is rounded to match your payroll practice',
+  'settings.rounding.modeLabel': '{stage} rounding method',
+  'settings.rounding.decimalsLabel': '{stage} decimal places',
+  'settings.rounding.noneNote': 'When the total is not rounded, results are still shown to two decimal places.',
+  'settings.billing.title': 'Overtime billing increment',
+  'settings.billing.hint': 'Daily hours are converted to billing increments before the rate tiers are applied',
+  'settings.billing.unit': 'Increment',
+  'settings.billing.minutes': '{minutes} min',
+  'settings.billing.remainder': 'Partial increment',
+  'settings.scheme.title': 'Working-hour scheme',
+  'settings.scheme.hint': 'Under a flexible scheme, overtime is counted against each day\'s scheduled normal hours',
+  'settings.break.title': 'Breaks and day boundary',
+  'settings.break.hint': 'For clocked entries, unpaid breaks are deducted and shifts crossing the day boundary are split into the next day',
+  'settings.premium.title': 'Additional premiums',
+  'settings.premium.hint': 'Agreed allowances such as night shift or on-call pay, calculated separately from statutory overtime',
+  'settings.weekdayRates': '{dayType} overtime rates',
+  'settings.weekdayArticle': '(LSA Article 24, paragraph 1)',
+  'settings.emergency': 'Emergency overtime ({multiplier})',
+  'settings.emergencyPlaceholder': 'e.g. 2 or 2.000',
+  'settings.restDayRates': '{dayType} work rates',
+  'settings.restDayArticle': '(LSA Article 24, paragraph 2)',
+  'settings.holidayRates': 'Holiday work rates',
+  'settings.holidayArticle': '(National holidays, annual leave and regular days off; hours beyond 8 follow the Article 24(1) tiers)',
+  'settings.formatTitle': 'Input format',
+  'settings.formatFractions': 'Supported formats: fractions (4/3, 5/3), decimals (1.333, 1.667) or integers (2, 3)',
+  'settings.formatTiers': 'Each tier runs from the previous tier\'s upper limit to its own; the last tier covers all remaining hours',
+  'settings.resetAll': 'Reset all',
+  'settings.apply': 'Apply settings',
+
+  // 日期紀錄
+  'datedEntry.modeHours': 'Enter hours',
+  'datedEntry.modeClock': 'Clock times',
+  'datedEntry.clockHint': 'A clock-out earlier than the clock-in crosses midnight; time past the {dayBoundary} day boundary counts toward the next day using the "after day boundary" type. After unpaid breaks are deducted, weekday hours beyond normal hours count as overtime and all hours on other day types count as attendance',
+  'datedEntry.dayType': 'Day type',
+  'datedEntry.hours': 'Hours',
+  'datedEntry.hoursPlaceholder': 'e.g. 9',
+  'datedEntry.startTime': 'Start time (optional)',
+  'datedEntry.clockIn': 'Clock in',
+  'datedEntry.clockOut': 'Clock out',
+  'datedEntry.breakMinutes': 'Break minutes (optional)',
+  'datedEntry.breakPlaceholder': 'Per break rules',
+  'datedEntry.nextDayType': 'After day boundary',
+  'datedEntry.sameDayType': 'Same as the day',
+  'datedEntry.contractualHours': 'Contracted hours that day (optional)',
+  'datedEntry.contractualPlaceholder': 'Defaults to settings',
+  'datedEntry.add': 'Add',
+  'datedEntry.startOrClock': 'Start / clock times',
+  'datedEntry.contractualColumn': 'Contracted hours',
+  'datedEntry.compLeave': 'Comp leave',
+  'datedEntry.workedHours': 'Worked {hours} h',
+  'common.hoursValue': '{hours} h',
+  'datedEntry.crossesDay': 'Next day: {dayType}',
+  'datedEntry.compLeaveLabel': 'Comp leave for {date}',
+  'datedEntry.removeLabel': 'Remove the record for {date}',
+  'datedEntry.copyToNextMonth': 'Copy to next month',
+  'datedEntry.empty': 'No dated records yet',
+
+  // 反推計算
+  'reverse.title': 'Reverse calculation',
+  'reverse.hoursTitle': 'Hours from overtime pay',
+  'reverse.targetPay': 'Overtime pay',
+  'reverse.targetPayPlaceholder': 'e.g. 1000',
+  'reverse.hourlyRate': 'Hourly wage',
+  'reverse.hourlyRatePlaceholder': 'e.g. 200',
+  'reverse.dayType': 'Day type',
+  'reverse.solveHours': 'Find hours',
+  'reverse.hoursExact': '{hours} h in one day',
+  'reverse.hoursRange': '{min} – {max} h in one day',
+  'reverse.hoursUnreachable': 'Not reachable in one day',
+  'reverse.split': '{hours} h',
+  'reverse.salaryTitle': '{payBasis} from overtime pay',
+  'reverse.salaryHint': 'Uses the overtime hours, pay basis and wage components entered above',
+  'reverse.totalPay': 'Total overtime pay',
+  'reverse.totalPayPlaceholder': 'e.g. 5000',
+  'reverse.solveSalary': 'Find {payBasis}',
+  'reverse.salaryExact': '{payBasis} {amount}',
+  'reverse.salaryRange': '{payBasis} {min} – {max}',
+  'reverse.salaryUnreachable': 'Cannot be determined',
+
+  // 編輯對話框
+  'dialog.title': 'Edit',
+  'dialog.label': 'Edit dialog',
+  'dialog.formLabel': 'Edit form',
+  'dialog.instructions': 'Edit dialog opened. Use Tab to move between form fields, then save or cancel with the buttons. Press Escape to close the dialog.',
+
+  // 加班費計算器
+  'app.title': 'Labor Standards Act Overtime Pay Calculator',
+  'app.subtitle': 'Accurately calculate overtime pay under Article 24 of the Labor Standards Act',
+  'app.language': 'Language',
+  'app.footerLaw': 'Based on Articles 24, 32, 36, 39 and 40 of the Labor Standards Act',
+  'app.footerDisclaimer': 'Results are for reference only; actual pay follows company policy',
+  'calc.settingsTitle': 'Custom rate settings',
+  'calc.wageHeading': '{payBasis}',
+  'calc.payBasis': 'Pay basis',
+  'calc.payBasisOption': '{payBasis}',
+  'calc.wagePlaceholder': 'Enter {payBasis}',
+  'calc.minimumWageFloor': 'Use the minimum wage as the overtime base when the wage is below it',
+  'calc.wageComponents': 'Other wage components (regular pay counts toward the overtime base)',
+  'calc.wageComponentCount': ' · {count} item(s)',
+  'calc.partTime': 'Part-time (contracted daily hours under 8)',
+  'calc.partTimeHours': ' · {hours} h contracted',
+  'calc.monthlyScheduledHours': 'Average scheduled hours per month',
+  'calc.monthlyScheduledHoursHint': 'The hourly wage is monthly pay divided by the average scheduled monthly hours, currently {hours} h. Enter your employer\'s annual scheduled hours ÷ 12',
+  'calc.contractualHours': 'Contracted daily hours',
+  'calc.contractualHoursPlaceholder': 'e.g. 4',
+  'calc.partTimeHint': 'Enter weekday hours worked beyond the contracted hours; hours up to 8 per day are paid at the regular wage and only hours beyond 8 follow the overtime tiers. Not applicable under a flexible working-hour scheme.',
+  'calc.methodTitle': 'Calculation method',
+  'calc.methodHint': 'Hourly wage rounding (other stages can be changed in settings)',
+  'calc.noCeiling': 'No rounding up',
+  'calc.toggleMethod': 'Toggle calculation method',
+  'calc.ceiling': 'Round up',
+  'calc.currentHourlyRate': 'Current hourly wage:',
+  'calc.currentDailyWage': 'Current daily wage:',
+  'calc.roundingSummaryItem': '{stage}: {rule}',
+  'calc.roundingSummarySeparator': '; ',
+  'calc.comparisonTitle': 'Wage calculation',
+  'calc.showComparison': 'Show comparison',
+  'calc.hideComparison': 'Hide comparison',
+  'calc.inUse': '✓ In use',
+  'calc.notInUse': 'Not in use',
+  'calc.methodCeiling': '{status} - Round up',
+  'calc.methodExact': '{status} - No rounding',
+  'calc.rateSummary': 'Hourly: {hourlyRate} | Daily: {dailyWage}',
+  'calc.modePay': 'Overtime pay',
+  'calc.modeCompLeave': 'Comp leave',
+  'calc.modeAudit': 'Payslip audit',
+  'calc.modeReverse': 'Reverse calculation',
+  'calc.auditHint': 'Calculates the overtime pay due for the hours entered; afterwards, enter the amounts on the payslip to find under- or overpayments.',
+  'calc.reverseHint': 'Work out hours from an overtime amount, or the wage from the hours entered below; when several answers exist, the range or possible hour combinations are listed.',
+  'calc.compLeaveHint': 'Weekday overtime and rest-day work marked "comp leave" in dated records are converted to compensatory leave; with quick input, all of it is converted.',
+  'calc.compLeaveUsed': 'Comp leave hours taken',
+  'calc.compLeaveUsedPlaceholder': 'e.g. 4',
+  'calc.compLeaveAsOf': 'Settlement date',
+  'calc.compLeaveValidity': 'Agreed validity (months)',
+  'calc.compLeaveValidityPlaceholder': 'Defaults to the end of the year',
+  'calc.jurisdiction': 'Jurisdiction',
+  'calc.jurisdictionHint': '{description}. Switching resets the overtime rates to that jurisdiction\'s defaults',
+  'calc.ruleVersion': 'Rule version',
+  'calc.ruleVersionAuto': 'Determine from work dates',
+  'calc.ruleVersionOption': '{name} (from {effectiveFrom})',
+  'calc.ruleVersionAutoHint': 'Dated records use each record\'s date; quick input uses today',
+  'calc.inputQuick': 'Quick input',
+  'calc.inputDated': 'Dated records',
+  'calc.flexibleSchemeNote': '{scheme} in use: enter the actual hours worked on weekdays; hours beyond the scheduled normal hours count as overtime',
+  'calc.datedEmergency': 'Weekday overtime was due to a natural disaster, incident or emergency',
+  'calc.weekdayHours': '{dayType} overtime hours',
+  'calc.weekdayPlaceholder': 'e.g. 3 or 2,3,4',
+  'calc.emergency': 'Natural disaster, incident or emergency',
+  'calc.restDayHours': '{dayType} work hours',
+  'calc.restDayPlaceholder': 'e.g. 6 or 9,9,9,9',
+  'calc.holidayHours': '{dayType} work',
+  'calc.holidayPlaceholder': 'e.g. 8 or 8,8',
+  'calc.regularDayOffHours': '{dayType} work hours',
+  'calc.regularDayOffPlaceholder': 'e.g. 8 (only permitted in emergencies)',
+  'calc.calculate': 'Calculate overtime pay',
+  'calc.reset': 'Reset',
+  'calc.formatTitle': 'Input format',
+  'calc.formatSingle': 'Single value',
+  'calc.formatSingleHint': ': enter a number, e.g.',
+  'calc.formatMultiple': 'Several days',
+  'calc.formatMultipleHint': ': separate with commas, e.g.',
+  'calc.formatDated': 'Dated records',
+  'calc.formatDatedHint': ': enter the date, day type and hours for each record; results are sorted by date',
+  'results.title': 'Results',
+  'results.totalPay': 'Total additional pay',
+  'results.hourlyRounding': 'Hourly wage: {rule}',
+  'results.protectsWorkers': ' (protects workers)',
+  'results.payBasis': 'Pay basis: {payBasis} (hourly {hourlyRate} / daily {dailyWage})',
+  'results.billingIncrement': 'Overtime billing increment: {increment}',
+  'results.ruleVersions': 'Rules applied: {names}',
+  'results.minimumWageCheck': 'Minimum wage check ({date})',
+  'results.monthlyHours': 'Hourly wage = monthly pay ÷ {hours} h',
+  'results.monthlyHoursAssumption': ' (the average scheduled monthly hours are an assumption you can adjust above)',
+  'results.wageBase': 'Overtime pay base',
+  'results.baseAmount': 'Base pay',
+  'results.regularComponent': '{name} (regular pay)',
+  'results.irregularComponent': '{name} (irregular, excluded)',
+  'results.wageBaseTotal': 'Total base',
+  'results.roundingTitle': 'Rounding log',
+  'results.roundingStage': 'Stage',
+  'results.roundingRule': 'Rule',
+  'results.roundingCount': 'Count',
+  'results.roundingDifference': 'Difference',
+  'results.perHour': ' / hour',
+  'results.details': 'Calculation details',
+  'results.compensatoryRestDays': '{days} day(s) of compensatory rest due',
+  'results.dailyBreakdown': 'Daily breakdown:',
+  'results.dayIndex': 'Day {day}',
+  'results.billedHours': ' → billed {hours} h',
+  'results.extraNormalHours': 'Incl. {hours} h at regular pay',
+  'results.shiftSegment': 'Overnight shift {index}/{count} (from {shiftDate})',
+  'results.totalExplanation': 'Overall calculation:',
+  'results.calculationDetails': 'Calculation:',
+  'results.noHours': 'No work hours entered',
+  'results.noHoursHint': 'Enter work hours above and calculate again',
+  'results.limitTitle': 'Working-hour limit check',
+  'results.attention': '⚠️ Note:',
+  'results.consent': 'Approved by the union or labor-management meeting (monthly limit 54 h)',
+  'results.month': 'Month',
+  'results.weekdayOvertime': 'Weekday overtime',
+  'results.restDay': 'Rest day',
+  'results.holidayOvertime': 'Holiday overtime',
+  'results.totalAndLimit': 'Total / limit',
+  'results.quarterTotal': 'Three-month total',
+  'results.remaining': '{monthly} h of overtime left this month and {quarterly} h in the three-month period',
+  'results.ruleDailyLimit': 'Daily working hours (including overtime) may not exceed {hours}',
+  'results.ruleMonthlyLimit': 'Monthly overtime may not exceed {monthly} hours ({monthlyWithConsent} hours with {consentLabel})',
+  'results.ruleQuarterlyLimit': 'Overtime may not exceed {quarterly} hours in any three months',
+  'results.ruleQuarterlyLimitWithConsent': 'Overtime may not exceed {quarterly} hours in any three months ({quarterlyWithConsent} hours with {consentLabel})',
+  'results.ruleRestDay': '{dayType} work counts toward monthly overtime',
+  'results.ruleHolidayExcess': '{dayTypes} hours beyond 8 count toward monthly overtime',
+};
+
+// 規則包的英文名稱及說明，依法域代碼對應
+export const enUSRulePacks: Record<JurisdictionId, RulePackTranslation> = {
+  TW: {
+    name: 'Taiwan Labor Standards Act',
+    description: 'Hourly wage = monthly salary ÷ 30 ÷ 8; overtime pay follows the tiers of LSA Articles 24 and 39',
+    dayTypeLabels: {
+      weekday: 'Weekday',
+      restDay: 'Rest day',
+      holiday: 'Holiday / annual leave',
+      regularDayOff: 'Regular day off'
+    },
+    categoryLabels: {
+      平日加班: 'Weekday overtime',
+      休息日工作: 'Rest day work',
+      假日出勤: 'Holiday work',
+      例假出勤: 'Regular day off work'
+    },
+    overtimeLimits: {
+      consentLabel: 'the consent of the union or labor-management meeting',
+      overLimitSuggestion: 'Move the hours above the limit to another month, or grant compensatory leave under Article 32-1',
+      emergencyNote: 'Overtime for natural disasters, incidents or emergencies is not subject to the limits, but the union or local authority must be notified within 24 hours of it starting'
+    },
+    ruleVersions: {
+      'LSA-2016': {
+        name: 'Before 2016',
+        description: 'No separate rest day; rest day work is paid at weekday overtime rates'
+      },
+      'LSA-2017': {
+        name: '2017 "one fixed day off, one flexible rest day"',
+        description: 'Rest day work up to 4 h counts as 4 h, over 4 to 8 h as 8 h, over 8 to 12 h as 12 h'
+      },
+      'LSA-2018': {
+        name: '2018 amendment (current)',
+        description: 'Rest day work is paid for the actual hours worked'
+      }
+    },
+    statutoryPremiumNames: {}
+  },
+  JP: {
+    name: 'Japan Labor Standards Act',
+    description: 'Hourly wage = monthly salary ÷ average scheduled monthly hours; 25% for overtime, 35% for statutory holidays, 25% for late-night work, and 50% for monthly overtime beyond 60 h',
+    dayTypeLabels: {
+      weekday: 'Weekday',
+      restDay: 'Scheduled day off',
+      holiday: 'Statutory holiday',
+      regularDayOff: 'Regular day off'
+    },
+    categoryLabels: {
+      平日加班: 'Overtime work',
+      休息日工作: 'Scheduled day off work',
+      假日出勤: 'Statutory holiday work',
+      例假出勤: 'Regular day off work'
+    },
+    overtimeLimits: {
+      consentLabel: 'a special clause in the Article 36 agreement',
+      overLimitSuggestion: 'Move the hours above the limit to another month, or check how many times the special clause of the Article 36 agreement may apply',
+      emergencyNote: 'Overtime needed for disasters or similar emergencies requires prior permission or a report to the Labor Standards Inspection Office afterwards'
+    },
+    ruleVersions: {
+      'JP-LSA': {
+        name: 'Japan Labor Standards Act Article 37',
+        description: '50% premium for monthly overtime beyond 60 h; applies to small and medium enterprises from April 2023'
+      }
+    },
+    statutoryPremiumNames: {
+      'jp-late-night': 'Late-night work'
+    }
+  }
+};
@@ -0,0 +1,574 @@
+// ===== 繁體中文訊息 =====
+// 訊息中的 {name} 於顯示時代入參數
+
+export const zhTW = {
+  // 共用
+  'common.listSeparator': '、',
+
+  // 數值與日期
+  'fraction.zeroDenominator': '分母不可為 0',
+  'fraction.nonInteger': '分子與分母須為整數: {value}',
+  'fraction.invalidNumber': '無效的數值: {value}',
+  'fraction.divideByZero': '除數不可為 0',
+  'date.invalidDate': '無效的日期: {date}',
+  'date.invalidMonth': '無效的月份: {month}',
+
+  // 捨入規則與計算單位
+  'rounding.stage.hourlyRate': '時薪／日薪',
+  'rounding.stage.segment': '各級距金額',
+  'rounding.stage.daily': '每日金額',
+  'rounding.stage.total': '總額',
+  'rounding.strategy.none': '不捨入',
+  'rounding.strategy.halfUp': '四捨五入',
+  'rounding.strategy.ceil': '無條件進位',
+  'rounding.strategy.floor': '無條件捨去',
+  'rounding.unitInteger': '整數元',
+  'rounding.unitDecimals': '小數{decimals}位',
+  'rounding.rule': '{strategy}至{unit}',
+  'billing.mode.floor': '未滿一單位不計',
+  'billing.mode.ceil': '未滿一單位以一單位計',
+  'billing.mode.nearest': '滿半單位以一單位計',
+  'billing.actualHours': '依實際時數',
+  'billing.increment': '每{minutes}分鐘（{mode}）',
+
+  // 補休
+  'compLeave.summary': '換取補休共 {totalHours} 小時，已休 {usedHours} 小時',
+  'compLeave.allocationOrder': '已休時數依補休期限先到期者優先扣抵',
+  'compLeave.unallocated': '已休時數超過可補休時數 {hours} 小時，超出部分未計入',
+  'compLeave.expired': '逾期未休 {hours} 小時，應依原加班費標準發給工資',
+
+  // 打卡與休息時段
+  'clock.lunchBreak': '午休',
+  'clock.breakNameRequired': '請輸入休息時段名稱',
+  'clock.invalidWindowFormat': '{name} 的時段格式應為 HH:MM',
+  'clock.windowSameStartEnd': '{name} 的時段開始與結束不可相同',
+  'clock.missingClockTimes': '{date} 請同時填寫上班與下班時間',
+  'clock.invalidClockTimes': '{date} 的打卡時間無效: {clockIn} ~ {clockOut}',
+  'clock.invalidBreakMinutes': '{date} 的休息分鐘數無效: {breakMinutes}',
+
+  // 時段加給
+  'premium.nameRequired': '請輸入加給名稱',
+  'premium.amountPositive': '{name} 的加給金額或倍率必須大於 0',
+  'premium.allDayTypes': '全部工作日',
+  'premium.rateAmount': '每小時加給時薪 × {amount}',
+  'premium.flatAmount': '每小時 {amount} 元',
+  'premium.description': '{dayTypes}{window}，{amount}',
+
+  // 加班級距
+  'tier.multiplier.fourThirds': '1又1/3倍 (4/3)',
+  'tier.multiplier.fiveThirds': '1又2/3倍 (5/3)',
+  'tier.multiplier.eightThirds': '2又2/3倍 (8/3)',
+  'tier.multiplier.other': '{multiplier}倍',
+  'tier.range.all': '全部時數',
+  'tier.range.above': '超過{lowerHours}小時部分',
+  'tier.range.first': '前{upToHours}小時',
+  'tier.range.between': '{lowerHours}-{upToHours}小時',
+  'tier.error.empty': '{label}至少需有一個級距',
+  'tier.error.multiplier': '{label}第{index}級的倍率必須大於 0',
+  'tier.error.unboundedNotLast': '{label}僅最後一級可不設上限',
+  'tier.error.lastBounded': '{label}最後一級不可設上限，超過的時數將無法計算',
+  'tier.error.upperBound': '{label}第{index}級的上限須大於 {lowerHours} 小時',
+
+  // 工時制度
+  'scheme.standard.label': '一般工時',
+  'scheme.twoWeek.label': '二週變形工時',
+  'scheme.fourWeek.label': '四週變形工時',
+  'scheme.eightWeek.label': '八週變形工時',
+  'scheme.standard.article': '第30條第1項',
+  'scheme.twoWeek.article': '第30條第2項',
+  'scheme.fourWeek.article': '第30條之1',
+  'scheme.eightWeek.article': '第30條第3項',
+  'scheme.labelWithArticle': '{label}（{article}）',
+  'scheme.error.startDate': '{label}週期起算日無效: {startDate}',
+  'scheme.error.cycleDays': '{label}排班應為 {cycleDays} 日，目前為 {days} 日',
+  'scheme.error.invalidDay': '第{day}日排定工時無效: {hours}',
+  'scheme.error.dailyLimit': '第{day}日排定 {hours} 小時，超過{label}每日正常工時上限 {limit} 小時',
+  'scheme.error.weeklyLimit': '第{week}週排定 {hours} 小時，超過{label}每週正常工時上限 {limit} 小時',
+  'scheme.error.cycleLimit': '週期內排定 {hours} 小時，超過{label}正常工時總數上限 {limit} 小時',
+  'scheme.error.daysOff': '週期內排休 {daysOff} 日，少於{label}例假及休息日 {minDaysOff} 日',
+
+  // 延長工時上限
+  'limit.currentPeriod': '本期',
+  'limit.monthlyExceeded': '{label} 延長工時 {hours} 小時，超過每月上限 {limit} 小時',
+  'limit.quarterlyExceeded': '{label} 含前兩個月延長工時共 {hours} 小時，超過每三個月上限 {limit} 小時',
+  'limit.consentSuggestion': '{label} 若{consentLabel}，單月上限可放寬至 {monthlyLimit} 小時（每三個月仍不得超過 {quarterlyLimit} 小時）',
+  'limit.remainingHours': '{label} 僅剩 {hours} 小時可延長工時，請留意後續排班',
+
+  // 所得稅與實領
+  'tax.exemptHours': '每月延長工時 {monthlyHours} 小時內之加班費免稅，共 {hours} 小時',
+  'tax.taxableHours': '超過免稅上限 {hours} 小時，其加班費併入薪資所得課稅',
+  'tax.holidayPay': '國定假日／例假出勤8小時內之工資 {amount} 屬加倍發給之工資，併入薪資所得課稅',
+  'deduction.withholdingTax': '薪資扣繳稅額',
+  'deduction.laborInsurance': '勞保自付額',
+  'deduction.healthInsurance': '健保自付額',
+  'deduction.pension': '勞退自提',
+  'deduction.other': '其他扣款',
+
+  // 薪資單稽核
+  'audit.status.shortfall': '短發',
+  'audit.status.overpaid': '溢發',
+  'audit.status.match': '相符',
+  'audit.amountMatches': '金額相符',
+  'audit.difference': '{status} {amount}',
+  'audit.line': '{label}：依法應發 {legal}，實發 {paid}，{result}',
+  'audit.title': '加班費薪資單稽核',
+  'audit.basis': '計算基礎：時薪 {hourlyRate}、日薪 {dailyWage}',
+  'audit.total': '合計',
+  'audit.ruleVersions': '適用法規：{names}',
+  'audit.premiumsExcluded': '額外加給屬約定事項，未列入比對',
+  'audit.conclusion.shortfall': '結論：實發金額低於勞基法第24條、第39條規定，建議檢附出勤紀錄與雇主確認，或向當地勞工主管機關申訴。',
+  'audit.conclusion.partial': '結論：合計未短發，但部分類別低於法定金額，請確認雇主是否以其他類別抵充。',
+  'audit.conclusion.ok': '結論：實發金額不低於法定標準。',
+  'audit.disclaimer': '本結果依輸入的工時試算，實際仍以出勤紀錄及主管機關認定為準。',
+
+  // 法規版本與規則包
+  'ruleVersion.notFound': '找不到法規版本: {id}',
+  'ruleVersion.noneForDate': '{date} 無適用的法規版本',
+  'rulePack.notFound': '找不到法域規則: {id}',
+
+  // 計算步驟
+  'step.hoursSuffix': '{label} {hours} 小時',
+  'step.emergency': '天災事變加班 {hours} 小時',
+  'step.partTimeNormal': '部分工時約定 {contractualHours} 小時，延長至 {dailyHours} 小時內之 {hours} 小時以平日工資計',
+  'step.premium': '適用時數 {hours} 小時',
+  'step.monthlySurcharge': '{month} 超過 {thresholdHours} 小時部分 {hours} 小時',
+  'step.noOvertime': '無加班',
+  'step.notWorked': '未出勤',
+  'step.dayTypeHours': '{dayType}出勤 {hours} 小時：',
+  'step.restDayHourBlock': '依{ruleVersion}規定，實際工作 {actualHours} 小時以 {hours} 小時計',
+  'step.partTimeOvertime': '超過 {dailyHours} 小時之 {hours} 小時為延長工時：',
+  'step.billingIncrement': '依計算單位{increment}，實際 {actualHours} 小時以 {billedHours} 小時計',
+  'step.multiDay': '共{days}天，每天分別計算',
+  'step.datedRange': '共{days}天（{range}），依日期分別計算',
+  'step.ruleVersions': '適用法規：{names}',
+  'step.flexibleScheme': '依{scheme}排班，出勤時數超過當日排定正常工時的部分計為延長工時',
+  'step.clockSplit': '（正常工時 {normalHours} 小時、延長 {overtimeHours} 小時）',
+  'step.clockShiftSegment': '（{shiftDate} {shiftClockIn} ~ {shiftClockOut} 跨日班次第{segmentIndex}段）',
+  'step.clockEntry': '{date} 打卡 {clockIn} ~ {clockOut}{segment}，扣除休息 {breakHours} 小時，工作 {workedHours} 小時{split}',
+  'step.extraNormalTotal': '其中部分工時 {hours} 小時以平日工資計 {pay}，非加班費',
+  'step.regularDayOffRest': '依勞基法第40條，例假出勤應於事後補假休息 1 日',
+  'step.compensatoryRest': '依勞基法第40條，應於事後補假休息共 {days} 日',
+  'step.premiumMissingStartTime': '{count} 筆紀錄未填開始時間，未計入時段加給',
+  'step.monthlySurchargeRule': '每月延長工時超過 {thresholdHours} 小時部分，另加 {multiplier} 倍時薪',
+
+  // 計薪方式與類別
+  'payBasis.monthly': '月薪',
+  'payBasis.daily': '日薪',
+  'payBasis.hourly': '時薪',
+  'category.premium': '加給：{name}',
+  'category.monthlySurcharge': '月延長工時超過{hours}小時',
+
+  // 最低工資
+  'minimumWage.unsupported': '{name}未內建最低工資資料，未進行檢查',
+  'minimumWage.noData': '{date} 無最低工資資料，未進行檢查',
+  'minimumWage.monthlyBelow': '月薪 {wage} 低於 {effectiveFrom} 起之每月最低工資 {minimum}',
+  'minimumWage.hourlyBelow': '換算時薪 {wage} 低於 {effectiveFrom} 起之每小時最低工資 {minimum}',
+  'minimumWage.floorApplied': '已改以最低工資 {amount} 作為加班費計算基礎',
+
+  // 輸入檢查
+  'input.invalidWage': '請輸入有效的{label}',
+  'input.invalidWageComponent': '無效的工資項目金額: {name}',
+  'input.invalidHours': '無法辨識的時數「{value}」，請輸入數字，多天以逗號分隔，例如 9,9,9,9',
+  'input.negativeHours': '時數不可為負數: {value}',
+  'input.exceedsDayHours': '單日時數不可超過 {limit} 小時: {value}',
+  'input.invalidEntryHours': '無效的時數: {date} {hours}',
+  'input.negativeEntryHours': '{date} 的時數不可為負數: {hours}',
+  'input.entryExceedsDayHours': '{date} 的時數 {hours} 超過單日 {limit} 小時',
+  'input.invalidContractualHours': '無效的約定工時: {date} {hours}',
+  'input.unsupportedDayTypes': '{name}不適用{dayTypes}，請改選其他工作日類型',
+  'input.formatError': '輸入格式錯誤',
+  'input.calculationFailed': '計算發生錯誤',
+  'input.settingsErrorHint': '請點選「自訂倍率設定」修正上述設定後重新計算',
+  'input.invalidTargetPay': '請輸入有效的目標金額',
+  'input.invalidHourlyRate': '請輸入有效的時薪',
+  'input.overtimeRequired': '請先輸入加班時數',
+
+  // 工時警告
+  'warning.weekdayAttendance': '平日出勤',
+  'warning.dailyAboveRecommended': '{type}單日工作時數 {hours} 小時可能超過建議上限 {limit} 小時',
+  'warning.dailyAboveStatutory': '{type}單日工作時數 {hours} 小時超過法定上限 {limit} 小時',
+  'warning.inputError': '{type}輸入格式錯誤 {message}',
+  'warning.regularDayOffWork': '例假出勤僅限勞基法第40條天災、事變或突發事件，並應於事後補假休息',
+  'warning.insufficientBreak': '{date} 連續工作超過 {hours} 小時，休息未達 {minutes} 分鐘',
+
+  // 反推計算
+  'solve.hoursBasis': '時薪 {hourlyRate}，{dayType}，適用 {ruleVersion}',
+  'solve.hoursUnreachable': '單日最多 {hours} 小時可得 {pay}，單日無法恰好達到 {target}',
+  'solve.hoursExact': '單日工作 {hours} 小時可得 {target}',
+  'solve.hoursRange': '單日工作 {min} ~ {max} 小時皆為 {target}（此區間以固定時數計算）',
+  'solve.splitsFound': '以每日 {step} 小時為單位拆分為 {maxDays} 天以內，共 {count} 種組合（合計與目標相差未滿1元）',
+  'solve.splitsNone': '以每日 {step} 小時為單位，{maxDays} 天以內沒有合計相符的拆分組合',
+  'solve.payFormula': '加班費 = 時薪 × {factor}',
+  'solve.payFormulaWithFixed': '加班費 = 時薪 × {factor} + 固定加給 {fixedPay}',
+  'solve.fixedPayExceeds': '固定加給已達 {fixedPay}，無法反推工資',
+  'solve.regularPayExceeds': '扣除經常性給與 {amount} 後，工資不足以達到目標金額',
+  'solve.roundedHourlyRate': '時薪{rule}為 {hourlyRate}',
+  'solve.salaryExact': '反推{label}為 {amount}',
+  'solve.salaryRange': '{label} {min} ~ {max} 皆換算為相同時薪',
+  'solve.regularPayDeducted': '已扣除經常性給與 {amount}',
+  'solve.checked': '以{label} {amount} 驗算，加班費為 {pay}',
+  'solve.closest': '目標金額無法恰好達成，以{label} {amount} 計算最接近，加班費為 {pay}',
+
+  // 計算明細表
+  'stepsTable.item': '項目',
+  'stepsTable.hours': '時數',
+  'stepsTable.baseRate': '每小時基準',
+  'stepsTable.multiplier': '倍率',
+  'stepsTable.subtotal': '小計',
+
+  // 工時制度設定
+  'schemeEditor.type': '工時制度',
+  'schemeEditor.startDate': '週期起算日',
+  'schemeEditor.limits': '每日正常工時上限 {daily} 小時{weekly}、週期合計 {cycle} 小時、例假及休息日至少 {daysOff} 日（填 0 表示排休）。',
+  'schemeEditor.weeklyLimit': '、每週 {hours} 小時',
+  'schemeEditor.entryHint': '採用變形工時後，日期制的平日紀錄請填當日實際工作時數。',
+  'schemeEditor.week': '第{week}週',
+  'schemeEditor.dayHours': '第{day}日排定工時',
+
+  // 級距設定
+  'tierEditor.invalidMultiplier': '{label}第{index}級的倍率格式無效: {value}',
+  'tierEditor.unbounded': '以上',
+  'common.hoursUnit': '小時',
+  'tierEditor.upToHours': '{label}第{index}級上限時數',
+  'tierEditor.multiplierPlaceholder': '例如: 4/3 或 1.333',
+  'tierEditor.multiplier': '{label}第{index}級倍率',
+  'tierEditor.remove': '刪除{label}第{index}級',
+  'tierEditor.add': '新增級距',
+
+  // 休息時段設定
+  'common.name': '名稱',
+  'common.removeItem': '刪除 {name}',
+  'breakEditor.duplicateName': '已有名為 {name} 的休息時段',
+  'breakEditor.namePlaceholder': '例如: 晚餐',
+  'breakEditor.window': '休息時段',
+  'breakEditor.start': '休息開始',
+  'breakEditor.end': '休息結束',
+  'breakEditor.paidOption': '有薪休息（計入工時，不扣除）',
+  'breakEditor.add': '新增休息時段',
+  'breakEditor.paid': '有薪休息',
+  'breakEditor.unpaid': '無薪休息',
+  'breakEditor.ruleSummary': '{start} ~ {end}，{type}',
+  'breakEditor.autoBreakAfter': '未涵蓋休息時段時，出勤滿（小時）',
+  'breakEditor.autoBreakMinutes': '自動扣除休息（分鐘）',
+  'breakEditor.statutoryHint': '出勤時數填 0 表示不自動扣除。勞基法第35條規定繼續工作 {hours} 小時，至少應有 {minutes} 分鐘之休息；個別日期填寫休息分鐘數時，以該筆為準。',
+  'breakEditor.dayBoundary': '跨日班次日界',
+  'breakEditor.dayBoundaryHint': '班次跨越日界時拆成兩段，日界後的時段依次日的工作日類型計算',
+
+  // 加給設定
+  'premiumEditor.amountType.rate': '時薪倍率',
+  'premiumEditor.amountType.flat': '每小時固定金額',
+  'premiumEditor.duplicateName': '已有名為 {name} 的加給',
+  'premiumEditor.name': '加給名稱',
+  'premiumEditor.namePlaceholder': '例如: 夜班津貼',
+  'premiumEditor.calculation': '計算方式',
+  'premiumEditor.amountTypeLabel': '加給計算方式',
+  'premiumEditor.ratePlaceholder': '例如: 0.5',
+  'premiumEditor.flatPlaceholder': '例如: 50',
+  'premiumEditor.amount': '加給倍率或金額',
+  'premiumEditor.useTimeWindow': '限定時段（需於日期制紀錄填寫開始時間）',
+  'premiumEditor.windowStart': '時段開始',
+  'premiumEditor.windowEnd': '時段結束',
+  'premiumEditor.dayTypes': '適用工作日（未勾選表示全部）',
+  'premiumEditor.add': '新增加給',
+
+  // 工資項目
+  'wageEditor.name': '項目名稱',
+  'wageEditor.namePlaceholder': '例如: 職務加給',
+  'wageEditor.amount': '金額（同{unit}單位）',
+  'wageEditor.amountPlaceholder': '例如: 2000',
+  'wageEditor.isRegular': '經常性給與',
+  'wageEditor.add': '新增項目',
+  'wageEditor.item': '項目',
+  'wageEditor.amountColumn': '金額',
+  'wageEditor.includedInBase': '計入計算基礎',
+  'wageEditor.isRegularLabel': '{name} 是否為經常性給與',
+
+  // 補休結算
+  'compLeavePanel.title': '補休結算',
+  'compLeavePanel.converted': '換取補休',
+  'compLeavePanel.unusedValue': '未休應發 {amount}',
+  'compLeavePanel.used': '已休',
+  'compLeavePanel.remaining': '剩餘',
+  'compLeavePanel.value': '價值 {amount}',
+  'compLeavePanel.expiredPayout': '逾期應發工資',
+  'compLeavePanel.expiredHours': '逾期未休 {hours}h',
+  'common.date': '日期',
+  'compLeavePanel.type': '類型',
+  'compLeavePanel.hours': '時數',
+  'compLeavePanel.usedRemaining': '已休 / 剩餘',
+  'compLeavePanel.expiry': '補休期限',
+  'compLeavePanel.remainingValue': '剩餘價值',
+  'common.recordIndex': '第{index}筆',
+  'compLeavePanel.noExpiry': '未約定',
+  'compLeavePanel.expired': ' (已逾期)',
+  'compLeavePanel.empty': '尚無選擇換補休的工作紀錄',
+  'compLeavePanel.lawNote': '依勞基法第32條之1，補休期限屆期或契約終止未休之時數，應依延長工作時間或休息日工作當日之工資計算標準發給工資。',
+
+  // 所得稅與實領估算
+  'netPay.regularPay': '應稅薪資（不含加班費）',
+  'netPay.regularPayPlaceholder': '例如: 48000',
+  'netPay.withholdingRate': '扣繳率 (%)',
+  'netPay.withholdingRatePlaceholder': '例如: 5',
+  'netPay.withholdingThreshold': '免扣繳門檻',
+  'netPay.withholdingThresholdPlaceholder': '未達此金額免扣繳',
+  'netPay.laborInsurancePlaceholder': '例如: 1145',
+  'netPay.healthInsurancePlaceholder': '例如: 744',
+  'netPay.pensionRate': '勞退自提 (%)',
+  'netPay.otherDeductionsPlaceholder': '例如: 500',
+  'netPay.title': '所得稅與實領估算',
+  'netPay.nonTaxable': '免稅加班費',
+  'netPay.exemptHours': '延長工時 {hours}h',
+  'netPay.taxable': '應稅加班費',
+  'netPay.taxableHours': '超過上限 {hours}h',
+  'netPay.grossPay': '應發合計',
+  'netPay.taxableIncome': '扣繳所得',
+  'netPay.netPay': '估計實領',
+  'netPay.lawNote': '依所得稅法第14條，每月延長工作時間46小時內之加班費免納所得稅；實際扣繳稅額與保費以雇主申報為準。',
+
+  // 薪資單稽核面板
+  'auditPanel.title': '薪資單稽核',
+  'auditPanel.hint': '請輸入薪資單上各類加班費的實發金額（未發給可留空）',
+  'auditPanel.legalPlaceholder': '應發 {amount}',
+  'auditPanel.category': '類別',
+  'auditPanel.legal': '依法應發',
+  'auditPanel.paid': '實發',
+  'auditPanel.difference': '差額',
+  'auditPanel.result': '結果',
+  'auditPanel.empty': '尚無可比對的加班費項目',
+  'auditPanel.print': '列印',
+  'auditPanel.export': '匯出文字檔',
+  'auditPanel.fileName': '加班費稽核-{date}.txt',
+
+  // 情境比較
+  'scenario.datedRecords': '日期紀錄 {count} 筆',
+  'scenario.noHours': '未輸入工時',
+  'scenario.partSeparator': '／',
+  'scenario.defaultName': '情境 {index}',
+  'scenario.title': '情境比較',
+  'scenario.hint': '將目前的工資、工時及倍率設定存為情境，調整後再存一個，即可並列比較各類別金額與總額差異（以第一個情境為基準）。',
+  'scenario.namePlaceholder': '情境名稱，例如: 週六上班8小時',
+  'scenario.add': '加入目前設定',
+  'scenario.summary': '{payBasis} {wage}・{workData}',
+  'scenario.empty': '尚未加入任何情境',
+  'scenario.category': '類別',
+  'scenario.baseline': '基準',
+  'scenario.hourlyRate': '時薪',
+
+  // 設定表單
+  'common.cancel': '取消',
+  'common.save': '保存',
+  'settings.rounding.title': '捨入規則設定',
+  'settings.rounding.hint': '依公司薪資作業，分別設定各計算階段的捨入方式',
+  'settings.rounding.modeLabel': '{stage}捨入方式',
+  'settings.rounding.decimalsLabel': '{stage}保留位數',
+  'settings.rounding.noneNote': '總額選擇「不捨入」時，結果仍以元以下二位顯示。',
+  'settings.billing.title': '加班時數計算單位',
+  'settings.billing.hint': '每日工作時數先依計算單位換算，再分段計算倍率',
+  'settings.billing.unit': '計算單位',
+  'settings.billing.minutes': '{minutes} 分鐘',
+  'settings.billing.remainder': '未滿一單位',
+  'settings.scheme.title': '工時制度',
+  'settings.scheme.hint': '採用變形工時時，依每日排定正常工時計算延長工時',
+  'settings.break.title': '休息時間與日界',
+  'settings.break.hint': '以打卡時間輸入時，自出勤時數扣除無薪休息，跨越日界的班次拆至次日計算',
+  'settings.premium.title': '額外加給',
+  'settings.premium.hint': '夜班、待命等約定津貼，於法定加班費之外分項計算',
+  'settings.weekdayRates': '{dayType}加班倍率',
+  'settings.weekdayArticle': '（勞基法第24條第1項）',
+  'settings.emergency': '天災事變（{multiplier}）',
+  'settings.emergencyPlaceholder': '例如: 2 或 2.000',
+  'settings.restDayRates': '{dayType}工作倍率',
+  'settings.restDayArticle': '（勞基法第24條第2項）',
+  'settings.holidayRates': '假日出勤倍率',
+  'settings.holidayArticle': '（國定假日/特休與例假，超過8小時部分依第24條第1項級距）',
+  'settings.formatTitle': '輸入格式說明',
+  'settings.formatFractions': '支援格式：分數 (4/3、5/3)、小數 (1.333、1.667) 或整數 (2、3)',
+  'settings.formatTiers': '每一級距自上一級的上限起算至本級上限，最後一級適用其餘所有時數',
+  'settings.resetAll': '重置全部',
+  'settings.apply': '套用設定',
+
+  // 日期紀錄
+  'datedEntry.modeHours': '填寫時數',
+  'datedEntry.modeClock': '打卡時間',
+  'datedEntry.clockHint': '下班早於上班表示跨日，超過日界 {dayBoundary} 的時段依「跨日後類型」計入次日；依設定扣除無薪休息後，平日超過正常工時的部分計為加班，其餘工作日全數計入出勤時數',
+  'datedEntry.dayType': '類型',
+  'datedEntry.hours': '時數',
+  'datedEntry.hoursPlaceholder': '例如: 9',
+  'datedEntry.startTime': '開始時間（選填）',
+  'datedEntry.clockIn': '上班',
+  'datedEntry.clockOut': '下班',
+  'datedEntry.breakMinutes': '休息分鐘（選填）',
+  'datedEntry.breakPlaceholder': '依休息時段',
+  'datedEntry.nextDayType': '跨日後類型',
+  'datedEntry.sameDayType': '同當日',
+  'datedEntry.contractualHours': '當日約定工時（選填）',
+  'datedEntry.contractualPlaceholder': '預設同設定',
+  'datedEntry.add': '新增',
+  'datedEntry.startOrClock': '開始時間／打卡',
+  'datedEntry.contractualColumn': '約定工時',
+  'datedEntry.compLeave': '換補休',
+  'datedEntry.workedHours': '出勤 {hours}h',
+  'common.hoursValue': '{hours}h',
+  'datedEntry.crossesDay': '跨日：{dayType}',
+  'datedEntry.compLeaveLabel': '{date} 換補休',
+  'datedEntry.removeLabel': '刪除 {date} 紀錄',
+  'datedEntry.copyToNextMonth': '套用至下個月',
+  'datedEntry.empty': '尚未新增任何日期紀錄',
+
+  // 反推計算
+  'reverse.title': '反推計算',
+  'reverse.hoursTitle': '由加班費反推工作時數',
+  'reverse.targetPay': '加班費金額',
+  'reverse.targetPayPlaceholder': '例如: 1000',
+  'reverse.hourlyRate': '時薪',
+  'reverse.hourlyRatePlaceholder': '例如: 200',
+  'reverse.dayType': '工作日類型',
+  'reverse.solveHours': '反推時數',
+  'reverse.hoursExact': '單日 {hours} 小時',
+  'reverse.hoursRange': '單日 {min} ~ {max} 小時',
+  'reverse.hoursUnreachable': '單日無法達到',
+  'reverse.split': '{hours} 小時',
+  'reverse.salaryTitle': '由加班費反推{payBasis}',
+  'reverse.salaryHint': '依上方輸入的加班時數、計薪方式及工資項目計算',
+  'reverse.totalPay': '加班費合計',
+  'reverse.totalPayPlaceholder': '例如: 5000',
+  'reverse.solveSalary': '反推{payBasis}',
+  'reverse.salaryExact': '{payBasis} {amount}',
+  'reverse.salaryRange': '{payBasis} {min} ~ {max}',
+  'reverse.salaryUnreachable': '無法反推',
+
+  // 編輯對話框
+  'dialog.title': '編輯資料',
+  'dialog.label': '編輯對話框',
+  'dialog.formLabel': '編輯表單',
+  'dialog.instructions': '編輯對話框已開啟。使用 Tab 鍵在表單欄位間移動，填寫完成後可使用按鈕儲存或取消，按 Escape 鍵關閉對話框。',
+
+  // 加班費計算器
+  'app.title': '勞動基準法加班費計算系統',
+  'app.subtitle': '根據勞基法第24條規定，準確計算各種加班費用',
+  'app.language': '語言',
+  'app.footerLaw': '本計算器依據《勞動基準法》第24條、第32條、第36條、第39條、第40條規定製作',
+  'app.footerDisclaimer': '計算結果僅供參考，實際薪資以公司規定為準',
+  'calc.settingsTitle': '自訂倍率設定',
+  'calc.wageHeading': '{payBasis}設定',
+  'calc.payBasis': '計薪方式',
+  'calc.payBasisOption': '{payBasis}制',
+  'calc.wagePlaceholder': '請輸入{payBasis}',
+  'calc.minimumWageFloor': '低於最低工資時，改以最低工資計算加班費',
+  'calc.wageComponents': '其他工資項目（經常性給與計入加班費計算基礎）',
+  'calc.wageComponentCount': ' · {count} 項',
+  'calc.partTime': '部分工時（每日約定工時未滿8小時）',
+  'calc.partTimeHours': ' · 約定 {hours} 小時',
+  'calc.monthlyScheduledHours': '每月平均所定勞動時數',
+  'calc.monthlyScheduledHoursHint': '月薪除以每月平均所定勞動時數換算時薪，目前採用 {hours} 小時；請依公司的年間所定勞動時數 ÷ 12 填寫',
+  'calc.contractualHours': '每日約定工時',
+  'calc.contractualHoursPlaceholder': '例如: 4',
+  'calc.partTimeHint': '平日時數請填約定工時結束後的延長時數；延長至8小時內的部分以平日工資計，超過8小時才依加班費級距計算。採用變形工時時不適用。',
+  'calc.methodTitle': '計算方式設定',
+  'calc.methodHint': '時薪捨入方式（其他階段可於設定中調整）',
+  'calc.noCeiling': '不進位',
+  'calc.toggleMethod': '切換計算方式',
+  'calc.ceiling': '無條件進位',
+  'calc.currentHourlyRate': '當前時薪:',
+  'calc.currentDailyWage': '當前日薪:',
+  'calc.roundingSummaryItem': '{stage}：{rule}',
+  'calc.roundingSummarySeparator': '；',
+  'calc.comparisonTitle': '薪資計算方式',
+  'calc.showComparison': '顯示 計算比較',
+  'calc.hideComparison': '隱藏 計算比較',
+  'calc.inUse': '✓ 使用中',
+  'calc.notInUse': '未使用',
+  'calc.methodCeiling': '{status} - 無條件進位',
+  'calc.methodExact': '{status} - 不捨入',
+  'calc.rateSummary': '時薪: {hourlyRate} | 日薪: {dailyWage}',
+  'calc.modePay': '加班費',
+  'calc.modeCompLeave': '換補休',
+  'calc.modeAudit': '薪資單稽核',
+  'calc.modeReverse': '反推計算',
+  'calc.auditHint': '依輸入的工時計算依法應發的加班費，計算後可填入薪資單實發金額比對短發或溢發。',
+  'calc.reverseHint': '由加班費金額反推工作時數，或依下方輸入的工時反推工資；有多個答案時列出範圍或可能的時數組合。',
+  'calc.compLeaveHint': '日期明細中勾選「換補休」的平日加班及休息日工作改以補休計算；快速輸入則全部視為換補休。',
+  'calc.compLeaveUsed': '已休補休時數',
+  'calc.compLeaveUsedPlaceholder': '例如: 4',
+  'calc.compLeaveAsOf': '結算日',
+  'calc.compLeaveValidity': '約定補休有效月數',
+  'calc.compLeaveValidityPlaceholder': '未填則至當年度年底',
+  'calc.jurisdiction': '適用法規',
+  'calc.jurisdictionHint': '{description}；切換後加班倍率改為該法規預設值',
+  'calc.ruleVersion': '適用法規版本',
+  'calc.ruleVersionAuto': '依工作日期自動判斷',
+  'calc.ruleVersionOption': '{name}（{effectiveFrom} 起）',
+  'calc.ruleVersionAutoHint': '日期明細依各筆日期判斷；快速輸入以今天為準',
+  'calc.inputQuick': '快速輸入',
+  'calc.inputDated': '日期明細',
+  'calc.flexibleSchemeNote': '已採用{scheme}：平日紀錄請填當日實際工作時數，超過排定正常工時的部分計為延長工時',
+  'calc.datedEmergency': '平日加班屬天災、事變或突發事件',
+  'calc.weekdayHours': '{dayType}加班時數',
+  'calc.weekdayPlaceholder': '例如: 3 或 2,3,4',
+  'calc.emergency': '天災、事變或突發事件',
+  'calc.restDayHours': '{dayType}工作時數',
+  'calc.restDayPlaceholder': '例如: 6 或 9,9,9,9',
+  'calc.holidayHours': '{dayType}出勤',
+  'calc.holidayPlaceholder': '例如: 8 或 8,8',
+  'calc.regularDayOffHours': '{dayType}出勤時數',
+  'calc.regularDayOffPlaceholder': '例如: 8（僅天災事變可出勤）',
+  'calc.calculate': '計算加班費',
+  'calc.reset': '重置',
+  'calc.formatTitle': '輸入格式說明',
+  'calc.formatSingle': '單一時數',
+  'calc.formatSingleHint': '：直接輸入數字，例如',
+  'calc.formatMultiple': '多天時數',
+  'calc.formatMultipleHint': '：用逗號分隔，例如',
+  'calc.formatDated': '日期明細',
+  'calc.formatDatedHint': '：逐筆輸入日期、類型與時數，結果依日期排序',
+  'results.title': '計算結果',
+  'results.totalPay': '總加給工資',
+  'results.hourlyRounding': '時薪：{rule}',
+  'results.protectsWorkers': ' (保護勞工權益)',
+  'results.payBasis': '計薪方式：{payBasis}制（時薪 {hourlyRate} / 日薪 {dailyWage}）',
+  'results.billingIncrement': '加班時數計算單位：{increment}',
+  'results.ruleVersions': '適用法規：{names}',
+  'results.minimumWageCheck': '最低工資檢查（{date}）',
+  'results.monthlyHours': '時薪 = 月薪 ÷ {hours} 小時',
+  'results.monthlyHoursAssumption': '（每月平均所定勞動時數為假設值，可於上方調整）',
+  'results.wageBase': '加班費計算基礎',
+  'results.baseAmount': '本薪',
+  'results.regularComponent': '{name}（經常性給與）',
+  'results.irregularComponent': '{name}（非經常性，不計入）',
+  'results.wageBaseTotal': '計算基礎合計',
+  'results.roundingTitle': '捨入紀錄',
+  'results.roundingStage': '階段',
+  'results.roundingRule': '規則',
+  'results.roundingCount': '次數',
+  'results.roundingDifference': '差額',
+  'results.perHour': ' / 小時',
+  'results.details': '詳細計算',
+  'results.compensatoryRestDays': '應補假 {days} 日',
+  'results.dailyBreakdown': '每日明細：',
+  'results.dayIndex': '第{day}天',
+  'results.billedHours': ' → 計 {hours}h',
+  'results.extraNormalHours': '含平日工資 {hours}h',
+  'results.shiftSegment': '跨日班次 {index}/{count}（{shiftDate} 起）',
+  'results.totalExplanation': '總計算說明：',
+  'results.calculationDetails': '計算詳情：',
+  'results.noHours': '未輸入任何工作時數',
+  'results.noHoursHint': '請在上方輸入工作時數後重新計算',
+  'results.limitTitle': '工時限制檢查',
+  'results.attention': '⚠️ 注意：',
+  'results.consent': '已經工會或勞資會議同意（單月上限54小時）',
+  'results.month': '月份',
+  'results.weekdayOvertime': '平日延長',
+  'results.restDay': '休息日',
+  'results.holidayOvertime': '假日延長',
+  'results.totalAndLimit': '合計 / 上限',
+  'results.quarterTotal': '三個月合計',
+  'results.remaining': '本月尚可延長 {monthly} 小時，三個月區間尚可延長 {quarterly} 小時',
+  'results.ruleDailyLimit': '每日工作時間（含加班）不得超過{hours}小時',
+  'results.ruleMonthlyLimit': '每月延長工作時間不得超過{monthly}小時（{consentLabel}後不得超過{monthlyWithConsent}小時）',
+  'results.ruleQuarterlyLimit': '每3個月延長工作時間不得超過{quarterly}小時',
+  'results.ruleQuarterlyLimitWithConsent': '每3個月延長工作時間不得超過{quarterly}小時（{consentLabel}後不得超過{quarterlyWithConsent}小時）',
+  'results.ruleRestDay': '{dayType}工作時數計入月加班總時數',
+  'results.ruleHolidayExcess': '{dayTypes}出勤超過8小時的部分計入月加班總時數',
+} as const;
+
+export type MessageKey = keyof typeof zhTW;
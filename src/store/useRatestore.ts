@@ -1,37 +1,73 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-
-// 定義勞基法費率的介面
-interface LaborStandardRates {
-  weekdayFirst2hr: number;    // 平日前2小時：1又1/3
-  weekdayNext2hr: number;     // 平日再延長2小時：1又2/3
-  weekdayEmergency: number;   // 天災事變：2倍
-  restDayFirst2hr: number;    // 休息日前2小時：1又1/3
-  restDay2to8hr: number;      // 休息日2-8小時：1又2/3
-  restDayOver8hr: number;     // 休息日超過8小時：2又2/3
-  holidayRate: number;        // 國定假日/特休：2倍
-  regularDayOffRate: number;  // 例假：2倍
-}
+import type {
+  BillingIncrement,
+  ClockSettings,
+  JurisdictionId,
+  LaborStandardRates,
+  Locale,
+  PremiumRule,
+  RoundingPolicy,
+  WorkingHourScheme
+} from "../components/type.ts";
+import { DEFAULT_ROUNDING_POLICY, fromCeilingSetting } from "../utils/RoundingPolicy.ts";
+import { DEFAULT_BILLING_INCREMENT } from "../utils/BillingIncrement.ts";
+import { createDefaultScheme } from "../utils/WorkingHourScheme.ts";
+import { DEFAULT_CLOCK_SETTINGS } from "../utils/ClockTime.ts";
+import { buildTiersFromLegacyRates, type LegacyTierRates } from "../utils/RateTiers.ts";
+import { getRulePackById, TAIWAN_RULE_PACK } from "../utils/RulePacks.ts";
+import { DEFAULT_LOCALE, setActiveLocale } from "../utils/I18n.ts";
 
 // 定義整個 store 的狀態和行為
 interface RatesState {
+  locale: Locale;
+  jurisdictionId: JurisdictionId;
   customRates: LaborStandardRates;
-  useCeilingCalculation: boolean;
-  setCustomRates: (key: keyof LaborStandardRates, value: number) => void;
-  setUseCeilingCalculation: (value: boolean) => void;
+  roundingPolicy: RoundingPolicy;
+  billingIncrement: BillingIncrement;
+  premiumRules: PremiumRule[];
+  workingHourScheme: WorkingHourScheme;
+  clockSettings: ClockSettings;
+  setLocale: (locale: Locale) => void;
+  setJurisdiction: (id: JurisdictionId) => void;
+  setCustomRates: (rates: LaborStandardRates) => void;
+  setRoundingPolicy: (policy: RoundingPolicy) => void;
+  setBillingIncrement: (increment: BillingIncrement) => void;
+  setPremiumRules: (rules: PremiumRule[]) => void;
+  setWorkingHourScheme: (scheme: WorkingHourScheme) => void;
+  setClockSettings: (settings: ClockSettings) => void;
   resetCustomRates: () => void;
   resetAllSettings: () => void;
 }
 
-const DEFAULT_RATES: LaborStandardRates = {
+// 舊版持久化資料（v2 以前以布林值記錄計算方式，v8 以前以固定欄位記錄各級距倍率）
+interface LegacyPersistedState {
+  locale?: Locale;
+  jurisdictionId?: JurisdictionId;
+  customRates?: Partial<LaborStandardRates & LegacyTierRates>;
+  useCeilingCalculation?: boolean;
+  roundingPolicy?: RoundingPolicy;
+  billingIncrement?: BillingIncrement;
+  premiumRules?: PremiumRule[];
+  workingHourScheme?: WorkingHourScheme;
+  clockSettings?: ClockSettings;
+}
+
+const DEFAULT_RATES: LaborStandardRates = TAIWAN_RULE_PACK.defaultRates;
+
+// v8 以前的固定欄位預設倍率，遷移舊資料時補齊缺少的欄位
+const LEGACY_DEFAULT_TIER_RATES: LegacyTierRates = {
   weekdayFirst2hr: 4 / 3,
   weekdayNext2hr: 5 / 3,
-  weekdayEmergency: 2,
   restDayFirst2hr: 4 / 3,
   restDay2to8hr: 5 / 3,
   restDayOver8hr: 8 / 3,
   holidayRate: 2,
+  holidayOver8First2hr: 4 / 3,
+  holidayOver8Next2hr: 5 / 3,
   regularDayOffRate: 2,
+  regularDayOffOver8First2hr: 4 / 3,
+  regularDayOffOver8Next2hr: 5 / 3,
 };
 
 // 建立 Zustand store 並啟用持久化
@@ -39,27 +75,54 @@ export const useRateStore = create<RatesState>()(
   persist(
     (set) => ({
       // 初始狀態
+      locale: DEFAULT_LOCALE,
+      jurisdictionId: TAIWAN_RULE_PACK.id,
       customRates: DEFAULT_RATES,
-      useCeilingCalculation: true,
+      roundingPolicy: DEFAULT_ROUNDING_POLICY,
+      billingIncrement: DEFAULT_BILLING_INCREMENT,
+      premiumRules: [],
+      workingHourScheme: createDefaultScheme('standard'),
+      clockSettings: DEFAULT_CLOCK_SETTINGS,
+
+      // 切換語系的動作，計算服務產生的訊息同步改用新語系
+      setLocale: (locale) => {
+        setActiveLocale(locale);
+        set({ locale });
+      },
+
+      // 切換法域的動作，倍率改為該法域的預設值
+      setJurisdiction: (id) => set({ jurisdictionId: id, customRates: getRulePackById(id).defaultRates }),
 
       // 更新費率的動作
-      setCustomRates: (key, value) => set((state) => ({
-        customRates: {
-          ...state.customRates,
-          [key]: value,
-        }
-      })),
+      setCustomRates: (rates) => set({ customRates: rates }),
+
+      // 更新捨入規則的動作
+      setRoundingPolicy: (policy) => set({ roundingPolicy: policy }),
+
+      // 更新加班時數計算單位的動作
+      setBillingIncrement: (increment) => set({ billingIncrement: increment }),
+
+      // 更新額外加給規則的動作
+      setPremiumRules: (rules) => set({ premiumRules: rules }),
 
-      // 更新計算方式的動作
-      setUseCeilingCalculation: (value) => set({ useCeilingCalculation: value }),
+      // 更新工時制度的動作
+      setWorkingHourScheme: (scheme) => set({ workingHourScheme: scheme }),
 
-      // 重置為預設費率的動作
-      resetCustomRates: () => set({ customRates: DEFAULT_RATES }),
+      // 更新打卡休息扣除設定的動作
+      setClockSettings: (settings) => set({ clockSettings: settings }),
+
+      // 重置為目前法域預設費率的動作
+      resetCustomRates: () => set((state) => ({ customRates: getRulePackById(state.jurisdictionId).defaultRates })),
 
       // 重置所有設定的動作
       resetAllSettings: () => set({
+        jurisdictionId: TAIWAN_RULE_PACK.id,
         customRates: DEFAULT_RATES,
-        useCeilingCalculation: true
+        roundingPolicy: DEFAULT_ROUNDING_POLICY,
+        billingIncrement: DEFAULT_BILLING_INCREMENT,
+        premiumRules: [],
+        workingHourScheme: createDefaultScheme('standard'),
+        clockSettings: DEFAULT_CLOCK_SETTINGS
       }),
     }),
     {
@@ -68,24 +131,65 @@ export const useRateStore = create<RatesState>()(
 
       // 選擇性地只持久化某些欄位
       partialize: (state) => ({
+        locale: state.locale,
+        jurisdictionId: state.jurisdictionId,
         customRates: state.customRates,
-        useCeilingCalculation: state.useCeilingCalculation,
+        roundingPolicy: state.roundingPolicy,
+        billingIncrement: state.billingIncrement,
+        premiumRules: state.premiumRules,
+        workingHourScheme: state.workingHourScheme,
+        clockSettings: state.clockSettings,
       }),
 
       // 版本控制（如果未來需要遷移資料結構）
-      version: 1,
+      version: 11,
 
-      // 資料遷移函數（當版本升級時使用）
+      // 資料遷移函數（當版本升級時使用），依序套用各版本的變更
       migrate: (persistedState: unknown, version: number) => {
-        // 型別安全的版本遷移
-        if (version === 0 && persistedState && typeof persistedState === 'object') {
-          const state = persistedState as Partial<RatesState>;
-          return {
-            customRates: state.customRates || DEFAULT_RATES,
-            useCeilingCalculation: state.useCeilingCalculation ?? true,
-          };
+        if (!persistedState || typeof persistedState !== 'object') {
+          return persistedState as RatesState;
         }
-        return persistedState as RatesState;
+        const state = persistedState as LegacyPersistedState;
+
+        // v0、v1 → v2：新增假日超過8小時倍率，缺少的欄位補上預設值
+        // v8 → v9：各級距倍率改為可調整時數的級距資料，沿用原本設定的倍率
+        const customRates: LaborStandardRates = version < 9
+          ? {
+            weekdayEmergency: state.customRates?.weekdayEmergency ?? DEFAULT_RATES.weekdayEmergency,
+            tiers: buildTiersFromLegacyRates({ ...LEGACY_DEFAULT_TIER_RATES, ...state.customRates })
+          }
+          : { ...DEFAULT_RATES, ...state.customRates };
+
+        // v2 → v3：「無條件進位／四捨五入」開關改為各階段捨入規則
+        const roundingPolicy = version < 3
+          ? fromCeilingSetting(state.useCeilingCalculation ?? true)
+          : state.roundingPolicy;
+
+        // v3 → v4：新增加班時數計算單位，預設依實際時數
+        const billingIncrement = state.billingIncrement ?? DEFAULT_BILLING_INCREMENT;
+
+        // v4 → v5：新增額外加給規則，預設為無
+        const premiumRules = state.premiumRules ?? [];
+
+        // v5 → v6：新增工時制度，預設為一般工時
+        const workingHourScheme = state.workingHourScheme ?? createDefaultScheme('standard');
+
+        // v6 → v7：新增打卡休息扣除設定，預設扣除午休
+        // v7 → v8：新增跨日班次的日界，預設為午夜
+        const clockSettings = { ...DEFAULT_CLOCK_SETTINGS, ...state.clockSettings };
+
+        // v9 → v10：新增法域規則，預設為台灣
+        const jurisdictionId = state.jurisdictionId ?? TAIWAN_RULE_PACK.id;
+
+        // v10 → v11：新增語系設定，預設為繁體中文
+        const locale = state.locale ?? DEFAULT_LOCALE;
+
+        return { locale, jurisdictionId, customRates, roundingPolicy, billingIncrement, premiumRules, workingHourScheme, clockSettings } as RatesState;
+      },
+
+      // 載入保存的設定後，同步計算服務使用的語系
+      onRehydrateStorage: () => (state) => {
+        if (state) setActiveLocale(state.locale);
       },
     }
   )
@@ -0,0 +1,28 @@
+import type { BillingIncrement, BillingIncrementMode } from '../components/type.ts';
+import { Fraction } from './Fraction.ts';
+import { t } from './I18n.ts';
+
+// 預設依實際時數計算
+export const DEFAULT_BILLING_INCREMENT: BillingIncrement = { minutes: 0, mode: 'floor' };
+
+// 可選的計算單位（分鐘）
+export const BILLING_INCREMENT_OPTIONS = [0, 15, 30, 60];
+
+export const BILLING_INCREMENT_MODES: BillingIncrementMode[] = ['floor', 'ceil', 'nearest'];
+
+export const getBillingIncrementModeLabel = (mode: BillingIncrementMode): string => t(`billing.mode.${mode}`);
+
+// 計算單位說明，例如：每30分鐘（未滿一單位不計）
+export const describeBillingIncrement = (increment: BillingIncrement): string => {
+  if (increment.minutes <= 0) return t('billing.actualHours');
+  return t('billing.increment', { minutes: increment.minutes, mode: getBillingIncrementModeLabel(increment.mode) });
+};
+
+// 將單日工作時數換算為計薪時數，於分段計算倍率之前套用
+export const applyBillingIncrement = (hours: number, increment?: BillingIncrement): number => {
+  if (!increment || increment.minutes <= 0 || hours <= 0) return hours;
+
+  const units = Fraction.fromNumber(hours).mul(60).div(increment.minutes);
+  const mode = increment.mode === 'nearest' ? 'halfUp' : increment.mode;
+  return units.roundToFraction(0, mode).mul(increment.minutes).div(60).toNumber();
+};
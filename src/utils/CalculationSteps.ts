@@ -0,0 +1,186 @@
+import type {
+  BillingIncrementMode,
+  CalculationNoteKey,
+  CalculationNoteStep,
+  CalculationSegmentKey,
+  CalculationSegmentStep,
+  CalculationStep,
+  CalculationStepParams,
+  PremiumAmountType,
+  PremiumRule,
+  RoundingRule,
+  WorkDayType,
+  WorkingHourSchemeType
+} from '../components/type.ts';
+import { describeBillingIncrement } from './BillingIncrement.ts';
+import { formatPeriodLabel } from './DateUtils.ts';
+import { Fraction, MONEY_DECIMALS, toMoney } from './Fraction.ts';
+import { formatNumber, joinList, t } from './I18n.ts';
+import { describePremiumRule } from './PremiumRules.ts';
+import { describeTierRange } from './RateTiers.ts';
+import { getWorkingHourSchemeLabel } from './WorkingHourScheme.ts';
+
+// ===== 計算步驟 =====
+
+/** 建立金額步驟所需的精確值 */
+interface SegmentValues {
+  hours: Fraction;
+  /** 每小時基準金額 */
+  baseRate: Fraction;
+  multiplier: number;
+  /** 捨入前金額 */
+  exact: Fraction;
+  /** 捨入後金額 */
+  pay: Fraction;
+  rounding: RoundingRule;
+}
+
+// 每小時基準金額：非整分時保留至小數四位，避免誤以為以捨入後時薪計算
+export const toStepRate = (rate: Fraction): number =>
+  rate.compare(rate.roundToFraction(MONEY_DECIMALS)) === 0 ? toMoney(rate) : rate.round(4);
+
+// 建立金額步驟
+export const segmentStep = (
+  labelKey: CalculationSegmentKey,
+  params: CalculationStepParams,
+  { hours, baseRate, multiplier, exact, pay, rounding }: SegmentValues
+): CalculationSegmentStep => ({
+  kind: 'segment',
+  labelKey,
+  params,
+  hours: hours.round(4),
+  baseRate: toStepRate(baseRate),
+  multiplier,
+  subtotal: toMoney(pay),
+  rounding,
+  roundingDifference: toMoney(pay.sub(exact))
+});
+
+// 建立說明步驟
+export const noteStep = (labelKey: CalculationNoteKey, params: CalculationStepParams = {}): CalculationNoteStep => ({
+  kind: 'note',
+  labelKey,
+  params
+});
+
+// 明細中的倍率：整數直接顯示，其餘顯示至小數三位
+export const formatStepMultiplier = (multiplier: number): string =>
+  Number.isInteger(multiplier) ? `${multiplier}` : multiplier.toFixed(3);
+
+// 明細中的金額，固定顯示至小數二位
+export const formatStepAmount = (amount: number): string => formatNumber(amount, undefined, MONEY_DECIMALS, MONEY_DECIMALS);
+
+// 金額步驟的項目名稱，例如：前2小時、天災事變加班 3 小時
+export const describeSegmentLabel = (step: CalculationSegmentStep): string => {
+  const { params, hours } = step;
+  switch (step.labelKey) {
+    case 'tier': {
+      const lowerHours = params.lowerHours as number;
+      const upToHours = params.upToHours as number | null;
+      const range = describeTierRange(lowerHours, upToHours);
+      // 整段用滿時省略時數說明；未滿時附上實際時數
+      return upToHours !== null && hours === upToHours - lowerHours ? range : t('step.hoursSuffix', { label: range, hours });
+    }
+    case 'emergency':
+      return t('step.emergency', { hours });
+    case 'partTimeNormal':
+      return t('step.partTimeNormal', {
+        contractualHours: params.contractualHours as number,
+        dailyHours: params.dailyHours as number,
+        hours
+      });
+    case 'premium':
+      return t('step.premium', { hours });
+    case 'monthlySurcharge':
+      return t('step.monthlySurcharge', { month: formatPeriodLabel(params.month as string), thresholdHours: params.thresholdHours as number, hours });
+  }
+};
+
+// 說明步驟的文字
+const describeNote = (step: CalculationNoteStep, dayTypeLabels: Record<WorkDayType, string>): string => {
+  const { params } = step;
+  switch (step.labelKey) {
+    case 'noOvertime':
+      return t('step.noOvertime');
+    case 'notWorked':
+      return t('step.notWorked');
+    case 'dayTypeHours':
+      return t('step.dayTypeHours', { dayType: dayTypeLabels[params.dayType as WorkDayType], hours: params.hours as number });
+    case 'restDayHourBlock':
+      return t('step.restDayHourBlock', {
+        ruleVersion: params.ruleVersion as string,
+        actualHours: params.actualHours as number,
+        hours: params.hours as number
+      });
+    case 'partTimeOvertime':
+      return t('step.partTimeOvertime', { dailyHours: params.dailyHours as number, hours: params.hours as number });
+    case 'billingIncrement': {
+      const increment = describeBillingIncrement({ minutes: params.minutes as number, mode: params.mode as BillingIncrementMode });
+      return t('step.billingIncrement', {
+        increment,
+        actualHours: params.actualHours as number,
+        billedHours: params.billedHours as number
+      });
+    }
+    case 'multiDay':
+      return t('step.multiDay', { days: params.days as number });
+    case 'datedRange':
+      return t('step.datedRange', { days: params.days as number, range: params.range as string });
+    case 'ruleVersions':
+      return t('step.ruleVersions', { names: joinList(params.ruleVersions as string[]) });
+    case 'flexibleScheme':
+      return t('step.flexibleScheme', { scheme: getWorkingHourSchemeLabel(params.scheme as WorkingHourSchemeType) });
+    case 'clockEntry': {
+      const split = (params.normalHours as number) > 0
+        ? t('step.clockSplit', { normalHours: params.normalHours as number, overtimeHours: params.overtimeHours as number })
+        : '';
+      const segment = params.shiftDate
+        ? t('step.clockShiftSegment', {
+          shiftDate: params.shiftDate as string,
+          shiftClockIn: params.shiftClockIn as string,
+          shiftClockOut: params.shiftClockOut as string,
+          segmentIndex: params.segmentIndex as number
+        })
+        : '';
+      return t('step.clockEntry', {
+        date: params.date as string,
+        clockIn: params.clockIn as string,
+        clockOut: params.clockOut as string,
+        segment,
+        breakHours: params.breakHours as number,
+        workedHours: params.workedHours as number,
+        split
+      });
+    }
+    case 'extraNormalTotal':
+      return t('step.extraNormalTotal', { hours: params.hours as number, pay: formatStepAmount(params.pay as number) });
+    case 'regularDayOffRest':
+      return t('step.regularDayOffRest');
+    case 'compensatoryRest':
+      return t('step.compensatoryRest', { days: params.days as number });
+    case 'premiumRule': {
+      const timeWindow: PremiumRule['timeWindow'] = params.windowStart
+        ? { start: params.windowStart as string, end: params.windowEnd as string }
+        : undefined;
+      return describePremiumRule({
+        dayTypes: params.dayTypes as WorkDayType[],
+        timeWindow,
+        amountType: params.amountType as PremiumAmountType,
+        amount: params.amount as number
+      }, dayTypeLabels);
+    }
+    case 'premiumMissingStartTime':
+      return t('step.premiumMissingStartTime', { count: params.count as number });
+    case 'monthlySurchargeRule':
+      return t('step.monthlySurchargeRule', { thresholdHours: params.thresholdHours as number, multiplier: params.multiplier as number });
+  }
+};
+
+// 步驟的顯示文字，例如：前2小時: 2 × 200 × 1.333 = 533.33
+export const describeCalculationStep = (step: CalculationStep, dayTypeLabels: Record<WorkDayType, string>): string => {
+  if (step.kind === 'note') return describeNote(step, dayTypeLabels);
+  const formula = step.multiplier === 1
+    ? `${step.hours} × ${step.baseRate}`
+    : `${step.hours} × ${step.baseRate} × ${formatStepMultiplier(step.multiplier)}`;
+  return `${describeSegmentLabel(step)}: ${formula} = ${formatStepAmount(step.subtotal)}`;
+};
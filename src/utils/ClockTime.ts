@@ -0,0 +1,267 @@
+import type { BreakRule, CalculationNoteStep, ClockSettings, DatedWorkEntry } from '../components/type.ts';
+import { noteStep } from './CalculationSteps.ts';
+import { addDaysToDate } from './DateUtils.ts';
+import { Fraction } from './Fraction.ts';
+import { t } from './I18n.ts';
+import { formatTimeOfDay, getWindowOverlapHours, parseTimeOfDay, type WorkPeriod } from './PremiumRules.ts';
+
+// ===== 打卡時間換算 =====
+
+const MINUTES_PER_DAY = 24 * 60;
+// 推算延長工時開始時間時，反覆納入休息時段的次數
+const BREAK_SHIFT_PASSES = 3;
+
+// 勞基法第35條：繼續工作4小時，至少應有30分鐘之休息
+export const STATUTORY_BREAK_AFTER_HOURS = 4;
+export const STATUTORY_BREAK_MINUTES = 30;
+
+const LUNCH_BREAK_ID = 'break-lunch';
+const LUNCH_BREAK_NAME = '午休';
+
+// 預設午休 12:00 ~ 13:00 不計薪，不自動扣除休息，以午夜為日界
+export const DEFAULT_CLOCK_SETTINGS: ClockSettings = {
+  breakRules: [{ id: LUNCH_BREAK_ID, name: LUNCH_BREAK_NAME, timeWindow: { start: '12:00', end: '13:00' }, isPaid: false }],
+  autoBreakAfterHours: 0,
+  autoBreakMinutes: STATUTORY_BREAK_MINUTES,
+  dayBoundary: '00:00'
+};
+
+/** 打卡時間換算結果 */
+export interface ClockHours {
+  /** 上下班打卡間隔時數 */
+  spanHours: number;
+  /** 扣除的無薪休息時數 */
+  breakHours: number;
+  /** 實際工作時數 */
+  workedHours: number;
+  /** 正常工時 */
+  normalHours: number;
+  /** 超過正常工時的時數 */
+  overtimeHours: number;
+  /** 超過正常工時部分的開始時間（HH:MM） */
+  overtimeStart: string;
+}
+
+// 是否以打卡時間輸入
+export const hasClockTimes = (entry: DatedWorkEntry): entry is DatedWorkEntry & { clockIn: string; clockOut: string } =>
+  entry.clockIn !== undefined && entry.clockOut !== undefined;
+
+// 打卡間隔分鐘數，下班早於上班表示跨日；格式錯誤或相同時回傳 null
+const getSpanMinutes = (clockIn: string, clockOut: string): number | null => {
+  const start = parseTimeOfDay(clockIn);
+  const end = parseTimeOfDay(clockOut);
+  if (start === null || end === null || start === end) return null;
+  return end > start ? end - start : end + MINUTES_PER_DAY - start;
+};
+
+// 自上班起 hours 小時內與無薪休息時段重疊的時數
+const getRuleBreakHours = (clockIn: string, hours: Fraction, settings: ClockSettings): Fraction =>
+  Fraction.sum(settings.breakRules
+    .filter(rule => !rule.isPaid)
+    .map(rule => getWindowOverlapHours(clockIn, hours, rule.timeWindow)));
+
+// 休息時段的顯示名稱：預設午休依語系顯示，自訂名稱照原樣顯示
+export const getBreakRuleLabel = (rule: BreakRule): string =>
+  rule.id === LUNCH_BREAK_ID && rule.name === LUNCH_BREAK_NAME ? t('clock.lunchBreak') : rule.name;
+
+// 檢查休息時段設定，回傳錯誤訊息（無錯誤時為空陣列）
+export const validateBreakRule = (rule: BreakRule): string[] => {
+  const errors: string[] = [];
+  if (!rule.name.trim()) errors.push(t('clock.breakNameRequired'));
+  const start = parseTimeOfDay(rule.timeWindow.start);
+  const end = parseTimeOfDay(rule.timeWindow.end);
+  if (start === null || end === null) errors.push(t('clock.invalidWindowFormat', { name: getBreakRuleLabel(rule) }));
+  else if (start === end) errors.push(t('clock.windowSameStartEnd', { name: getBreakRuleLabel(rule) }));
+  return errors;
+};
+
+// 檢查單筆打卡紀錄，回傳錯誤訊息（無錯誤時為空陣列）
+export const validateClockEntry = (entry: DatedWorkEntry): string[] => {
+  if (entry.clockIn === undefined && entry.clockOut === undefined) return [];
+  if (!hasClockTimes(entry)) return [t('clock.missingClockTimes', { date: entry.date })];
+
+  const spanMinutes = getSpanMinutes(entry.clockIn, entry.clockOut);
+  if (spanMinutes === null) return [t('clock.invalidClockTimes', { date: entry.date, clockIn: entry.clockIn!, clockOut: entry.clockOut! })];
+  if (entry.breakMinutes !== undefined && (!Number.isFinite(entry.breakMinutes) || entry.breakMinutes < 0 || entry.breakMinutes >= spanMinutes)) {
+    return [t('clock.invalidBreakMinutes', { date: entry.date, breakMinutes: entry.breakMinutes })];
+  }
+  return [];
+};
+
+// 由打卡時間換算工作時數：先扣除無薪休息，再以 normalHours 為正常工時，其餘為超過正常工時的時數
+export const deriveClockHours = (entry: DatedWorkEntry, settings: ClockSettings, normalHours: number): ClockHours | null => {
+  if (!hasClockTimes(entry) || validateClockEntry(entry).length > 0) return null;
+
+  const spanHours = Fraction.of(getSpanMinutes(entry.clockIn, entry.clockOut)!, 60);
+  // 當日填寫的休息分鐘數優先；否則扣除休息時段，未涵蓋任何時段時才依出勤時數自動扣除
+  let breakHours = getRuleBreakHours(entry.clockIn, spanHours, settings);
+  if (entry.breakMinutes !== undefined) {
+    breakHours = Fraction.fromNumber(entry.breakMinutes).div(60);
+  } else if (breakHours.isZero() && settings.autoBreakAfterHours > 0 && spanHours.compare(settings.autoBreakAfterHours) >= 0) {
+    breakHours = Fraction.fromNumber(settings.autoBreakMinutes).div(60);
+  }
+
+  const workedHours = spanHours.sub(breakHours).max(0);
+  const normal = workedHours.min(Math.max(normalHours, 0));
+
+  // 正常工時結束的時點：正常工時期間遇到休息時段時往後順延
+  let offset = normal;
+  if (entry.breakMinutes === undefined) {
+    for (let pass = 0; pass < BREAK_SHIFT_PASSES; pass++) {
+      offset = normal.add(getRuleBreakHours(entry.clockIn, offset, settings)).min(spanHours);
+    }
+  }
+
+  return {
+    spanHours: spanHours.toNumber(),
+    breakHours: breakHours.toNumber(),
+    workedHours: workedHours.toNumber(),
+    normalHours: normal.toNumber(),
+    overtimeHours: workedHours.sub(normal).toNumber(),
+    overtimeStart: formatTimeOfDay(parseTimeOfDay(entry.clockIn)! + offset.mul(60).toNumber())
+  };
+};
+
+// 打卡時間相對於日界的分鐘數：日界前的凌晨時段屬前一工作日，排在當日最後
+const getMinutesFromBoundary = (time: string, settings: ClockSettings): number | null => {
+  const minutes = parseTimeOfDay(time);
+  const boundary = parseTimeOfDay(settings.dayBoundary) ?? 0;
+  return minutes === null ? null : (minutes - boundary + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+};
+
+// 班次是否跨越日界
+export const crossesDayBoundary = (entry: DatedWorkEntry, settings: ClockSettings): boolean => {
+  if (!hasClockTimes(entry)) return false;
+  const start = getMinutesFromBoundary(entry.clockIn, settings);
+  const spanMinutes = getSpanMinutes(entry.clockIn, entry.clockOut);
+  return start !== null && spanMinutes !== null && start + spanMinutes > MINUTES_PER_DAY;
+};
+
+// 跨越日界的班次拆成兩段：日界前屬當日，日界後屬次日並依次日的工作日類型計算；
+// 當日填寫的休息分鐘數依兩段時間比例分攤
+export const splitAtDayBoundary = (entry: DatedWorkEntry, settings: ClockSettings): DatedWorkEntry[] => {
+  if (!hasClockTimes(entry) || validateClockEntry(entry).length > 0 || !crossesDayBoundary(entry, settings)) return [entry];
+
+  const spanMinutes = getSpanMinutes(entry.clockIn, entry.clockOut)!;
+  const firstMinutes = MINUTES_PER_DAY - getMinutesFromBoundary(entry.clockIn, settings)!;
+  const boundary = formatTimeOfDay(parseTimeOfDay(settings.dayBoundary) ?? 0);
+  const shift = { shiftDate: entry.date, shiftClockIn: entry.clockIn, shiftClockOut: entry.clockOut, count: 2 };
+  const { nextDayType, ...base } = entry;
+  const breakShare = (minutes: number) => entry.breakMinutes === undefined
+    ? {}
+    : { breakMinutes: Fraction.fromNumber(entry.breakMinutes).mul(minutes).div(spanMinutes).toNumber() };
+
+  return [
+    { ...base, clockOut: boundary, ...breakShare(firstMinutes), segment: { ...shift, index: 1 } },
+    {
+      ...base,
+      date: addDaysToDate(entry.date, 1),
+      dayType: nextDayType ?? entry.dayType,
+      clockIn: boundary,
+      ...breakShare(spanMinutes - firstMinutes),
+      segment: { ...shift, index: 2 }
+    }
+  ];
+};
+
+// 拆分跨日班次並逐段換算；同一班次的正常工時依時間順序分配，前段已用的正常工時不再重複扣除
+export const deriveClockSegments = (
+  entry: DatedWorkEntry,
+  settings: ClockSettings,
+  normalHoursOf: (entry: DatedWorkEntry) => number
+): { entry: DatedWorkEntry; clock: ClockHours }[] => {
+  let usedNormalHours = 0;
+  return splitAtDayBoundary(entry, settings).flatMap(segment => {
+    const clock = deriveClockHours(segment, settings, Math.max(normalHoursOf(segment) - usedNormalHours, 0));
+    if (!clock) return [];
+    usedNormalHours += clock.normalHours;
+    return [{ entry: segment, clock }];
+  });
+};
+
+// 無薪休息時段與 start ~ end 分鐘區間重疊的部分，依時間排序並合併重疊的區間
+const getRuleBreakIntervals = (start: number, end: number, settings: ClockSettings): [number, number][] => {
+  const intervals = settings.breakRules
+    .filter(rule => !rule.isPaid)
+    .flatMap(rule => {
+      const windowStart = parseTimeOfDay(rule.timeWindow.start);
+      const windowEnd = parseTimeOfDay(rule.timeWindow.end);
+      if (windowStart === null || windowEnd === null || windowStart === windowEnd) return [];
+      const windowLength = windowEnd > windowStart ? windowEnd - windowStart : windowEnd + MINUTES_PER_DAY - windowStart;
+      return [-1, 0, 1, 2]
+        .map(day => windowStart + day * MINUTES_PER_DAY)
+        .map((occurrenceStart): [number, number] => [Math.max(occurrenceStart, start), Math.min(occurrenceStart + windowLength, end)])
+        .filter(([breakStart, breakEnd]) => breakEnd > breakStart);
+    })
+    .sort(([a], [b]) => a - b);
+
+  return intervals.reduce<[number, number][]>((merged, [breakStart, breakEnd]) => {
+    const last = merged[merged.length - 1];
+    if (last && breakStart <= last[1]) last[1] = Math.max(last[1], breakEnd);
+    else merged.push([breakStart, breakEnd]);
+    return merged;
+  }, []);
+};
+
+// 打卡紀錄扣除無薪休息後的實際工作時段，供計算時段加給；跨日班次依日界拆段，各段依其工作日類型計算。
+// 填寫休息分鐘數或自動扣除休息時無法得知休息時點，改依實際工作時數占出勤時段的比例計算
+export const deriveWorkPeriods = (
+  entry: DatedWorkEntry,
+  settings: ClockSettings
+): { entry: DatedWorkEntry; workedHours: Fraction; periods: WorkPeriod[] }[] => {
+  return splitAtDayBoundary(entry, settings).flatMap(segment => {
+    const clock = deriveClockHours(segment, settings, 0);
+    if (!clock || !hasClockTimes(segment)) return [];
+
+    const start = parseTimeOfDay(segment.clockIn)!;
+    const end = start + getSpanMinutes(segment.clockIn, segment.clockOut)!;
+    const workedHours = Fraction.fromNumber(clock.workedHours);
+    const toPeriod = (from: number, to: number, workedRatio: Fraction = Fraction.ONE): WorkPeriod => ({
+      start: formatTimeOfDay(from),
+      hours: Fraction.of(to - from, 60),
+      workedRatio
+    });
+
+    const breaks = segment.breakMinutes === undefined ? getRuleBreakIntervals(start, end, settings) : [];
+    if (breaks.length === 0) {
+      return [{ entry: segment, workedHours, periods: [toPeriod(start, end, workedHours.div(Fraction.of(end - start, 60)))] }];
+    }
+
+    const periods: WorkPeriod[] = [];
+    let cursor = start;
+    [...breaks, [end, end]].forEach(([breakStart, breakEnd]) => {
+      if (breakStart > cursor) periods.push(toPeriod(cursor, breakStart));
+      cursor = Math.max(cursor, breakEnd);
+    });
+    return [{ entry: segment, workedHours, periods }];
+  });
+};
+
+// 以打卡時間換算的時數取代紀錄時數，開始時間改為超過正常工時部分的開始時間
+export const applyClockTimes = (
+  entries: DatedWorkEntry[],
+  settings: ClockSettings,
+  normalHoursOf: (entry: DatedWorkEntry) => number
+): DatedWorkEntry[] => {
+  return entries.flatMap(entry => {
+    const segments = deriveClockSegments(entry, settings, normalHoursOf);
+    if (segments.length === 0) return [entry];
+    return segments.map(({ entry: segment, clock }) => ({ ...segment, hours: clock.overtimeHours, startTime: clock.overtimeStart }));
+  });
+};
+
+// 換算說明步驟，顯示文字例如：2024-05-10 打卡 08:30 ~ 21:15，扣除休息 1.5 小時，工作 11.25 小時（正常工時 8 小時、延長 3.25 小時）
+export const clockHoursStep = (entry: DatedWorkEntry, clock: ClockHours): CalculationNoteStep =>
+  noteStep('clockEntry', {
+    date: entry.date,
+    clockIn: entry.clockIn ?? null,
+    clockOut: entry.clockOut ?? null,
+    breakHours: clock.breakHours,
+    workedHours: clock.workedHours,
+    normalHours: clock.normalHours,
+    overtimeHours: clock.overtimeHours,
+    shiftDate: entry.segment?.shiftDate ?? null,
+    shiftClockIn: entry.segment?.shiftClockIn ?? null,
+    shiftClockOut: entry.segment?.shiftClockOut ?? null,
+    segmentIndex: entry.segment?.index ?? null
+  });
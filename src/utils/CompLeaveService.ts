@@ -0,0 +1,76 @@
+import type { CompLeaveRecord, CompLeaveResult } from '../components/type.ts';
+import { addMonthsToDate, compareDateStrings, getYearEndDate } from './DateUtils.ts';
+import { Fraction, toMoney } from './Fraction.ts';
+import { t } from './I18n.ts';
+
+/** 尚未分配已休時數的補休紀錄 */
+export type EarnedCompLeave = Pick<CompLeaveRecord, 'date' | 'dayType' | 'hours' | 'payValue' | 'expiryDate'>;
+
+// 計算補休期限：有約定月數時自工作日起算，否則以當年度年底為期限
+export const getCompLeaveExpiryDate = (workDate: string, validityMonths?: number): string => {
+  return validityMonths && validityMonths > 0
+    ? addMonthsToDate(workDate, validityMonths)
+    : getYearEndDate(workDate);
+};
+
+// 依期限先到先休的順序分配已休時數，並結算逾期未休的工資
+export const buildCompLeaveLedger = (
+  earned: EarnedCompLeave[],
+  usedHours: number,
+  asOfDate: string,
+  hourlyRate: number
+): CompLeaveResult => {
+  const ordered = [...earned].sort((a, b) => {
+    if (a.expiryDate === b.expiryDate) return compareDateStrings(a.date ?? '', b.date ?? '');
+    if (a.expiryDate === null) return 1;
+    if (b.expiryDate === null) return -1;
+    return compareDateStrings(a.expiryDate, b.expiryDate);
+  });
+
+  let unallocated = Math.max(0, usedHours);
+  const records: CompLeaveRecord[] = ordered.map(record => {
+    const used = Math.min(record.hours, unallocated);
+    unallocated -= used;
+    const remainingHours = record.hours - used;
+    // 未休部分依原加班費按時數比例結算
+    const remainingValue = record.hours > 0
+      ? toMoney(Fraction.fromNumber(record.payValue).mul(remainingHours).div(record.hours))
+      : 0;
+
+    return {
+      ...record,
+      usedHours: used,
+      remainingHours,
+      remainingValue,
+      isExpired: record.expiryDate !== null && compareDateStrings(record.expiryDate, asOfDate) < 0
+    };
+  });
+
+  const sum = (values: number[]) => Fraction.sum(values).toNumber();
+  const totalHours = sum(records.map(record => record.hours));
+  const expired = records.filter(record => record.isExpired && record.remainingHours > 0);
+
+  const details = [
+    t('compLeave.summary', { totalHours, usedHours: Math.min(usedHours, totalHours) }),
+    t('compLeave.allocationOrder')
+  ];
+  if (unallocated > 0) {
+    details.push(t('compLeave.unallocated', { hours: unallocated }));
+  }
+  if (expired.length > 0) {
+    details.push(t('compLeave.expired', { hours: sum(expired.map(record => record.remainingHours)) }));
+  }
+
+  return {
+    hourlyRate,
+    records: records.sort((a, b) => compareDateStrings(a.date ?? '', b.date ?? '')),
+    totalHours,
+    usedHours: sum(records.map(record => record.usedHours)),
+    remainingHours: sum(records.map(record => record.remainingHours)),
+    totalValue: sum(records.map(record => record.payValue)),
+    remainingValue: sum(records.map(record => record.remainingValue)),
+    expiredHours: sum(expired.map(record => record.remainingHours)),
+    expiredPayout: sum(expired.map(record => record.remainingValue)),
+    details
+  };
+};
@@ -0,0 +1,120 @@
+import type { DatedWorkEntry } from '../components/type.ts';
+import { t } from './I18n.ts';
+
+// ===== 日期格式工具 =====
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// 解析 YYYY-MM-DD 字串（不經過時區換算）
+export const parseDateString = (date: string): { year: number; month: number; day: number } | null => {
+  const match = DATE_PATTERN.exec(date.trim());
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  if (month < 1 || month > 12 || day < 1 || day > getDaysInMonth(year, month)) return null;
+
+  return { year, month, day };
+};
+
+// 檢查是否為有效日期字串
+export const isValidDateString = (date: string): boolean => parseDateString(date) !== null;
+
+// 取得某月天數
+export const getDaysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+// 組成 YYYY-MM-DD 字串
+export const formatDateString = (year: number, month: number, day: number): string => {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// 取得今天的日期字串（當地時間）
+export const todayDateString = (): string => {
+  const now = new Date();
+  return formatDateString(now.getFullYear(), now.getMonth() + 1, now.getDate());
+};
+
+// 兩日期相差天數（to − from），日期無效時回傳 null
+export const getDaysBetween = (from: string, to: string): number | null => {
+  const start = parseDateString(from);
+  const end = parseDateString(to);
+  if (!start || !end) return null;
+  const MS_PER_DAY = 24 * 60 * 60 * 1000;
+  return Math.round((Date.UTC(end.year, end.month - 1, end.day) - Date.UTC(start.year, start.month - 1, start.day)) / MS_PER_DAY);
+};
+
+// 日期加上天數
+export const addDaysToDate = (date: string, days: number): string => {
+  const parsed = parseDateString(date);
+  if (!parsed) throw new Error(t('date.invalidDate', { date }));
+  const shifted = new Date(Date.UTC(parsed.year, parsed.month - 1, parsed.day + days));
+  return formatDateString(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+};
+
+// 日期字串排序比較（YYYY-MM-DD 可直接以字典序比較）
+export const compareDateStrings = (a: string, b: string): number => {
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+// 依日期排序工時紀錄（不改變原陣列）
+export const sortEntriesByDate = <T extends { date: string }>(entries: T[]): T[] => {
+  return [...entries].sort((a, b) => compareDateStrings(a.date, b.date));
+};
+
+// 將工時紀錄平移到指定月份（YYYY-MM），保留日期中的「日」，超過月底則取月底
+export const shiftEntriesToMonth = (entries: DatedWorkEntry[], targetMonth: string): DatedWorkEntry[] => {
+  const match = /^(\d{4})-(\d{2})$/.exec(targetMonth.trim());
+  if (!match) throw new Error(t('date.invalidMonth', { month: targetMonth }));
+
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const lastDay = getDaysInMonth(year, month);
+
+  return sortEntriesByDate(entries).map(entry => {
+    const parsed = parseDateString(entry.date);
+    if (!parsed) throw new Error(t('date.invalidDate', { date: entry.date }));
+    return { ...entry, date: formatDateString(year, month, Math.min(parsed.day, lastDay)) };
+  });
+};
+
+// 取得日期所屬月份（YYYY-MM）
+export const getMonthKey = (date: string): string => {
+  const parsed = parseDateString(date);
+  if (!parsed) throw new Error(t('date.invalidDate', { date }));
+  return `${parsed.year}-${String(parsed.month).padStart(2, '0')}`;
+};
+
+// 快速輸入沒有日期時的期間代碼，顯示時再依語系翻譯
+export const CURRENT_PERIOD_KEY = 'current';
+
+// 期間的顯示名稱：月份（YYYY-MM）原樣顯示，快速輸入的期間顯示為「本期」
+export const formatPeriodLabel = (period: string): string =>
+  period === CURRENT_PERIOD_KEY ? t('limit.currentPeriod') : period;
+
+// 取得指定月份位移後的月份（YYYY-MM），offset 為負數時往前推算
+export const shiftMonthKey = (month: string, offset: number): string => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const index = year * 12 + (monthNumber - 1) + offset;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+};
+
+// 取得下一個月份字串（YYYY-MM）
+export const getNextMonth = (date: string): string => shiftMonthKey(getMonthKey(date), 1);
+
+// 日期加上月數（超過月底則取月底）
+export const addMonthsToDate = (date: string, months: number): string => {
+  const parsed = parseDateString(date);
+  if (!parsed) throw new Error(t('date.invalidDate', { date }));
+  const [year, month] = shiftMonthKey(getMonthKey(date), months).split('-').map(Number);
+  return formatDateString(year, month, Math.min(parsed.day, getDaysInMonth(year, month)));
+};
+
+// 取得日期當年度最後一天
+export const getYearEndDate = (date: string): string => {
+  const parsed = parseDateString(date);
+  if (!parsed) throw new Error(t('date.invalidDate', { date }));
+  return formatDateString(parsed.year, 12, 31);
+};
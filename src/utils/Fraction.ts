@@ -0,0 +1,176 @@
+import { t } from './I18n.ts';
+
+// ===== 精確有理數運算 =====
+//
+// 加班倍率（4/3、5/3、8/3）與時薪（月薪 ÷ 240）多半無法以浮點數精確表示，
+// 計算引擎一律以 bigint 分子／分母保存中間值，避免誤差在逐日加總時累積。
+
+/** 捨入方式 */
+export type RoundingMode = 'halfUp' | 'ceil' | 'floor';
+
+// 浮點數轉分數時允許的相對誤差與分母上限
+const FROM_NUMBER_TOLERANCE = 1e-12;
+const FROM_NUMBER_MAX_DENOMINATOR = 10n ** 12n;
+
+const gcd = (a: bigint, b: bigint): bigint => {
+  let x = a < 0n ? -a : a;
+  let y = b < 0n ? -b : b;
+  while (y !== 0n) {
+    [x, y] = [y, x % y];
+  }
+  return x;
+};
+
+export class Fraction {
+  readonly numerator: bigint;
+  readonly denominator: bigint;
+
+  static readonly ZERO = new Fraction(0n, 1n);
+  static readonly ONE = new Fraction(1n, 1n);
+
+  private constructor(numerator: bigint, denominator: bigint) {
+    if (denominator === 0n) throw new Error(t('fraction.zeroDenominator'));
+    const sign = denominator < 0n ? -1n : 1n;
+    const divisor = gcd(numerator, denominator) || 1n;
+    this.numerator = sign * numerator / divisor;
+    this.denominator = sign * denominator / divisor;
+  }
+
+  // 以整數分子、分母建立分數
+  static of(numerator: bigint | number, denominator: bigint | number = 1n): Fraction {
+    const toBigInt = (value: bigint | number) => {
+      if (typeof value === 'bigint') return value;
+      if (!Number.isInteger(value)) throw new Error(t('fraction.nonInteger', { value }));
+      return BigInt(value);
+    };
+    return new Fraction(toBigInt(numerator), toBigInt(denominator));
+  }
+
+  // 將浮點數轉為最接近的分數（連分數展開），例如 4/3 的浮點值會還原為 4/3、0.1 還原為 1/10
+  static fromNumber(value: number): Fraction {
+    if (!Number.isFinite(value)) throw new Error(t('fraction.invalidNumber', { value }));
+    if (Number.isInteger(value)) return new Fraction(BigInt(value), 1n);
+
+    const target = Math.abs(value);
+    const tolerance = FROM_NUMBER_TOLERANCE * Math.max(1, target);
+    let [h1, h0] = [1n, 0n];
+    let [k1, k0] = [0n, 1n];
+    let x = target;
+
+    for (let i = 0; i < 64; i++) {
+      const whole = Math.floor(x);
+      const a = BigInt(whole);
+      [h1, h0] = [a * h1 + h0, h1];
+      [k1, k0] = [a * k1 + k0, k1];
+      if (Math.abs(Number(h1) / Number(k1) - target) <= tolerance || k1 > FROM_NUMBER_MAX_DENOMINATOR) break;
+      const rest = x - whole;
+      if (rest === 0) break;
+      x = 1 / rest;
+    }
+
+    return new Fraction(value < 0 ? -h1 : h1, k1);
+  }
+
+  // 數值或分數統一轉為分數
+  static from(value: Fraction | number): Fraction {
+    return value instanceof Fraction ? value : Fraction.fromNumber(value);
+  }
+
+  // 加總多個數值
+  static sum(values: (Fraction | number)[]): Fraction {
+    return values.reduce<Fraction>((total, value) => total.add(value), Fraction.ZERO);
+  }
+
+  add(other: Fraction | number): Fraction {
+    const value = Fraction.from(other);
+    return new Fraction(
+      this.numerator * value.denominator + value.numerator * this.denominator,
+      this.denominator * value.denominator
+    );
+  }
+
+  sub(other: Fraction | number): Fraction {
+    const value = Fraction.from(other);
+    return new Fraction(
+      this.numerator * value.denominator - value.numerator * this.denominator,
+      this.denominator * value.denominator
+    );
+  }
+
+  mul(other: Fraction | number): Fraction {
+    const value = Fraction.from(other);
+    return new Fraction(this.numerator * value.numerator, this.denominator * value.denominator);
+  }
+
+  div(other: Fraction | number): Fraction {
+    const value = Fraction.from(other);
+    if (value.numerator === 0n) throw new Error(t('fraction.divideByZero'));
+    return new Fraction(this.numerator * value.denominator, this.denominator * value.numerator);
+  }
+
+  // 比較大小：小於回傳負數、相等回傳 0、大於回傳正數
+  compare(other: Fraction | number): number {
+    const value = Fraction.from(other);
+    const diff = this.numerator * value.denominator - value.numerator * this.denominator;
+    return diff === 0n ? 0 : diff < 0n ? -1 : 1;
+  }
+
+  min(other: Fraction | number): Fraction {
+    const value = Fraction.from(other);
+    return this.compare(value) <= 0 ? this : value;
+  }
+
+  max(other: Fraction | number): Fraction {
+    const value = Fraction.from(other);
+    return this.compare(value) >= 0 ? this : value;
+  }
+
+  isZero(): boolean {
+    return this.numerator === 0n;
+  }
+
+  // 轉為浮點數（僅供顯示或比較，不可再參與金額運算）
+  toNumber(): number {
+    return Number(this.numerator) / Number(this.denominator);
+  }
+
+  // 捨入至指定小數位數；halfUp 為四捨五入（負數遠離 0）
+  round(decimals: number = 0, mode: RoundingMode = 'halfUp'): number {
+    return Number(this.roundScaled(decimals, mode)) / 10 ** decimals;
+  }
+
+  // 捨入後以分數表示，可繼續參與精確運算
+  roundToFraction(decimals: number = 0, mode: RoundingMode = 'halfUp'): Fraction {
+    return new Fraction(this.roundScaled(decimals, mode), 10n ** BigInt(decimals));
+  }
+
+  // 捨入後乘以 10^decimals 的整數值
+  private roundScaled(decimals: number, mode: RoundingMode): bigint {
+    const scaled = this.numerator * 10n ** BigInt(decimals);
+    const negative = scaled < 0n;
+    const absolute = negative ? -scaled : scaled;
+    let quotient = absolute / this.denominator;
+    const remainder = absolute % this.denominator;
+
+    if (remainder !== 0n) {
+      const roundAway = mode === 'halfUp'
+        ? remainder * 2n >= this.denominator
+        : mode === 'ceil' ? !negative : negative;
+      if (roundAway) quotient += 1n;
+    }
+
+    return negative ? -quotient : quotient;
+  }
+}
+
+// ===== 金額捨入 =====
+
+/** 金額保留的小數位數（元以下二位） */
+export const MONEY_DECIMALS = 2;
+
+// 金額唯一捨入點：所有金額以分數精確計算，僅在輸出結果時四捨五入至分。
+// 合計一律由精確值相加後再捨入，不加總已捨入的明細，因此明細加總可能與合計相差 0.01 元。
+export const toMoney = (value: Fraction): number => value.round(MONEY_DECIMALS);
+
+// 金額顯示字串（固定二位小數）
+export const formatMoney = (value: Fraction): string => toMoney(value).toFixed(MONEY_DECIMALS);
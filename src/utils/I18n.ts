@@ -0,0 +1,65 @@
+import type { Locale } from '../components/type.ts';
+import { enUS } from '../locales/en-US.ts';
+import { type MessageKey, zhTW } from '../locales/zh-TW.ts';
+
+// ===== 多語系 =====
+
+export type { MessageKey };
+
+/** 訊息參數，對應訊息中的 {name} */
+export type MessageParams = Record<string, string | number>;
+
+export const DEFAULT_LOCALE: Locale = 'zh-TW';
+
+export const LOCALES: Locale[] = ['zh-TW', 'en-US'];
+
+// 語言選單中的名稱，一律以該語言本身顯示
+export const LOCALE_LABELS: Record<Locale, string> = {
+  'zh-TW': '繁體中文',
+  'en-US': 'English'
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+  'zh-TW': zhTW,
+  'en-US': enUS
+};
+
+// 計算服務及工具函數產生訊息時使用的語系，由設定 store 同步
+let activeLocale: Locale = DEFAULT_LOCALE;
+
+export const setActiveLocale = (locale: Locale): void => {
+  activeLocale = locale;
+};
+
+export const getActiveLocale = (): Locale => activeLocale;
+
+// 依語系取得訊息並代入參數，例如 translate('en-US', 'tax.exemptHours', { hours: 46 })
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const template = MESSAGES[locale][key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? `${params[name]}` : match));
+};
+
+// 以目前語系取得訊息
+export const t = (key: MessageKey, params?: MessageParams): string => translate(activeLocale, key, params);
+
+// 依語系串接清單，例如「平日、休息日」或「weekday, rest day」
+export const joinList = (items: string[], locale: Locale = activeLocale): string =>
+  items.join(translate(locale, 'common.listSeparator'));
+
+// 數字顯示，預設最多保留至小數二位；金額小計可指定固定位數
+export const formatNumber = (
+  value: number,
+  locale: Locale = activeLocale,
+  maximumFractionDigits: number = 2,
+  minimumFractionDigits: number = 0
+): string => new Intl.NumberFormat(locale, { minimumFractionDigits, maximumFractionDigits }).format(value);
+
+// 金額顯示，幣別依適用法域，例如 $1,234（zh-TW）、NT$1,234（en-US）
+export const formatCurrency = (value: number, currency: string, locale: Locale = activeLocale): string =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency, minimumFractionDigits: 0, maximumFractionDigits: 2 }).format(value);
+
+// 幣別符號，供輸入框旁的單位顯示，例如 $（zh-TW）、NT$（en-US）
+export const getCurrencySymbol = (currency: string, locale: Locale = activeLocale): string =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency }).formatToParts(0)
+    .find(part => part.type === 'currency')?.value ?? currency;
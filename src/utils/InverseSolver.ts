@@ -0,0 +1,103 @@
+import type { ValueRange } from '../components/type.ts';
+
+// ===== 反推計算 =====
+//
+// 加班費對時數為分段線性且遞增（部分舊制以區塊計算，會出現同額的平坦區段），
+// 以二分法求出達到目標金額的最少與最多時數，兩者不同時表示範圍內皆為解。
+
+const BISECTION_ITERATIONS = 60;
+// 時數結果保留的小數位數
+const HOURS_DECIMALS = 4;
+
+const roundHours = (hours: number): number => Number(hours.toFixed(HOURS_DECIMALS));
+
+// 求單日時數範圍：payAt 須為遞增函數，tolerance 為可接受的金額誤差
+export const findHoursRange = (
+  payAt: (hours: number) => number,
+  targetPay: number,
+  maxHours: number,
+  tolerance: number
+): ValueRange | null => {
+  if (targetPay <= 0 || payAt(maxHours) < targetPay - tolerance) return null;
+
+  // 最少時數：第一個金額達到目標下限的時數
+  let low = 0;
+  let high = maxHours;
+  for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (payAt(mid) >= targetPay - tolerance) high = mid;
+    else low = mid;
+  }
+  const min = high;
+  if (payAt(min) > targetPay + tolerance) return null;
+
+  // 最多時數：最後一個金額未超過目標上限的時數
+  low = min;
+  high = maxHours;
+  if (payAt(maxHours) <= targetPay + tolerance) {
+    low = maxHours;
+  } else {
+    for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+      const mid = (low + high) / 2;
+      if (payAt(mid) <= targetPay + tolerance) low = mid;
+      else high = mid;
+    }
+  }
+
+  return { min: roundHours(min), max: roundHours(low) };
+};
+
+/** 多日拆分搜尋選項 */
+export interface HourSplitOptions {
+  /** 每日時數的計算單位 */
+  step: number;
+  /** 單日時數上限 */
+  maxHours: number;
+  /** 最多拆分天數 */
+  maxDays: number;
+  /** 可接受的金額誤差 */
+  tolerance: number;
+  /** 最多回傳組數 */
+  limit: number;
+}
+
+// 列出多日時數組合（各日時數由大到小排列，避免重複），合計金額與目標相差不超過誤差
+export const findHourSplits = (
+  payAt: (hours: number) => number,
+  targetPay: number,
+  options: HourSplitOptions
+): number[][] => {
+  const { step, maxHours, maxDays, tolerance, limit } = options;
+  const candidates: { hours: number; pay: number }[] = [];
+  for (let units = Math.floor(maxHours / step); units >= 1; units--) {
+    const hours = roundHours(units * step);
+    candidates.push({ hours, pay: payAt(hours) });
+  }
+  if (candidates.length === 0) return [];
+
+  const maxPay = candidates[0].pay;
+  const minPay = candidates[candidates.length - 1].pay;
+  const results: number[][] = [];
+
+  const search = (start: number, days: number[], total: number, daysLeft: number): void => {
+    if (results.length >= limit) return;
+    if (days.length >= 2 && Math.abs(total - targetPay) <= tolerance) {
+      results.push([...days]);
+    }
+    if (daysLeft === 0) return;
+
+    for (let i = start; i < candidates.length; i++) {
+      const next = total + candidates[i].pay;
+      // 金額遞減排列：本日已超過目標就換較少時數，剩餘天數全取最多也不足就停止
+      if (next - tolerance > targetPay) continue;
+      if (next + maxPay * (daysLeft - 1) < targetPay - tolerance) break;
+      days.push(candidates[i].hours);
+      search(i, days, next, daysLeft - 1);
+      days.pop();
+      if (results.length >= limit) return;
+    }
+  };
+
+  if (targetPay > 0 && minPay > 0) search(0, [], 0, maxDays);
+  return results.sort((a, b) => a.length - b.length);
+};
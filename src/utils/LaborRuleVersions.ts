@@ -0,0 +1,62 @@
+import type { LaborRuleVersion } from '../components/type.ts';
+import { compareDateStrings, isValidDateString } from './DateUtils.ts';
+import { t } from './I18n.ts';
+
+// ===== 勞基法歷次修正之計算規則（依施行日排序） =====
+export const LABOR_RULE_VERSIONS: LaborRuleVersion[] = [
+  {
+    id: 'LSA-2016',
+    name: '2016年以前',
+    effectiveFrom: '1984-08-01',
+    effectiveTo: '2016-12-22',
+    description: '尚未區分休息日，休息日出勤依平日延長工時倍率計算',
+    rateOverrides: {
+      tiers: {
+        restDay: [
+          { upToHours: 2, multiplier: 4 / 3 },
+          { upToHours: 8, multiplier: 5 / 3 },
+          { upToHours: null, multiplier: 5 / 3 }
+        ]
+      }
+    }
+  },
+  {
+    id: 'LSA-2017',
+    name: '2017年一例一休',
+    // 一例一休修正自公布日施行，僅第34條第2項、第37條第4項、第38條延至2017-01-01
+    effectiveFrom: '2016-12-23',
+    effectiveTo: '2018-02-28',
+    description: '休息日工作4小時內以4小時計、逾4至8小時以8小時計、逾8至12小時以12小時計',
+    rateOverrides: {},
+    restDayHourBlocks: [4, 8, 12]
+  },
+  {
+    id: 'LSA-2018',
+    name: '2018年修正（現行）',
+    effectiveFrom: '2018-03-01',
+    description: '休息日工作依實際工作時數計算',
+    rateOverrides: {}
+  }
+];
+
+// 依版本代碼取得法規版本
+export const getRuleVersionById = (id: string, versions: LaborRuleVersion[] = LABOR_RULE_VERSIONS): LaborRuleVersion => {
+  const version = versions.find(item => item.id === id);
+  if (!version) throw new Error(t('ruleVersion.notFound', { id }));
+  return version;
+};
+
+// 依工作日期取得當時施行的法規版本
+export const resolveRuleVersion = (date: string, versions: LaborRuleVersion[] = LABOR_RULE_VERSIONS): LaborRuleVersion => {
+  if (!isValidDateString(date)) throw new Error(t('date.invalidDate', { date }));
+
+  const version = versions.find(item =>
+    compareDateStrings(item.effectiveFrom, date) <= 0
+    && (!item.effectiveTo || compareDateStrings(date, item.effectiveTo) <= 0)
+  );
+  if (!version) throw new Error(t('ruleVersion.noneForDate', { date }));
+  return version;
+};
+
+// 取得現行法規版本
+export const getLatestRuleVersion = (): LaborRuleVersion => LABOR_RULE_VERSIONS[LABOR_RULE_VERSIONS.length - 1];
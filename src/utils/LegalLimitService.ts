@@ -0,0 +1,139 @@
+import type { LegalLimitCheck, MonthlyOvertimeSummary, OvertimeLimitRule } from '../components/type.ts';
+import { shiftMonthKey } from './DateUtils.ts';
+import { Fraction } from './Fraction.ts';
+import { t } from './I18n.ts';
+
+// ===== 勞基法第32條延長工時上限 =====
+export const OVERTIME_LIMITS: OvertimeLimitRule = {
+  monthly: 46,
+  monthlyWithConsent: 54,
+  quarterly: 138,
+  quarterlyWithConsent: 138,
+  consentLabel: '經工會或勞資會議同意',
+  overLimitSuggestion: '超出上限部分建議改排於其他月份，或依第32條之1改以補休方式處理',
+  emergencyNote: '天災、事變或突發事件之延長工時不受上限限制，但應於延長開始後24小時內通知工會或報當地主管機關備查'
+};
+
+/** 單筆延長工時紀錄 */
+export interface OvertimeHoursRecord {
+  /** 月份（YYYY-MM），快速輸入時為 null */
+  month: string | null;
+  /** 平日延長工時（不含天災事變） */
+  weekdayOvertimeHours: number;
+  /** 休息日工作時數 */
+  restDayHours: number;
+  /** 國定假日及例假出勤超過8小時的延長工時 */
+  holidayOvertimeHours: number;
+}
+
+/** 延長工時上限檢查選項 */
+export interface OvertimeLimitOptions {
+  /** 是否經同意放寬上限（台灣經工會或勞資會議同意後單月上限放寬為54小時） */
+  withConsent?: boolean;
+  /** 平日加班是否屬天災、事變或突發事件 */
+  isEmergency?: boolean;
+  /** 適用的上限，預設為勞基法第32條 */
+  limits?: OvertimeLimitRule;
+}
+
+// 將紀錄依月份彙總，並計算連續三個月的滾動合計
+export const summarizeMonthlyOvertime = (
+  records: OvertimeHoursRecord[],
+  monthlyLimit: number,
+  quarterlyLimit: number = OVERTIME_LIMITS.quarterly
+): MonthlyOvertimeSummary[] => {
+  // 以精確值依月份累加，避免浮點誤差使剛好等於上限的合計被判定為超過
+  const byMonth = new Map<string | null, { weekday: Fraction; restDay: Fraction; holiday: Fraction }>();
+  records.forEach(record => {
+    const totals = byMonth.get(record.month) ?? { weekday: Fraction.ZERO, restDay: Fraction.ZERO, holiday: Fraction.ZERO };
+    byMonth.set(record.month, {
+      weekday: totals.weekday.add(Fraction.fromNumber(record.weekdayOvertimeHours)),
+      restDay: totals.restDay.add(Fraction.fromNumber(record.restDayHours)),
+      holiday: totals.holiday.add(Fraction.fromNumber(record.holidayOvertimeHours))
+    });
+  });
+
+  const months = [...byMonth.keys()].sort((a, b) => (a ?? '').localeCompare(b ?? ''));
+  const monthTotals = new Map(months.map(month => {
+    const totals = byMonth.get(month)!;
+    return [month, Fraction.sum([totals.weekday, totals.restDay, totals.holiday])];
+  }));
+
+  return months.map((month): MonthlyOvertimeSummary => {
+    const totals = byMonth.get(month)!;
+    const totalHours = monthTotals.get(month)!;
+    const windowMonths = month === null ? [] : [0, -1, -2].map(offset => shiftMonthKey(month, offset));
+    const rollingQuarterHours = month === null
+      ? totalHours
+      : Fraction.sum(months
+        .filter(other => other !== null && windowMonths.includes(other))
+        .map(other => monthTotals.get(other)!));
+    return {
+      month,
+      weekdayOvertimeHours: totals.weekday.toNumber(),
+      restDayHours: totals.restDay.toNumber(),
+      holidayOvertimeHours: totals.holiday.toNumber(),
+      totalHours: totalHours.toNumber(),
+      rollingQuarterHours: rollingQuarterHours.toNumber(),
+      monthlyLimit,
+      quarterlyLimit
+    };
+  });
+};
+
+// 檢查每月及每三個月延長工時是否超過法定上限
+export const checkOvertimeLimits = (
+  records: OvertimeHoursRecord[],
+  options: OvertimeLimitOptions = {}
+): LegalLimitCheck => {
+  const limits = options.limits ?? OVERTIME_LIMITS;
+  const monthlyLimit = options.withConsent ? limits.monthlyWithConsent : limits.monthly;
+  const quarterlyLimit = options.withConsent ? limits.quarterlyWithConsent : limits.quarterly;
+  const summaries = summarizeMonthlyOvertime(records, monthlyLimit, quarterlyLimit);
+  const warnings: string[] = [];
+  const suggestions: string[] = [];
+
+  summaries.forEach(summary => {
+    const label = summary.month ?? t('limit.currentPeriod');
+    if (summary.totalHours > monthlyLimit) {
+      warnings.push(t('limit.monthlyExceeded', { label, hours: summary.totalHours, limit: monthlyLimit }));
+    }
+    if (summary.rollingQuarterHours > quarterlyLimit) {
+      warnings.push(t('limit.quarterlyExceeded', { label, hours: summary.rollingQuarterHours, limit: quarterlyLimit }));
+    }
+    if (!options.withConsent
+      && summary.totalHours > limits.monthly
+      && summary.totalHours <= limits.monthlyWithConsent) {
+      suggestions.push(t('limit.consentSuggestion', {
+        label,
+        consentLabel: limits.consentLabel,
+        monthlyLimit: limits.monthlyWithConsent,
+        quarterlyLimit: limits.quarterlyWithConsent
+      }));
+    }
+  });
+
+  const latest = summaries[summaries.length - 1];
+  const remainingQuarterlyHours = Fraction.fromNumber(quarterlyLimit).sub(Fraction.fromNumber(latest?.rollingQuarterHours ?? 0)).max(0);
+  const remainingMonthlyHours = Fraction.fromNumber(monthlyLimit).sub(Fraction.fromNumber(latest?.totalHours ?? 0)).max(0)
+    .min(remainingQuarterlyHours)
+    .toNumber();
+
+  if (warnings.length > 0) {
+    suggestions.push(limits.overLimitSuggestion);
+  } else if (latest && remainingMonthlyHours <= monthlyLimit * 0.2) {
+    suggestions.push(t('limit.remainingHours', { label: latest.month ?? t('limit.currentPeriod'), hours: remainingMonthlyHours }));
+  }
+  if (options.isEmergency) {
+    suggestions.push(limits.emergencyNote);
+  }
+
+  return {
+    isWithinLimit: warnings.length === 0,
+    warnings,
+    suggestions,
+    monthlySummaries: summaries,
+    remainingMonthlyHours,
+    remainingQuarterlyHours: remainingQuarterlyHours.toNumber()
+  };
+};
@@ -0,0 +1,25 @@
+import type { MinimumWageEntry } from '../components/type.ts';
+import { compareDateStrings, isValidDateString } from './DateUtils.ts';
+import { t } from './I18n.ts';
+
+// ===== 基本工資／最低工資歷年公告（依生效日排序） =====
+export const MINIMUM_WAGE_TABLE: MinimumWageEntry[] = [
+  { effectiveFrom: '2017-01-01', monthly: 21009, hourly: 133 },
+  { effectiveFrom: '2018-01-01', monthly: 22000, hourly: 140 },
+  { effectiveFrom: '2019-01-01', monthly: 23100, hourly: 150 },
+  { effectiveFrom: '2020-01-01', monthly: 23800, hourly: 158 },
+  { effectiveFrom: '2021-01-01', monthly: 24000, hourly: 160 },
+  { effectiveFrom: '2022-01-01', monthly: 25250, hourly: 168 },
+  { effectiveFrom: '2023-01-01', monthly: 26400, hourly: 176 },
+  { effectiveFrom: '2024-01-01', monthly: 27470, hourly: 183 },
+  { effectiveFrom: '2025-01-01', monthly: 28590, hourly: 190 },
+  { effectiveFrom: '2026-01-01', monthly: 29500, hourly: 196 }
+];
+
+// 取得指定日期適用的最低工資，早於表列最早生效日時回傳 null
+export const getMinimumWage = (date: string): MinimumWageEntry | null => {
+  if (!isValidDateString(date)) throw new Error(t('date.invalidDate', { date }));
+
+  const applicable = MINIMUM_WAGE_TABLE.filter(entry => compareDateStrings(entry.effectiveFrom, date) <= 0);
+  return applicable.length > 0 ? applicable[applicable.length - 1] : null;
+};
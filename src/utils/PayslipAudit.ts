@@ -0,0 +1,101 @@
+import type {
+  AuditStatus,
+  ComprehensiveResult,
+  PayslipAuditLine,
+  PayslipAuditResult,
+  JurisdictionRulePack,
+  PayslipPaidAmounts,
+  StatutoryCategory
+} from '../components/type.ts';
+import { Fraction, toMoney } from './Fraction.ts';
+import { formatCurrency, joinList, t } from './I18n.ts';
+import { STATUTORY_CATEGORIES } from './WorkDayCategories.ts';
+
+// ===== 薪資單稽核 =====
+
+export const getAuditStatusLabel = (status: AuditStatus): string => t(`audit.status.${status}`);
+
+// 差額判斷：以分為單位比較，避免浮點誤差
+const getAuditStatus = (difference: Fraction): AuditStatus => {
+  const cents = difference.round(2);
+  return cents < 0 ? 'shortfall' : cents > 0 ? 'overpaid' : 'match';
+};
+
+// 單行說明，例如：平日加班：依法應發 $1,400，實發 $1,200，短發 $200
+const describeLine = (label: string, legal: Fraction, paid: Fraction, status: AuditStatus, currency: string): string => {
+  const difference = paid.sub(legal);
+  const result = status === 'match'
+    ? t('audit.amountMatches')
+    : t('audit.difference', {
+      status: getAuditStatusLabel(status),
+      amount: formatCurrency(toMoney(status === 'shortfall' ? difference.mul(-1) : difference), currency)
+    });
+  return t('audit.line', {
+    label,
+    legal: formatCurrency(toMoney(legal), currency),
+    paid: formatCurrency(toMoney(paid), currency),
+    result
+  });
+};
+
+// 比對雇主實發金額與依法應發金額；只列出有應發金額或有填寫實發金額的類別
+export const auditPayslip = (
+  result: ComprehensiveResult,
+  paidAmounts: PayslipPaidAmounts,
+  rulePack: Pick<JurisdictionRulePack, 'categoryLabels' | 'currency'>
+): PayslipAuditResult => {
+  const { categoryLabels, currency } = rulePack;
+  const rows = STATUTORY_CATEGORIES
+    .filter(category => result.calculations[category] !== undefined || paidAmounts[category] !== undefined)
+    .map(category => {
+      const legal = Fraction.fromNumber(result.calculations[category]?.pay ?? 0);
+      const paid = Fraction.fromNumber(paidAmounts[category] ?? 0);
+      return { category, legal, paid, status: getAuditStatus(paid.sub(legal)) };
+    });
+
+  const totalLegal = Fraction.sum(rows.map(row => row.legal));
+  const totalPaid = Fraction.sum(rows.map(row => row.paid));
+  const status = getAuditStatus(totalPaid.sub(totalLegal));
+
+  const lines: PayslipAuditLine[] = rows.map(row => ({
+    category: row.category,
+    legalPay: toMoney(row.legal),
+    paidPay: toMoney(row.paid),
+    difference: toMoney(row.paid.sub(row.legal)),
+    status: row.status
+  }));
+
+  const summary = [
+    t('audit.title'),
+    t('audit.basis', {
+      hourlyRate: formatCurrency(result.hourlyRate, currency),
+      dailyWage: formatCurrency(result.dailyWage, currency)
+    }),
+    '',
+    ...rows.map(row => describeLine(categoryLabels[row.category], row.legal, row.paid, row.status, currency)),
+    '',
+    describeLine(t('audit.total'), totalLegal, totalPaid, status, currency),
+    ...(result.ruleVersions && result.ruleVersions.length > 0
+      ? [t('audit.ruleVersions', { names: joinList(result.ruleVersions.map(version => version.name)) })]
+      : []),
+    ...(Object.keys(result.calculations).some(category => !STATUTORY_CATEGORIES.includes(category as StatutoryCategory))
+      ? [t('audit.premiumsExcluded')]
+      : []),
+    '',
+    status === 'shortfall'
+      ? t('audit.conclusion.shortfall')
+      : rows.some(row => row.status === 'shortfall')
+        ? t('audit.conclusion.partial')
+        : t('audit.conclusion.ok'),
+    t('audit.disclaimer')
+  ].join('\n');
+
+  return {
+    lines,
+    totalLegal: toMoney(totalLegal),
+    totalPaid: toMoney(totalPaid),
+    totalDifference: toMoney(totalPaid.sub(totalLegal)),
+    status,
+    summary
+  };
+};
@@ -0,0 +1,123 @@
+import type { JurisdictionRulePack, PremiumCategory, PremiumRule, WorkDayType } from '../components/type.ts';
+import { Fraction } from './Fraction.ts';
+import { joinList, t } from './I18n.ts';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/** 實際工作時段，用於計算時段加給 */
+export interface WorkPeriod {
+  /** 開始時間（HH:MM） */
+  start: string;
+  /** 時段長度（小時） */
+  hours: Fraction;
+  /** 時段內實際工作的比例；休息時點不明、依比例扣除時小於 1 */
+  workedRatio: Fraction;
+}
+
+const PREMIUM_CATEGORY_PREFIX = '加給：';
+const MONTHLY_SURCHARGE_KEY = 'monthlySurcharge:';
+
+// 加給項目在計算結果中的類別名稱
+export const getPremiumCategory = (rule: PremiumRule): PremiumCategory => `${PREMIUM_CATEGORY_PREFIX}${rule.name}`;
+
+// 法定加給及每月延長工時加給的名稱會依語系翻譯，類別名稱改用規則代碼及門檻時數，
+// 使不同語系下的計算結果仍能對齊，顯示時再由 getCategoryLabel 翻譯
+export const getStatutoryPremiumCategory = (rule: PremiumRule): PremiumCategory => `${PREMIUM_CATEGORY_PREFIX}${rule.id}`;
+
+export const getMonthlySurchargeCategory = (thresholdHours: number): PremiumCategory =>
+  `${PREMIUM_CATEGORY_PREFIX}${MONTHLY_SURCHARGE_KEY}${thresholdHours}`;
+
+// 計算類別的顯示名稱：法定類別及法定加給依規則包，其餘加給類別依語系顯示加給名稱
+export const getCategoryLabel = (
+  category: string,
+  rulePack: Pick<JurisdictionRulePack, 'categoryLabels' | 'statutoryPremiums'>
+): string => {
+  if (category in rulePack.categoryLabels) return rulePack.categoryLabels[category as keyof typeof rulePack.categoryLabels];
+  if (!category.startsWith(PREMIUM_CATEGORY_PREFIX)) return category;
+
+  const key = category.slice(PREMIUM_CATEGORY_PREFIX.length);
+  const statutoryRule = rulePack.statutoryPremiums.find(rule => rule.id === key);
+  const name = statutoryRule
+    ? statutoryRule.name
+    : key.startsWith(MONTHLY_SURCHARGE_KEY)
+      ? t('category.monthlySurcharge', { hours: Number(key.slice(MONTHLY_SURCHARGE_KEY.length)) })
+      : key;
+  return t('category.premium', { name });
+};
+
+// 解析 HH:MM 為當日分鐘數，格式錯誤時回傳 null
+export const parseTimeOfDay = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (hour > 23 || minute > 59) return null;
+  return hour * 60 + minute;
+};
+
+// 當日分鐘數轉為 HH:MM，超過一日者取餘數
+export const formatTimeOfDay = (minutes: number): string => {
+  const normalized = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(normalized / 60)).padStart(2, '0')}:${String(normalized % 60).padStart(2, '0')}`;
+};
+
+// 檢查規則設定，回傳錯誤訊息（無錯誤時為空陣列）
+export const validatePremiumRule = (rule: PremiumRule): string[] => {
+  const errors: string[] = [];
+  if (!rule.name.trim()) errors.push(t('premium.nameRequired'));
+  if (!Number.isFinite(rule.amount) || rule.amount <= 0) errors.push(t('premium.amountPositive', { name: rule.name }));
+  if (rule.timeWindow) {
+    const start = parseTimeOfDay(rule.timeWindow.start);
+    const end = parseTimeOfDay(rule.timeWindow.end);
+    if (start === null || end === null) errors.push(t('clock.invalidWindowFormat', { name: rule.name }));
+    else if (start === end) errors.push(t('clock.windowSameStartEnd', { name: rule.name }));
+  }
+  return errors;
+};
+
+// 規則是否適用於該工作日類型
+export const isPremiumApplicableTo = (rule: PremiumRule, dayType: WorkDayType): boolean => {
+  return !rule.dayTypes || rule.dayTypes.length === 0 || rule.dayTypes.includes(dayType);
+};
+
+// 計算工作時段與加給時段重疊的時數；時段跨午夜時，前一日、當日及次日的時段都納入比對
+export const getWindowOverlapHours = (startTime: string, hours: Fraction | number, window: { start: string; end: string }): Fraction => {
+  const workStart = parseTimeOfDay(startTime);
+  const windowStart = parseTimeOfDay(window.start);
+  const windowEnd = parseTimeOfDay(window.end);
+  if (workStart === null || windowStart === null || windowEnd === null || Fraction.from(hours).compare(0) <= 0) return Fraction.ZERO;
+
+  const start = Fraction.of(workStart);
+  const end = start.add(Fraction.from(hours).mul(60));
+  const windowLength = windowEnd > windowStart ? windowEnd - windowStart : windowEnd + MINUTES_PER_DAY - windowStart;
+
+  let overlapMinutes = Fraction.ZERO;
+  for (let day = -1; day <= 2; day++) {
+    const occurrenceStart = Fraction.of(windowStart + day * MINUTES_PER_DAY);
+    const occurrenceEnd = occurrenceStart.add(windowLength);
+    const overlap = end.min(occurrenceEnd).sub(start.max(occurrenceStart));
+    if (overlap.compare(0) > 0) overlapMinutes = overlapMinutes.add(overlap);
+  }
+
+  return overlapMinutes.div(60);
+};
+
+// 各工作時段落在加給時段內的實際工作時數合計
+export const getWorkPeriodsOverlapHours = (periods: WorkPeriod[], window: { start: string; end: string }): Fraction =>
+  Fraction.sum(periods.map(period => getWindowOverlapHours(period.start, period.hours, window).mul(period.workedRatio)));
+
+// 規則說明，例如：休息日 22:00 ~ 06:00，每小時加給時薪 × 0.5
+export const describePremiumRule = (
+  rule: Pick<PremiumRule, 'timeWindow' | 'dayTypes' | 'amountType' | 'amount'>,
+  dayTypeLabels: Record<WorkDayType, string>
+): string => {
+  const dayTypes = rule.dayTypes && rule.dayTypes.length > 0
+    ? joinList(rule.dayTypes.map(dayType => dayTypeLabels[dayType]))
+    : t('premium.allDayTypes');
+  const window = rule.timeWindow ? ` ${rule.timeWindow.start} ~ ${rule.timeWindow.end}` : '';
+  const amount = rule.amountType === 'rate'
+    ? t('premium.rateAmount', { amount: rule.amount })
+    : t('premium.flatAmount', { amount: rule.amount });
+  return t('premium.description', { dayTypes, window, amount });
+};
@@ -0,0 +1,169 @@
+import type { CalculationSegmentStep, RateTier, RateTierTable, WorkDayType } from '../components/type.ts';
+import { Fraction } from './Fraction.ts';
+import { t } from './I18n.ts';
+
+// ===== 加班費級距 =====
+
+// 勞基法第24條及第39條之法定級距
+export const DEFAULT_RATE_TIERS: RateTierTable = {
+  weekday: [
+    { upToHours: 2, multiplier: 4 / 3 },      // 前2小時：1又1/3倍
+    { upToHours: 4, multiplier: 5 / 3 },      // 再延長2小時：1又2/3倍
+    { upToHours: null, multiplier: 5 / 3 }    // 超過4小時部分：1又2/3倍
+  ],
+  restDay: [
+    { upToHours: 2, multiplier: 4 / 3 },      // 前2小時：1又1/3倍
+    { upToHours: 8, multiplier: 5 / 3 },      // 2-8小時：1又2/3倍
+    { upToHours: null, multiplier: 8 / 3 }    // 超過8小時：2又2/3倍
+  ],
+  holiday: [
+    { upToHours: 8, multiplier: 2 },          // 8小時內：2倍
+    { upToHours: 10, multiplier: 4 / 3 },     // 超過8小時之前2小時：1又1/3倍
+    { upToHours: null, multiplier: 5 / 3 }    // 超過10小時：1又2/3倍
+  ],
+  regularDayOff: [
+    { upToHours: 8, multiplier: 2 },
+    { upToHours: 10, multiplier: 4 / 3 },
+    { upToHours: null, multiplier: 5 / 3 }
+  ]
+};
+
+/** v8 以前以固定欄位保存的各級距倍率 */
+export interface LegacyTierRates {
+  weekdayFirst2hr: number;
+  weekdayNext2hr: number;
+  restDayFirst2hr: number;
+  restDay2to8hr: number;
+  restDayOver8hr: number;
+  holidayRate: number;
+  holidayOver8First2hr: number;
+  holidayOver8Next2hr: number;
+  regularDayOffRate: number;
+  regularDayOffOver8First2hr: number;
+  regularDayOffOver8Next2hr: number;
+}
+
+// 舊版固定欄位倍率轉為級距，級距時數沿用法定級距
+export const buildTiersFromLegacyRates = (rates: LegacyTierRates): RateTierTable => ({
+  weekday: [
+    { upToHours: 2, multiplier: rates.weekdayFirst2hr },
+    { upToHours: 4, multiplier: rates.weekdayNext2hr },
+    { upToHours: null, multiplier: rates.weekdayNext2hr }
+  ],
+  restDay: [
+    { upToHours: 2, multiplier: rates.restDayFirst2hr },
+    { upToHours: 8, multiplier: rates.restDay2to8hr },
+    { upToHours: null, multiplier: rates.restDayOver8hr }
+  ],
+  holiday: [
+    { upToHours: 8, multiplier: rates.holidayRate },
+    { upToHours: 10, multiplier: rates.holidayOver8First2hr },
+    { upToHours: null, multiplier: rates.holidayOver8Next2hr }
+  ],
+  regularDayOff: [
+    { upToHours: 8, multiplier: rates.regularDayOffRate },
+    { upToHours: 10, multiplier: rates.regularDayOffOver8First2hr },
+    { upToHours: null, multiplier: rates.regularDayOffOver8Next2hr }
+  ]
+});
+
+// 解析倍率輸入，支援分數 (4/3)、小數 (1.333) 或整數 (2)；格式錯誤或不大於 0 時回傳 null
+export const parseMultiplier = (input: string): number | null => {
+  const parts = input.trim().split('/');
+  if (parts.length > 2 || parts.some(part => !part.trim())) return null;
+
+  const numerator = Number(parts[0]);
+  const denominator = parts.length === 2 ? Number(parts[1]) : 1;
+  const value = numerator / denominator;
+  return Number.isFinite(value) && value > 0 ? value : null;
+};
+
+// 倍率輸入框的顯示值，常見分數以分數表示
+export const formatMultiplierInput = (multiplier: number): string => {
+  if (Math.abs(multiplier - 4 / 3) < 0.001) return '4/3';
+  if (Math.abs(multiplier - 5 / 3) < 0.001) return '5/3';
+  if (Math.abs(multiplier - 8 / 3) < 0.001) return '8/3';
+  if (Math.abs(multiplier - 2) < 0.001) return '2';
+  return multiplier.toFixed(3);
+};
+
+// 倍率說明，例如：1又1/3倍 (4/3)
+export const describeMultiplier = (multiplier: number): string => {
+  if (Math.abs(multiplier - 4 / 3) < 0.001) return t('tier.multiplier.fourThirds');
+  if (Math.abs(multiplier - 5 / 3) < 0.001) return t('tier.multiplier.fiveThirds');
+  if (Math.abs(multiplier - 8 / 3) < 0.001) return t('tier.multiplier.eightThirds');
+  if (Math.abs(multiplier - 2) < 0.001) return t('tier.multiplier.other', { multiplier: 2 });
+  return t('tier.multiplier.other', { multiplier: multiplier.toFixed(3) });
+};
+
+// 級距範圍說明，例如：前2小時、2-8小時、超過8小時部分
+export const describeTierRange = (lowerHours: number, upToHours: number | null): string => {
+  if (upToHours === null) return lowerHours === 0 ? t('tier.range.all') : t('tier.range.above', { lowerHours });
+  return lowerHours === 0 ? t('tier.range.first', { upToHours }) : t('tier.range.between', { lowerHours, upToHours });
+};
+
+// 檢查單一工作日類型的級距，回傳錯誤訊息（無錯誤時為空陣列）
+export const validateRateTiers = (tiers: RateTier[], label: string): string[] => {
+  if (tiers.length === 0) return [t('tier.error.empty', { label })];
+
+  const errors: string[] = [];
+  let lowerHours = 0;
+  tiers.forEach((tier, index) => {
+    const isLast = index === tiers.length - 1;
+    if (!Number.isFinite(tier.multiplier) || tier.multiplier <= 0) {
+      errors.push(t('tier.error.multiplier', { label, index: index + 1 }));
+    }
+    if (tier.upToHours === null) {
+      if (!isLast) errors.push(t('tier.error.unboundedNotLast', { label }));
+      return;
+    }
+    if (isLast) errors.push(t('tier.error.lastBounded', { label }));
+    if (!Number.isFinite(tier.upToHours) || tier.upToHours <= lowerHours) {
+      errors.push(t('tier.error.upperBound', { label, index: index + 1, lowerHours }));
+      return;
+    }
+    lowerHours = tier.upToHours;
+  });
+  return errors;
+};
+
+// 檢查全部級距
+export const validateRateTierTable = (table: RateTierTable, labels: Record<WorkDayType, string>): string[] =>
+  (Object.keys(labels) as WorkDayType[]).flatMap(dayType => validateRateTiers(table[dayType], labels[dayType]));
+
+/** 級距計算結果 */
+export interface TierEvaluation {
+  pay: Fraction;
+  steps: CalculationSegmentStep[];
+}
+
+/** 單一級距的計算結果 */
+export interface TierSegment {
+  pay: Fraction;
+  step: CalculationSegmentStep;
+}
+
+// 依級距逐段計算：segment 計算單一級距的金額（含捨入）及步驟，range 為該級距的上下限
+export const evaluateTiers = (
+  hours: Fraction,
+  tiers: RateTier[],
+  segment: (hours: Fraction, multiplier: number, range: { lowerHours: number; upToHours: number | null }) => TierSegment
+): TierEvaluation => {
+  let pay = Fraction.ZERO;
+  const steps: CalculationSegmentStep[] = [];
+  let lowerHours = 0;
+
+  for (const tier of tiers) {
+    if (hours.compare(lowerHours) <= 0) break;
+
+    const upper = tier.upToHours === null ? hours : hours.min(tier.upToHours);
+    const result = segment(upper.sub(lowerHours), tier.multiplier, { lowerHours, upToHours: tier.upToHours });
+    pay = pay.add(result.pay);
+    steps.push(result.step);
+
+    if (tier.upToHours === null) break;
+    lowerHours = tier.upToHours;
+  }
+
+  return { pay, steps };
+};
@@ -0,0 +1,80 @@
+import type { RoundingAdjustment, RoundingPolicy, RoundingRule, RoundingStage, RoundingStrategy } from '../components/type.ts';
+import { Fraction } from './Fraction.ts';
+import { t } from './I18n.ts';
+
+// ===== 預設捨入規則 =====
+// 時薪無條件進位至整數元（保護勞工權益），其餘階段不捨入，總額四捨五入至分
+export const DEFAULT_ROUNDING_POLICY: RoundingPolicy = {
+  hourlyRate: { mode: 'ceil', decimals: 0 },
+  segment: { mode: 'none', decimals: 2 },
+  daily: { mode: 'none', decimals: 2 },
+  total: { mode: 'halfUp', decimals: 2 }
+};
+
+// ===== 顯示用標籤 =====
+export const ROUNDING_STAGES: RoundingStage[] = ['hourlyRate', 'segment', 'daily', 'total'];
+
+export const ROUNDING_STRATEGIES: RoundingStrategy[] = ['none', 'halfUp', 'ceil', 'floor'];
+
+export const getRoundingStageLabel = (stage: RoundingStage): string => t(`rounding.stage.${stage}`);
+
+export const getRoundingStrategyLabel = (strategy: RoundingStrategy): string => t(`rounding.strategy.${strategy}`);
+
+// 可選的保留小數位數
+export const ROUNDING_DECIMAL_OPTIONS = [0, 1, 2];
+
+// 規則說明，例如：無條件進位至整數元
+export const describeRoundingRule = (rule: RoundingRule): string => {
+  if (rule.mode === 'none') return getRoundingStrategyLabel('none');
+  const unit = rule.decimals === 0 ? t('rounding.unitInteger') : t('rounding.unitDecimals', { decimals: rule.decimals });
+  return t('rounding.rule', { strategy: getRoundingStrategyLabel(rule.mode), unit });
+};
+
+// 舊版「無條件進位／四捨五入」開關轉換為捨入規則
+export const fromCeilingSetting = (useCeilingCalculation: boolean): RoundingPolicy => ({
+  ...DEFAULT_ROUNDING_POLICY,
+  hourlyRate: useCeilingCalculation ? { mode: 'ceil', decimals: 0 } : { mode: 'none', decimals: 2 }
+});
+
+// 依規則捨入，不捨入時原值傳回
+export const applyRoundingRule = (value: Fraction, rule: RoundingRule): Fraction => {
+  return rule.mode === 'none' ? value : value.roundToFraction(rule.decimals, rule.mode);
+};
+
+// 套用捨入規則並記錄各階段發生捨入的次數與差額
+export class RoundingRecorder {
+  readonly policy: RoundingPolicy;
+  private readonly records = new Map<RoundingStage, { count: number; difference: Fraction }>();
+
+  constructor(policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY) {
+    this.policy = policy;
+  }
+
+  // 依指定階段的規則捨入
+  apply(stage: RoundingStage, value: Fraction): Fraction {
+    const rounded = applyRoundingRule(value, this.policy[stage]);
+    if (rounded.compare(value) !== 0) {
+      const record = this.records.get(stage) ?? { count: 0, difference: Fraction.ZERO };
+      this.records.set(stage, {
+        count: record.count + 1,
+        difference: record.difference.add(rounded.sub(value))
+      });
+    }
+    return rounded;
+  }
+
+  // 依計算順序列出實際發生捨入的階段
+  getAdjustments(): RoundingAdjustment[] {
+    return ROUNDING_STAGES
+      .filter(stage => this.records.has(stage))
+      .map(stage => {
+        const record = this.records.get(stage)!;
+        return {
+          stage,
+          rule: this.policy[stage],
+          count: record.count,
+          difference: record.difference.round(4)
+        };
+      });
+  }
+}
@@ -0,0 +1,157 @@
+import type {
+  JurisdictionId,
+  JurisdictionRulePack,
+  LaborRuleVersion,
+  Locale,
+  RulePackTranslation
+} from '../components/type.ts';
+import { enUSRulePacks } from '../locales/en-US.ts';
+import { STATUTORY_BREAK_AFTER_HOURS, STATUTORY_BREAK_MINUTES } from './ClockTime.ts';
+import { getActiveLocale, t } from './I18n.ts';
+import { LABOR_RULE_VERSIONS } from './LaborRuleVersions.ts';
+import { OVERTIME_LIMITS } from './LegalLimitService.ts';
+import { DEFAULT_RATE_TIERS } from './RateTiers.ts';
+
+// ===== 法域規則包 =====
+
+// 台灣：勞動基準法第24條、第32條、第39條
+export const TAIWAN_RULE_PACK: JurisdictionRulePack = {
+  id: 'TW',
+  name: '台灣勞動基準法',
+  description: '時薪以月薪 ÷ 30 ÷ 8 換算，依勞基法第24條、第39條級距計算加班費',
+  currency: 'TWD',
+  daysPerMonth: 30,
+  hoursPerDay: 8,
+  dayTypes: ['weekday', 'restDay', 'holiday', 'regularDayOff'],
+  dayTypeLabels: {
+    weekday: '平日',
+    restDay: '休息日',
+    holiday: '國定假日/特休',
+    regularDayOff: '例假'
+  },
+  categoryLabels: {
+    平日加班: '平日加班',
+    休息日工作: '休息日工作',
+    假日出勤: '假日出勤',
+    例假出勤: '例假出勤'
+  },
+  defaultRates: {
+    weekdayEmergency: 2,
+    tiers: DEFAULT_RATE_TIERS
+  },
+  dailyHourLimits: { weekday: 4, restDay: 8, holiday: 8, regularDayOff: 8 },
+  maxDailyHours: 12,
+  overtimeLimits: OVERTIME_LIMITS,
+  statutoryBreak: { afterHours: STATUTORY_BREAK_AFTER_HOURS, minutes: STATUTORY_BREAK_MINUTES },
+  statutoryPremiums: [],
+  ruleVersions: LABOR_RULE_VERSIONS,
+  checksMinimumWage: true,
+  splitsTaxFreeOvertime: true,
+  countsHolidayExcessAsOvertime: true
+};
+
+// 日本労働基準法第37條未區分修法版本，以單一版本表示
+const JAPAN_RULE_VERSIONS: LaborRuleVersion[] = [
+  {
+    id: 'JP-LSA',
+    name: '日本勞動基準法第37條',
+    effectiveFrom: '1947-09-01',
+    description: '每月時間外勞動超過60小時部分之50%割增，中小企業自2023年4月起適用',
+    rateOverrides: {}
+  }
+];
+
+// 日本：労働基準法第37條及割増賃金令
+export const JAPAN_RULE_PACK: JurisdictionRulePack = {
+  id: 'JP',
+  name: '日本勞動基準法',
+  description: '時薪以月薪 ÷ 每月平均所定勞動時數換算；時間外25%、法定休日35%、深夜25%，每月時間外超過60小時部分50%',
+  currency: 'JPY',
+  // 以年間所定勞動日240日換算，每月平均20日
+  daysPerMonth: 20,
+  // 預設假設每月平均所定勞動時數為160小時，實際應依事業單位的所定勞動時數調整
+  monthlyScheduledHours: 160,
+  hoursPerDay: 8,
+  dayTypes: ['weekday', 'restDay', 'holiday'],
+  dayTypeLabels: {
+    weekday: '平日',
+    restDay: '所定休日',
+    holiday: '法定休日',
+    regularDayOff: '例假'
+  },
+  categoryLabels: {
+    平日加班: '時間外勞動',
+    休息日工作: '所定休日勞動',
+    假日出勤: '法定休日勞動',
+    例假出勤: '例假出勤'
+  },
+  defaultRates: {
+    weekdayEmergency: 1.25,
+    tiers: {
+      weekday: [{ upToHours: null, multiplier: 1.25 }],
+      restDay: [{ upToHours: null, multiplier: 1.25 }],
+      holiday: [{ upToHours: null, multiplier: 1.35 }],
+      regularDayOff: [{ upToHours: null, multiplier: 1.35 }]
+    }
+  },
+  dailyHourLimits: {},
+  overtimeLimits: {
+    monthly: 45,
+    monthlyWithConsent: 100,
+    quarterly: 120,
+    // 特別條款下2至6個月平均不得超過80小時
+    quarterlyWithConsent: 240,
+    consentLabel: '締結36協定特別條款',
+    overLimitSuggestion: '超出限度時間部分建議改排於其他月份，或確認36協定特別條款之適用次數',
+    emergencyNote: '災害等臨時必要之時間外勞動，應事前取得或事後向勞動基準監督署申報許可'
+  },
+  statutoryBreak: { afterHours: 6, minutes: 45 },
+  statutoryPremiums: [
+    {
+      id: 'jp-late-night',
+      name: '深夜勞動',
+      timeWindow: { start: '22:00', end: '05:00' },
+      amountType: 'rate',
+      amount: 0.25
+    }
+  ],
+  monthlyOvertimeSurcharge: { thresholdHours: 60, additionalMultiplier: 0.25 },
+  ruleVersions: JAPAN_RULE_VERSIONS,
+  checksMinimumWage: false,
+  splitsTaxFreeOvertime: false,
+  // 法定休日勞動不屬時間外勞動，不計入36協定之限度時間
+  countsHolidayExcessAsOvertime: false
+};
+
+export const RULE_PACKS: JurisdictionRulePack[] = [TAIWAN_RULE_PACK, JAPAN_RULE_PACK];
+
+// 依法域代碼取得規則包
+export const getRulePackById = (id: JurisdictionId): JurisdictionRulePack => {
+  const pack = RULE_PACKS.find(item => item.id === id);
+  if (!pack) throw new Error(t('rulePack.notFound', { id }));
+  return pack;
+};
+
+// 規則包原文為繁體中文，其他語系依法域代碼套用翻譯
+const RULE_PACK_TRANSLATIONS: Partial<Record<Locale, Record<JurisdictionId, RulePackTranslation>>> = {
+  'en-US': enUSRulePacks
+};
+
+// 依語系套用規則包的名稱、說明及顯示文字，計算規則不變
+export const localizeRulePack = (pack: JurisdictionRulePack, locale: Locale = getActiveLocale()): JurisdictionRulePack => {
+  const translation = RULE_PACK_TRANSLATIONS[locale]?.[pack.id];
+  if (!translation) return pack;
+  return {
+    ...pack,
+    name: translation.name,
+    description: translation.description,
+    dayTypeLabels: translation.dayTypeLabels,
+    categoryLabels: translation.categoryLabels,
+    overtimeLimits: { ...pack.overtimeLimits, ...translation.overtimeLimits },
+    statutoryPremiums: pack.statutoryPremiums.map(rule => ({
+      ...rule,
+      name: translation.statutoryPremiumNames[rule.id] ?? rule.name
+    })),
+    ruleVersions: pack.ruleVersions.map(version => ({ ...version, ...translation.ruleVersions[version.id] }))
+  };
+};
@@ -1,67 +1,364 @@
+import type {
+  BillingIncrement,
+  CalculationDetail,
+  CalculationError,
+  CalculationErrorType,
+  CalculationSegmentKey,
+  CalculationStep,
+  CalculationStepParams,
+  ClockSettings,
+  CompLeaveResult,
+  ComprehensiveResult,
+  DailyWorkDetail,
+  DatedWorkEntry,
+  HoursSolution,
+  JurisdictionRulePack,
+  LaborRuleVersion,
+  LaborStandardRates,
+  LegalLimitCheck,
+  MinimumWageCheck,
+  MinimumWageEntry,
+  NetPayEstimate,
+  NetPayOptions,
+  ParsedHoursData,
+  PayBasis,
+  PayslipAuditResult,
+  PayslipPaidAmounts,
+  PremiumCategory,
+  PremiumRule,
+  RoundingPolicy,
+  RoundingRule,
+  RuleVersionSummary,
+  SalarySolution,
+  ScenarioComparison,
+  TaxSplit,
+  ValidationResult,
+  ValueRange,
+  WageBaseBreakdown,
+  WageComponent,
+  WorkDataInput,
+  WorkDayType,
+  WorkingHourScheme
+} from '../components/type.ts';
+import { CURRENT_PERIOD_KEY, getMonthKey, isValidDateString, sortEntriesByDate, todayDateString } from './DateUtils.ts';
+import { getRuleVersionById, resolveRuleVersion } from './LaborRuleVersions.ts';
+import { getMinimumWage } from './MinimumWageTable.ts';
+import { buildCompLeaveLedger, getCompLeaveExpiryDate, type EarnedCompLeave } from './CompLeaveService.ts';
+import { checkOvertimeLimits, type OvertimeHoursRecord, type OvertimeLimitOptions } from './LegalLimitService.ts';
+import { calculateTaxSplit, estimateNetPay, type PaidWorkDay } from './TaxService.ts';
+import { auditPayslip } from './PayslipAudit.ts';
+import { buildScenarioComparison, type ScenarioOutcome } from './ScenarioComparison.ts';
+import { Fraction, MONEY_DECIMALS, toMoney } from './Fraction.ts';
+import { formatCurrency, joinList, t } from './I18n.ts';
+import { applyRoundingRule, DEFAULT_ROUNDING_POLICY, describeRoundingRule, RoundingRecorder } from './RoundingPolicy.ts';
+import { applyBillingIncrement } from './BillingIncrement.ts';
+import { isFlexibleScheme, toOvertimeEntries, validateScheme, MAX_DAILY_TOTAL_HOURS } from './WorkingHourScheme.ts';
+import { findHourSplits, findHoursRange } from './InverseSolver.ts';
+import { evaluateTiers, type TierSegment, validateRateTierTable } from './RateTiers.ts';
+import { noteStep, segmentStep } from './CalculationSteps.ts';
+import { TAIWAN_RULE_PACK } from './RulePacks.ts';
+import { WORK_DAY_CATEGORY } from './WorkDayCategories.ts';
+import {
+  applyClockTimes,
+  DEFAULT_CLOCK_SETTINGS,
+  deriveClockHours,
+  clockHoursStep,
+  deriveClockSegments,
+  deriveWorkPeriods,
+  hasClockTimes,
+  validateClockEntry
+} from './ClockTime.ts';
+import {
+  formatTimeOfDay,
+  getMonthlySurchargeCategory,
+  getPremiumCategory,
+  getStatutoryPremiumCategory,
+  getWorkPeriodsOverlapHours,
+  isPremiumApplicableTo,
+  parseTimeOfDay,
+  validatePremiumRule,
+  type WorkPeriod
+} from './PremiumRules.ts';
+
 // ===== 類型定義 =====
-export interface WorkDataInput {
-  weekdayOvertime: string;
-  restDayWork: string;
-  holidayWork: string;
-  regularDayOffWork: string;
-  isEmergency: boolean;
-}
+export type {
+  BillingIncrement,
+  CalculationDetail,
+  CalculationSegmentKey,
+  CalculationStep,
+  CalculationStepParams,
+  ClockSettings,
+  CompLeaveResult,
+  ComprehensiveResult,
+  DailyWorkDetail,
+  DatedWorkEntry,
+  HoursSolution,
+  JurisdictionRulePack,
+  LaborRuleVersion,
+  LaborStandardRates,
+  LegalLimitCheck,
+  MinimumWageCheck,
+  NetPayEstimate,
+  NetPayOptions,
+  ParsedHoursData,
+  PayBasis,
+  PayslipAuditResult,
+  PayslipPaidAmounts,
+  PremiumRule,
+  RoundingPolicy,
+  RoundingRule,
+  SalarySolution,
+  ScenarioComparison,
+  TaxSplit,
+  WageBaseBreakdown,
+  WageComponent,
+  WorkDataInput,
+  WorkingHourScheme
+};
 
-export interface ParsedHoursData {
-  total: number;
-  detail: number[];
+/** 綜合計算選項 */
+export interface ComprehensiveOptions {
+  /** 指定法規版本代碼（未指定時依工作日期判斷） */
+  ruleVersionId?: string;
+  /** 快速輸入（無日期）時用來判斷法規版本的基準日，預設為今天 */
+  referenceDate?: string;
+  /** 計薪方式，預設為月薪制 */
+  payBasis?: PayBasis;
+  /** 本薪以外的工資項目，僅經常性給與計入計算基礎 */
+  wageComponents?: WageComponent[];
+  /** 工資低於最低工資時，改以最低工資作為計算基礎 */
+  applyMinimumWageFloor?: boolean;
+  /** 加班時數計算單位，於分段計算倍率前套用至每日時數 */
+  billingIncrement?: BillingIncrement;
+  /** 額外加給規則，於法定加班費之外另行分項計算 */
+  premiumRules?: PremiumRule[];
+  /** 變形工時排班；採用時日期制平日紀錄改填實際工作時數 */
+  workingHourScheme?: WorkingHourScheme;
+  /** 部分工時人員每日約定工時；平日時數為約定工時後的延長時數，採用變形工時時不適用 */
+  contractualHours?: number;
+  /** 日期制紀錄以打卡時間輸入時的休息扣除設定，未指定時採預設 */
+  clockSettings?: ClockSettings;
 }
 
-export interface DailyWorkDetail {
-  day: number;
-  hours: number;
-  pay: number;
+/** 時薪、日薪推導結果 */
+interface ResolvedPayRates {
+  payBasis: PayBasis;
+  hourlyRate: number;
+  /** 未捨入的時薪，供加班費精確計算 */
+  exactHourlyRate: Fraction;
+  dailyWage: number;
+  wageBase: WageBaseBreakdown;
+  minimumWageCheck: MinimumWageCheck;
 }
 
-export interface CalculationDetail {
-  pay: number;
-  details: string[];
-  dailyBreakdown?: DailyWorkDetail[];
+/** 補休計算選項 */
+export interface CompLeaveOptions extends ComprehensiveOptions {
+  /** 已休補休時數 */
+  usedHours?: number;
+  /** 結算基準日，預設為今天 */
+  asOfDate?: string;
+  /** 約定補休有效月數，未填則以工作當年度年底為期限 */
+  validityMonths?: number;
 }
 
-export interface ComprehensiveResult {
-  hourlyRate: number;
-  dailyWage: number;
-  calculations: {
-    [key in '平日加班' | '休息日工作' | '假日出勤' | '例假出勤']?: CalculationDetail;
-  };
-  totalPay: number;
+/** 反推工作時數選項 */
+export interface SolveHoursOptions {
+  /** 指定法規版本代碼（未指定時依基準日判斷） */
+  ruleVersionId?: string;
+  /** 判斷法規版本的基準日，預設為今天 */
+  referenceDate?: string;
+  isEmergency?: boolean;
+  roundingPolicy?: RoundingPolicy;
+  /** 多日拆分時每日時數的計算單位，預設0.5小時 */
+  step?: number;
+  /** 最多拆分天數，預設3天 */
+  maxDays?: number;
+  /** 最多列出的拆分組數，預設20組 */
+  limit?: number;
 }
 
-export interface LaborStandardRates {
-  weekdayFirst2hr: number;    // 平日前2小時：1又1/3
-  weekdayNext2hr: number;     // 平日再延長2小時：1又2/3
-  weekdayEmergency: number;   // 天災事變：2倍
-  restDayFirst2hr: number;    // 休息日前2小時：1又1/3
-  restDay2to8hr: number;      // 休息日2-8小時：1又2/3
-  restDayOver8hr: number;     // 休息日超過8小時：2又2/3
-  holidayRate: number;        // 國定假日/特休：2倍
-  regularDayOffRate: number;  // 例假：2倍
+/** 情境比較的單一情境：各自的工資、工時及設定 */
+export interface ComparisonScenario {
+  id: string;
+  name: string;
+  wageAmount: number;
+  workData: WorkDataInput;
+  roundingPolicy?: RoundingPolicy;
+  /** 自訂倍率，未填沿用本計算器的倍率 */
+  rates?: LaborStandardRates;
+  /** 法域規則，未填沿用本計算器的規則 */
+  rulePack?: JurisdictionRulePack;
+  options?: ComprehensiveOptions;
 }
 
+/** 各計算類別名稱 */
+export type CalculationCategory = keyof ComprehensiveResult['calculations'];
+
 // ===== 預設倍率 =====
-export const DEFAULT_RATES: LaborStandardRates = {
-  weekdayFirst2hr: 4/3,    // 平日前2小時：1又1/3倍
-  weekdayNext2hr: 5/3,     // 平日再延長2小時：1又2/3倍
-  weekdayEmergency: 2,     // 天災事變：2倍
-  restDayFirst2hr: 4/3,    // 休息日前2小時：1又1/3倍
-  restDay2to8hr: 5/3,      // 休息日2-8小時：1又2/3倍
-  restDayOver8hr: 8/3,     // 休息日超過8小時：2又2/3倍
-  holidayRate: 2,          // 國定假日、特休：2倍
-  regularDayOffRate: 2     // 例假：2倍
+export const DEFAULT_RATES: LaborStandardRates = TAIWAN_RULE_PACK.defaultRates;
+
+// ===== 計薪方式 =====
+export const PAY_BASES: PayBasis[] = ['monthly', 'daily', 'hourly'];
+
+export const getPayBasisLabel = (payBasis: PayBasis): string => t(`payBasis.${payBasis}`);
+
+// 部分工時延長至法定正常工時8小時內者以平日工資計
+const HOURS_PER_DAY = 8;
+// 單日時數上限
+const MAX_HOURS_PER_DAY = 24;
+// 快速輸入中單日時數的格式，負數另以 NEGATIVE_HOURS 回報
+const HOURS_TOKEN_PATTERN = /^-?(\d+(\.\d*)?|\.\d+)$/;
+// 反推工資時用來推導加班費與時薪關係的試算時薪
+const PROBE_HOURLY_RATE = 1000000;
+// 反推時數可接受的金額誤差：單日計至分，多日合計因逐日捨入容許未滿1元
+const PAY_TOLERANCE = 0.005;
+const SPLIT_PAY_TOLERANCE = 0.5;
+
+// 字串輸入欄位與工作日類型的對照
+const WORK_DAY_INPUT_FIELD: Record<WorkDayType, 'weekdayOvertime' | 'restDayWork' | 'holidayWork' | 'regularDayOffWork'> = {
+  weekday: 'weekdayOvertime',
+  restDay: 'restDayWork',
+  holiday: 'holidayWork',
+  regularDayOff: 'regularDayOffWork'
+};
+
+const WORK_DAY_TYPES: WorkDayType[] = ['weekday', 'restDay', 'holiday', 'regularDayOff'];
+
+// ===== 精確計算 =====
+
+/** 單日精確結果：金額以分數保存 */
+interface ExactDailyDetail extends Omit<DailyWorkDetail, 'pay' | 'extraNormalPay' | 'extendedPay'> {
+  pay: Fraction;
+  extraNormalPay?: Fraction;
+  extendedPay?: Fraction;
+}
+
+/** 精確計算結果：金額以分數保存，輸出時才捨入 */
+interface ExactDetail extends Omit<CalculationDetail, 'pay' | 'dailyBreakdown' | 'extraNormalPay'> {
+  pay: Fraction;
+  extraNormalPay?: Fraction;
+  dailyBreakdown?: ExactDailyDetail[];
+  /** 單日依計算單位換算後的計薪時數 */
+  billedHours?: number;
+  /** 單日假日出勤超過8小時的延長工時及其工資（已含於 pay），供拆分免稅加班費 */
+  extendedHours?: number;
+  extendedPay?: Fraction;
+}
+
+// 精確結果轉為輸出格式，金額於此經 toMoney 捨入（見 Fraction.ts）
+const toCalculationDetail = (detail: ExactDetail): CalculationDetail => ({
+  pay: toMoney(detail.pay),
+  steps: detail.steps,
+  ...(detail.dailyBreakdown && { dailyBreakdown: detail.dailyBreakdown.map(toDailyWorkDetail) }),
+  ...(detail.compensatoryRestDays !== undefined && { compensatoryRestDays: detail.compensatoryRestDays }),
+  ...(detail.extraNormalPay && { extraNormalHours: detail.extraNormalHours, extraNormalPay: toMoney(detail.extraNormalPay) })
+});
+
+const toDailyWorkDetail = (day: ExactDailyDetail): DailyWorkDetail => ({
+  ...day,
+  pay: toMoney(day.pay),
+  extraNormalPay: day.extraNormalPay && toMoney(day.extraNormalPay),
+  extendedPay: day.extendedPay && toMoney(day.extendedPay)
+});
+
+// 單日結果轉為每日明細時保留部分工時平日工資及假日延長工時的拆分
+const extraNormalOf = (detail: ExactDetail): Pick<ExactDailyDetail, 'extraNormalHours' | 'extraNormalPay' | 'extendedHours' | 'extendedPay'> => ({
+  ...(detail.extraNormalPay && { extraNormalHours: detail.extraNormalHours, extraNormalPay: detail.extraNormalPay }),
+  ...(detail.extendedPay && { extendedHours: detail.extendedHours, extendedPay: detail.extendedPay })
+});
+
+// 多日彙總時加總部分工時以平日工資計的時數與金額
+const withExtraNormalTotals = (detail: ExactDetail): ExactDetail => {
+  const days = (detail.dailyBreakdown ?? []).filter(day => day.extraNormalPay);
+  if (days.length === 0) return detail;
+  const extraNormalHours = Fraction.sum(days.map(day => day.extraNormalHours ?? 0)).toNumber();
+  const extraNormalPay = Fraction.sum(days.map(day => day.extraNormalPay ?? 0));
+  return {
+    ...detail,
+    steps: [...detail.steps, noteStep('extraNormalTotal', { hours: extraNormalHours, pay: toMoney(extraNormalPay) })],
+    extraNormalHours,
+    extraNormalPay
+  };
+};
+
+// 部分工時：約定工時後的延長時數中，至法定8小時內者以平日工資計，其餘才是延長工時
+const splitPartTimeHours = (hours: Fraction, contractualHours?: number): { extraNormal: Fraction; overtime: Fraction } => {
+  const extraNormal = contractualHours === undefined
+    ? Fraction.ZERO
+    : hours.min(Math.max(0, HOURS_PER_DAY - contractualHours));
+  return { extraNormal, overtime: hours.sub(extraNormal) };
 };
 
+// 時數 × 時薪 × 倍率，依捨入規則處理金額並記錄為計算步驟
+const segmentPay = (
+  recorder: RoundingRecorder,
+  hours: Fraction,
+  hourlyRate: Fraction,
+  multiplier: number,
+  labelKey: CalculationSegmentKey,
+  params: CalculationStepParams = {}
+): TierSegment => {
+  const exact = hourlyRate.mul(hours).mul(multiplier);
+  const pay = recorder.apply('segment', exact);
+  return {
+    pay,
+    step: segmentStep(labelKey, params, { hours, baseRate: hourlyRate, multiplier, exact, pay, rounding: recorder.policy.segment })
+  };
+};
+
+// 供級距計算使用的單段金額計算
+const tierSegmentPay = (recorder: RoundingRecorder, hourlyRate: Fraction) =>
+  (hours: Fraction, multiplier: number, range: { lowerHours: number; upToHours: number | null }): TierSegment =>
+    segmentPay(recorder, hours, hourlyRate, multiplier, 'tier', range);
+
+// 多日彙總時附上應補假日數
+const withCompensatoryRest = (detail: ExactDetail, days: number): ExactDetail => {
+  if (days <= 0) return detail;
+  return {
+    ...detail,
+    steps: [...detail.steps, noteStep('compensatoryRest', { days })],
+    compensatoryRestDays: days
+  };
+};
+
+// 單日計算方法簽名
+type DayCalculator = (hours: number, hourlyRate: Fraction, ruleVersion?: LaborRuleVersion, contractualHours?: number) => ExactDetail;
+
+/** 部分工時設定；未提供表示不適用（含採用變形工時） */
+interface PartTimeSetting {
+  /** 紀錄未填約定工時時的預設值 */
+  contractualHours?: number;
+}
+
+/** 計算額外加給用的單日工時 */
+interface PremiumWorkDay {
+  date?: string;
+  dayType: WorkDayType;
+  /** 當日實際工作時數（含正常工時） */
+  hours: Fraction;
+  /** 實際工作時段，未填開始時間時無法計算時段加給 */
+  periods?: WorkPeriod[];
+}
+
+// 輸入檢查未通過時拋出，保留 validateInput 的結果，呼叫端可依欄位顯示各項錯誤
+export class InputValidationError extends Error {
+  readonly errors: CalculationError[];
+
+  constructor(validation: ValidationResult) {
+    super(validation.errors.map(error => error.message).join('\n'));
+    this.name = 'InputValidationError';
+    this.errors = validation.errors;
+  }
+}
+
 // ===== 核心計算服務類別 =====
 export class SalaryCalculatorService {
   private rates: LaborStandardRates;
+  private rulePack: JurisdictionRulePack;
 
-  constructor(rates: LaborStandardRates = DEFAULT_RATES) {
+  constructor(rates: LaborStandardRates = DEFAULT_RATES, rulePack: JurisdictionRulePack = TAIWAN_RULE_PACK) {
     this.rates = rates;
+    this.rulePack = rulePack;
   }
 
   // 更新費率設定
@@ -69,277 +366,1292 @@ export class SalaryCalculatorService {
     this.rates = { ...newRates };
   }
 
-  // 計算時薪
-  calculateHourlyRate(salary: number, useCeiling: boolean = true): number {
-    const hourlyRate = salary / 240;
-    return useCeiling ? Math.ceil(hourlyRate) : Math.round(hourlyRate * 100) / 100;
+  // 切換法域規則；倍率不隨之改變，需另行以 updateRates 設定
+  setRulePack(rulePack: JurisdictionRulePack): void {
+    this.rulePack = rulePack;
+  }
+
+  // 取得目前的法域規則
+  getRulePack(): JurisdictionRulePack {
+    return this.rulePack;
+  }
+
+  // 金額顯示，幣別依法域規則
+  private formatAmount(amount: number): string {
+    return formatCurrency(amount, this.rulePack.currency);
+  }
+
+  // 取得套用法規版本後的倍率
+  private getEffectiveRates(ruleVersion?: LaborRuleVersion): LaborStandardRates {
+    if (!ruleVersion) return this.rates;
+    const { tiers, ...overrides } = ruleVersion.rateOverrides;
+    return { ...this.rates, ...overrides, tiers: { ...this.rates.tiers, ...tiers } };
+  }
+
+  // 依指定版本或工作日期決定法規版本
+  resolveRuleVersion(date: string, ruleVersionId?: string): LaborRuleVersion {
+    const versions = this.rulePack.ruleVersions;
+    return ruleVersionId ? getRuleVersionById(ruleVersionId, versions) : resolveRuleVersion(date, versions);
+  }
+
+  // 組成加班費計算基礎：本薪加上經常性給與
+  buildWageBase(baseAmount: number, wageComponents: WageComponent[] = []): WageBaseBreakdown {
+    const sumOf = (items: WageComponent[]) => Fraction.sum(items.map(item => item.amount));
+    const regularTotal = sumOf(wageComponents.filter(item => item.isRegular));
+
+    return {
+      baseAmount,
+      components: wageComponents,
+      regularTotal: regularTotal.toNumber(),
+      excludedTotal: sumOf(wageComponents.filter(item => !item.isRegular)).toNumber(),
+      total: regularTotal.add(baseAmount).toNumber()
+    };
+  }
+
+  // 最低工資在各計薪方式下的對應金額（日薪制以最低時薪 × 每日正常工時換算）
+  private getMinimumWageAmount(minimumWage: MinimumWageEntry, payBasis: PayBasis): number {
+    if (payBasis === 'monthly') return minimumWage.monthly;
+    return payBasis === 'daily' ? minimumWage.hourly * this.rulePack.hoursPerDay : minimumWage.hourly;
+  }
+
+  // 最低工資檢查：月薪制比較每月工資，日薪制與時薪制比較換算後時薪
+  checkMinimumWage(
+    wageAmount: number,
+    payBasis: PayBasis = 'monthly',
+    wageComponents: WageComponent[] = [],
+    date: string = todayDateString()
+  ): MinimumWageCheck {
+    if (!this.rulePack.checksMinimumWage) {
+      return { date, minimumWage: null, isCompliant: true, appliedFloor: false, warnings: [t('minimumWage.unsupported', { name: this.rulePack.name })] };
+    }
+    const minimumWage = getMinimumWage(date);
+    if (!minimumWage) {
+      return { date, minimumWage: null, isCompliant: true, appliedFloor: false, warnings: [t('minimumWage.noData', { date })] };
+    }
+
+    const wage = this.buildWageBase(wageAmount, wageComponents).total;
+    const warnings: string[] = [];
+
+    if (payBasis === 'monthly' && wage < minimumWage.monthly) {
+      warnings.push(t('minimumWage.monthlyBelow', {
+        wage: this.formatAmount(wage),
+        effectiveFrom: minimumWage.effectiveFrom,
+        minimum: this.formatAmount(minimumWage.monthly)
+      }));
+    }
+    if (payBasis !== 'monthly') {
+      const hourlyRate = payBasis === 'daily' ? Fraction.fromNumber(wage).div(this.rulePack.hoursPerDay) : Fraction.fromNumber(wage);
+      if (hourlyRate.compare(minimumWage.hourly) < 0) {
+        warnings.push(t('minimumWage.hourlyBelow', {
+          wage: this.formatAmount(toMoney(hourlyRate)),
+          effectiveFrom: minimumWage.effectiveFrom,
+          minimum: this.formatAmount(minimumWage.hourly)
+        }));
+      }
+    }
+
+    return { date, minimumWage, isCompliant: warnings.length === 0, appliedFloor: false, warnings };
+  }
+
+  // 推導時薪與日薪：檢查工資項目與最低工資，必要時改以最低工資為計算基礎
+  private resolvePayRates(
+    wageAmount: number,
+    workData: WorkDataInput,
+    recorder: RoundingRecorder,
+    options: ComprehensiveOptions
+  ): ResolvedPayRates {
+    const payBasis = options.payBasis ?? 'monthly';
+    const wageComponents = options.wageComponents ?? [];
+
+    // 以最後一筆工作日期（或基準日）判斷適用的最低工資
+    const checkDate = workData.entries && workData.entries.length > 0
+      ? sortEntriesByDate(workData.entries)[workData.entries.length - 1].date
+      : options.referenceDate ?? todayDateString();
+    const minimumWageCheck = this.checkMinimumWage(wageAmount, payBasis, wageComponents, checkDate);
+
+    let baseAmount = wageAmount;
+    let baseComponents = wageComponents;
+    if (!minimumWageCheck.isCompliant && options.applyMinimumWageFloor && minimumWageCheck.minimumWage) {
+      baseAmount = this.getMinimumWageAmount(minimumWageCheck.minimumWage, payBasis);
+      baseComponents = [];
+      minimumWageCheck.appliedFloor = true;
+      minimumWageCheck.warnings.push(t('minimumWage.floorApplied', { amount: this.formatAmount(baseAmount) }));
+    }
+
+    const exactHourlyRate = recorder.apply('hourlyRate', this.getExactHourlyRate(baseAmount, payBasis, baseComponents));
+    return {
+      payBasis,
+      hourlyRate: toMoney(exactHourlyRate),
+      exactHourlyRate,
+      dailyWage: this.calculateDailyWage(baseAmount, recorder.policy.hourlyRate, payBasis, baseComponents),
+      wageBase: this.buildWageBase(wageAmount, wageComponents),
+      minimumWageCheck
+    };
+  }
+
+  // 計算時薪（月薪 ÷ 每月時數、日薪 ÷ 每日正常工時，時薪制直接採用約定時薪；皆含經常性給與）
+  // 台灣規則為月薪 ÷ 30 ÷ 8、日薪 ÷ 8
+  calculateHourlyRate(
+    salary: number,
+    rounding: RoundingRule = DEFAULT_ROUNDING_POLICY.hourlyRate,
+    payBasis: PayBasis = 'monthly',
+    wageComponents: WageComponent[] = []
+  ): number {
+    return toMoney(applyRoundingRule(this.getExactHourlyRate(salary, payBasis, wageComponents), rounding));
+  }
+
+  // 未捨入的時薪
+  private getExactHourlyRate(salary: number, payBasis: PayBasis, wageComponents: WageComponent[]): Fraction {
+    const wage = Fraction.fromNumber(this.buildWageBase(salary, wageComponents).total);
+    const { hoursPerDay } = this.rulePack;
+    return payBasis === 'monthly'
+      ? wage.div(this.getMonthlyHours())
+      : payBasis === 'daily' ? wage.div(hoursPerDay) : wage;
   }
 
-  // 計算日薪
-  calculateDailyWage(salary: number, useCeiling: boolean = true): number {
-    const dailyWage = salary / 30;
-    return useCeiling ? Math.ceil(dailyWage) : Math.round(dailyWage * 100) / 100;
+  // 月薪換算時薪的每月時數：規則包有每月平均所定勞動時數者依該時數，否則為每月日數 × 每日正常工時
+  getMonthlyHours(): number {
+    const { daysPerMonth, hoursPerDay, monthlyScheduledHours } = this.rulePack;
+    return monthlyScheduledHours ?? daysPerMonth * hoursPerDay;
+  }
+
+  // 計算日薪（月薪 ÷ 每月時數 × 每日正常工時，日薪制直接採用約定日薪、時薪制以時薪 × 每日正常工時換算；皆含經常性給與）
+  calculateDailyWage(
+    salary: number,
+    rounding: RoundingRule = DEFAULT_ROUNDING_POLICY.hourlyRate,
+    payBasis: PayBasis = 'monthly',
+    wageComponents: WageComponent[] = []
+  ): number {
+    const wage = Fraction.fromNumber(this.buildWageBase(salary, wageComponents).total);
+    const dailyWage = payBasis === 'monthly'
+      ? wage.div(this.getMonthlyHours()).mul(this.rulePack.hoursPerDay)
+      : payBasis === 'daily' ? wage : wage.mul(this.rulePack.hoursPerDay);
+    return toMoney(applyRoundingRule(dailyWage, rounding));
+  }
+
+  // 檢查時數輸入：以逗號分隔的每一項須為 0 至 24 小時的數字
+  validateHoursInput(input: string, field?: keyof WorkDataInput): CalculationError[] {
+    if (!input.trim()) return [];
+    const toError = (type: CalculationErrorType, message: string): CalculationError => ({ type, message, field });
+
+    return input.split(',').flatMap(token => {
+      const value = token.trim();
+      if (!HOURS_TOKEN_PATTERN.test(value)) return [toError('INVALID_HOURS_FORMAT', t('input.invalidHours', { value }))];
+      const hours = Number(value);
+      if (hours < 0) return [toError('NEGATIVE_HOURS', t('input.negativeHours', { value }))];
+      if (hours > MAX_HOURS_PER_DAY) return [toError('EXCEEDED_DAY_HOURS', t('input.exceedsDayHours', { value, limit: MAX_HOURS_PER_DAY }))];
+      return [];
+    });
   }
 
-  // 解析時數輸入
+  // 解析時數輸入；格式不符時以第一個錯誤拋出，介面應先以 validateInput 檢查
   parseHoursInput(input: string): ParsedHoursData | null {
     if (!input.trim()) return null;
 
-    if (input.includes(',')) {
-      const hoursList = input.split(',').map(x => {
-        const parsed = parseFloat(x.trim());
-        if (isNaN(parsed)) throw new Error(`無效的時數: ${x.trim()}`);
-        return parsed;
-      });
-      return { total: hoursList.reduce((sum, h) => sum + h, 0), detail: hoursList };
-    } else {
-      const hours = parseFloat(input.trim());
-      if (isNaN(hours)) throw new Error(`無效的時數: ${input.trim()}`);
-      return { total: hours, detail: [hours] };
-    }
+    const [error] = this.validateHoursInput(input);
+    if (error) throw new Error(error.message);
+    const hoursList = input.split(',').map(token => Number(token.trim()));
+    return { total: hoursList.reduce((sum, h) => sum + h, 0), detail: hoursList };
   }
 
   // 計算平日加班費
-  calculateWeekdayOvertime(hours: number, hourlyRate: number, isEmergency: boolean = false): CalculationDetail {
-    if (hours <= 0) return { pay: 0, details: ['無加班'] };
+  calculateWeekdayOvertime(
+    hours: number,
+    hourlyRate: number | Fraction,
+    isEmergency: boolean = false,
+    ruleVersion?: LaborRuleVersion,
+    roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY
+  ): CalculationDetail {
+    const calculate = this.getDayCalculator('weekday', isEmergency, new RoundingRecorder(roundingPolicy));
+    return toCalculationDetail(calculate(hours, Fraction.from(hourlyRate), ruleVersion));
+  }
+
+  // 部分工時平日延長：hours 為約定工時結束後的時數，至8小時內以平日工資計，其餘依加班費級距計算
+  calculatePartTimeWeekday(
+    hours: number,
+    contractualHours: number,
+    hourlyRate: number | Fraction,
+    isEmergency: boolean = false,
+    ruleVersion?: LaborRuleVersion,
+    roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY
+  ): CalculationDetail {
+    const calculate = this.getDayCalculator('weekday', isEmergency, new RoundingRecorder(roundingPolicy), undefined, { contractualHours });
+    return toCalculationDetail(calculate(hours, Fraction.from(hourlyRate), ruleVersion));
+  }
+
+  // 計算休息日加班費
+  calculateRestDayOvertime(
+    actualHours: number,
+    hourlyRate: number | Fraction,
+    ruleVersion?: LaborRuleVersion,
+    roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY
+  ): CalculationDetail {
+    const calculate = this.getDayCalculator('restDay', false, new RoundingRecorder(roundingPolicy));
+    return toCalculationDetail(calculate(actualHours, Fraction.from(hourlyRate), ruleVersion));
+  }
+
+  // 計算假日出勤費（依國定假日或例假的級距計算）
+  calculateHolidayPay(
+    hours: number,
+    hourlyRate: number | Fraction,
+    holidayType: '國定假日' | '例假' = '國定假日',
+    ruleVersion?: LaborRuleVersion,
+    roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY
+  ): CalculationDetail {
+    const dayType: WorkDayType = holidayType === '例假' ? 'regularDayOff' : 'holiday';
+    const calculate = this.getDayCalculator(dayType, false, new RoundingRecorder(roundingPolicy));
+    return toCalculationDetail(calculate(hours, Fraction.from(hourlyRate), ruleVersion));
+  }
+
+  // 部分工時平日：約定工時後至8小時內以平日工資計，超過8小時部分依平日加班費級距計算
+  private partTimeWeekdayExact(
+    hours: number,
+    contractualHours: number,
+    hourlyRate: Fraction,
+    calculateOvertime: DayCalculator,
+    recorder: RoundingRecorder,
+    ruleVersion?: LaborRuleVersion
+  ): ExactDetail {
+    const { extraNormal, overtime } = splitPartTimeHours(Fraction.fromNumber(hours), contractualHours);
+    const { pay: extraNormalPay, step } = segmentPay(recorder, extraNormal, hourlyRate, 1, 'partTimeNormal', {
+      contractualHours,
+      dailyHours: HOURS_PER_DAY
+    });
+    const split = { extraNormalHours: extraNormal.toNumber(), extraNormalPay };
+    if (overtime.isZero()) return { pay: extraNormalPay, steps: [step], ...split };
+
+    const overtimeDetail = calculateOvertime(overtime.toNumber(), hourlyRate, ruleVersion);
+    return {
+      pay: extraNormalPay.add(overtimeDetail.pay),
+      steps: [
+        step,
+        noteStep('partTimeOvertime', { dailyHours: HOURS_PER_DAY, hours: overtime.toNumber() }),
+        ...overtimeDetail.steps
+      ],
+      ...split
+    };
+  }
 
-    let totalPay = 0;
-    const details: string[] = [];
+  // 平日加班費（精確值）
+  private weekdayOvertimeExact(
+    hours: number,
+    hourlyRate: Fraction,
+    isEmergency: boolean,
+    recorder: RoundingRecorder,
+    ruleVersion?: LaborRuleVersion
+  ): ExactDetail {
+    if (hours <= 0) return { pay: Fraction.ZERO, steps: [noteStep('noOvertime')] };
+
+    const rates = this.getEffectiveRates(ruleVersion);
+    const worked = Fraction.fromNumber(hours);
 
     if (isEmergency) {
-      totalPay = hours * hourlyRate * this.rates.weekdayEmergency;
-      details.push(`天災事變加班 ${hours} 小時: ${hours} × ${hourlyRate} × ${this.rates.weekdayEmergency} = ${totalPay.toFixed(2)}`);
-    } else {
-      if (hours <= 2) {
-        totalPay = hours * hourlyRate * this.rates.weekdayFirst2hr;
-        details.push(`前 ${hours} 小時: ${hours} × ${hourlyRate} × ${this.rates.weekdayFirst2hr.toFixed(3)} = ${totalPay.toFixed(2)}`);
-      } else if (hours <= 4) {
-        const first2hrPay = 2 * hourlyRate * this.rates.weekdayFirst2hr;
-        const remainingHours = hours - 2;
-        const remainingPay = remainingHours * hourlyRate * this.rates.weekdayNext2hr;
-        totalPay = first2hrPay + remainingPay;
-
-        details.push(`前2小時: 2 × ${hourlyRate} × ${this.rates.weekdayFirst2hr.toFixed(3)} = ${first2hrPay.toFixed(2)}`);
-        details.push(`再延長 ${remainingHours} 小時: ${remainingHours} × ${hourlyRate} × ${this.rates.weekdayNext2hr.toFixed(3)} = ${remainingPay.toFixed(2)}`);
-      } else {
-        const first2hrPay = 2 * hourlyRate * this.rates.weekdayFirst2hr;
-        const next2hrPay = 2 * hourlyRate * this.rates.weekdayNext2hr;
-        const over4hr = hours - 4;
-        const over4hrPay = over4hr * hourlyRate * this.rates.weekdayNext2hr;
-        totalPay = first2hrPay + next2hrPay + over4hrPay;
-
-        details.push(`前2小時: 2 × ${hourlyRate} × ${this.rates.weekdayFirst2hr.toFixed(3)} = ${first2hrPay.toFixed(2)}`);
-        details.push(`再延長2小時: 2 × ${hourlyRate} × ${this.rates.weekdayNext2hr.toFixed(3)} = ${next2hrPay.toFixed(2)}`);
-        details.push(`超過4小時部分 ${over4hr} 小時: ${over4hr} × ${hourlyRate} × ${this.rates.weekdayNext2hr.toFixed(3)} = ${over4hrPay.toFixed(2)}`);
-      }
+      const { pay, step } = segmentPay(recorder, worked, hourlyRate, rates.weekdayEmergency, 'emergency');
+      return { pay, steps: [step] };
     }
 
-    return { pay: Math.round(totalPay * 100) / 100, details };
+    return evaluateTiers(worked, rates.tiers.weekday, tierSegmentPay(recorder, hourlyRate));
   }
 
-  // 計算休息日加班費
-  calculateRestDayOvertime(hours: number, hourlyRate: number): CalculationDetail {
-    if (hours <= 0) return { pay: 0, details: ['未出勤'] };
-
-    let totalPay = 0;
-    const details: string[] = [];
-
-    if (hours <= 2) {
-      totalPay = hours * hourlyRate * this.rates.restDayFirst2hr;
-      details.push(`前 ${hours} 小時: ${hours} × ${hourlyRate} × ${this.rates.restDayFirst2hr.toFixed(3)} = ${totalPay.toFixed(2)}`);
-    } else if (hours <= 8) {
-      const first2hrPay = 2 * hourlyRate * this.rates.restDayFirst2hr;
-      const remainingHours = hours - 2;
-      const remainingPay = remainingHours * hourlyRate * this.rates.restDay2to8hr;
-      totalPay = first2hrPay + remainingPay;
-
-      details.push(`前2小時: 2 × ${hourlyRate} × ${this.rates.restDayFirst2hr.toFixed(3)} = ${first2hrPay.toFixed(2)}`);
-      details.push(`2-8小時 ${remainingHours} 小時: ${remainingHours} × ${hourlyRate} × ${this.rates.restDay2to8hr.toFixed(3)} = ${remainingPay.toFixed(2)}`);
-    } else {
-      const first2hrPay = 2 * hourlyRate * this.rates.restDayFirst2hr;
-      const mid6hrPay = 6 * hourlyRate * this.rates.restDay2to8hr;
-      const over8hr = hours - 8;
-      const over8hrPay = over8hr * hourlyRate * this.rates.restDayOver8hr;
-      totalPay = first2hrPay + mid6hrPay + over8hrPay;
-
-      details.push(`前2小時: 2 × ${hourlyRate} × ${this.rates.restDayFirst2hr.toFixed(3)} = ${first2hrPay.toFixed(2)}`);
-      details.push(`2-8小時: 6 × ${hourlyRate} × ${this.rates.restDay2to8hr.toFixed(3)} = ${mid6hrPay.toFixed(2)}`);
-      details.push(`超過8小時 ${over8hr} 小時: ${over8hr} × ${hourlyRate} × ${this.rates.restDayOver8hr.toFixed(3)} = ${over8hrPay.toFixed(2)}`);
+  // 休息日加班費（精確值）
+  private restDayOvertimeExact(
+    actualHours: number,
+    hourlyRate: Fraction,
+    recorder: RoundingRecorder,
+    ruleVersion?: LaborRuleVersion
+  ): ExactDetail {
+    if (actualHours <= 0) return { pay: Fraction.ZERO, steps: [noteStep('notWorked')] };
+
+    const rates = this.getEffectiveRates(ruleVersion);
+    const steps: CalculationStep[] = [];
+
+    // 2017年一例一休版本：工作時數依級距向上計算
+    const blocks = ruleVersion?.restDayHourBlocks;
+    const hours = blocks?.find(block => actualHours <= block) ?? actualHours;
+    if (hours !== actualHours) {
+      steps.push(noteStep('restDayHourBlock', { ruleVersion: ruleVersion!.name, actualHours, hours }));
     }
+    const tiered = evaluateTiers(Fraction.fromNumber(hours), rates.tiers.restDay, tierSegmentPay(recorder, hourlyRate));
 
-    return { pay: Math.round(totalPay * 100) / 100, details };
+    return { pay: tiered.pay, steps: [...steps, ...tiered.steps] };
   }
 
-  // 計算假日出勤費
-  calculateHolidayPay(hours: number, hourlyRate: number, holidayType: '國定假日' | '例假' = '國定假日'): CalculationDetail {
-    if (hours <= 0) return { pay: 0, details: ['未出勤'] };
+  // 假日出勤費（精確值）
+  private holidayPayExact(
+    hours: number,
+    hourlyRate: Fraction,
+    holidayType: '國定假日' | '例假',
+    recorder: RoundingRecorder,
+    ruleVersion?: LaborRuleVersion
+  ): ExactDetail {
+    if (hours <= 0) return { pay: Fraction.ZERO, steps: [noteStep('notWorked')] };
 
-    const rate = holidayType === '例假' ? this.rates.regularDayOffRate : this.rates.holidayRate;
-    const totalPay = hours * hourlyRate * rate;
-    const details = [`${holidayType}出勤 ${hours} 小時: ${hours} × ${hourlyRate} × ${rate} = ${totalPay.toFixed(2)}`];
+    const rates = this.getEffectiveRates(ruleVersion);
+    const isRegularDayOff = holidayType === '例假';
+    const dayType: WorkDayType = isRegularDayOff ? 'regularDayOff' : 'holiday';
 
-    return { pay: Math.round(totalPay * 100) / 100, details };
+    // 超過8小時的部分屬延長工時；級距跨越8小時時依時數比例拆分該級距金額
+    let extendedPay = Fraction.ZERO;
+    const segment = tierSegmentPay(recorder, hourlyRate);
+    const { pay: totalPay, steps: tierSteps } = evaluateTiers(Fraction.fromNumber(hours), rates.tiers[dayType], (segmentHours, multiplier, range) => {
+      const result = segment(segmentHours, multiplier, range);
+      const extended = segmentHours.add(range.lowerHours).sub(HOURS_PER_DAY).max(0).min(segmentHours);
+      if (!extended.isZero()) extendedPay = extendedPay.add(result.pay.mul(extended).div(segmentHours));
+      return result;
+    });
+    const steps: CalculationStep[] = [noteStep('dayTypeHours', { dayType, hours }), ...tierSteps];
+    const split: Pick<ExactDetail, 'extendedHours' | 'extendedPay'> = hours > HOURS_PER_DAY
+      ? { extendedHours: Fraction.fromNumber(hours).sub(HOURS_PER_DAY).toNumber(), extendedPay }
+      : {};
+
+    if (isRegularDayOff) {
+      steps.push(noteStep('regularDayOffRest'));
+      return { pay: totalPay, steps, compensatoryRestDays: 1, ...split };
+    }
+
+    return { pay: totalPay, steps, ...split };
+  }
+
+  // 依工作日類型取得單日計算方法（先依計算單位換算時數，單日金額依每日捨入規則處理）
+  private getDayCalculator(
+    dayType: WorkDayType,
+    isEmergency: boolean,
+    recorder: RoundingRecorder,
+    billingIncrement?: BillingIncrement,
+    partTime?: PartTimeSetting
+  ): DayCalculator {
+    const calculate = ((): DayCalculator => {
+      switch (dayType) {
+        case 'weekday':
+          return (hours, rate, version) => this.weekdayOvertimeExact(hours, rate, isEmergency, recorder, version);
+        case 'restDay':
+          return (hours, rate, version) => this.restDayOvertimeExact(hours, rate, recorder, version);
+        case 'holiday':
+          return (hours, rate, version) => this.holidayPayExact(hours, rate, '國定假日', recorder, version);
+        case 'regularDayOff':
+          return (hours, rate, version) => this.holidayPayExact(hours, rate, '例假', recorder, version);
+      }
+    })();
+
+    return (hours, rate, version, contractualHours) => {
+      const billedHours = applyBillingIncrement(hours, billingIncrement);
+      const dayContractualHours = partTime && dayType === 'weekday' ? contractualHours ?? partTime.contractualHours : undefined;
+      const detail = dayContractualHours !== undefined && dayContractualHours < HOURS_PER_DAY
+        ? this.partTimeWeekdayExact(billedHours, dayContractualHours, rate, calculate, recorder, version)
+        : calculate(billedHours, rate, version);
+      const steps = billedHours === hours
+        ? detail.steps
+        : [
+          noteStep('billingIncrement', { minutes: billingIncrement!.minutes, mode: billingIncrement!.mode, actualHours: hours, billedHours }),
+          ...detail.steps
+        ];
+      return {
+        ...detail,
+        steps,
+        pay: recorder.apply('daily', detail.pay),
+        ...(billingIncrement && billingIncrement.minutes > 0 && { billedHours })
+      };
+    };
   }
 
   // 處理多天計算的私有方法
-  private processDailyCalculation<T extends unknown[]>(
+  private processDailyCalculation(
     parsedData: ParsedHoursData,
-    hourlyRate: number,
-    calculationMethod: (hours: number, hourlyRate: number, ...args: T) => CalculationDetail,
-    ...additionalArgs: T
-  ): CalculationDetail {
+    hourlyRate: Fraction,
+    calculationMethod: DayCalculator,
+    ruleVersion: LaborRuleVersion
+  ): ExactDetail {
     if (parsedData.detail.length > 1) {
       // 多天計算
-      const dailyResults: DailyWorkDetail[] = parsedData.detail
+      let compensatoryRestDays = 0;
+      const dailyResults: ExactDailyDetail[] = parsedData.detail
         .map((dailyHours, index) => {
           if (dailyHours > 0) {
-            const result = calculationMethod(dailyHours, hourlyRate, ...additionalArgs);
+            const result = calculationMethod(dailyHours, hourlyRate, ruleVersion);
+            compensatoryRestDays += result.compensatoryRestDays ?? 0;
             return {
               day: index + 1,
               hours: dailyHours,
+              billedHours: result.billedHours,
+              ...extraNormalOf(result),
               pay: result.pay
             };
           }
-          return { day: index + 1, hours: 0, pay: 0 };
+          return { day: index + 1, hours: 0, pay: Fraction.ZERO };
         })
         .filter(item => item.hours > 0);
 
-      const dailyTotal = dailyResults.reduce((sum, day) => sum + day.pay, 0);
-      return {
+      // 以各日精確值加總，不加總已捨入的每日金額
+      const dailyTotal = Fraction.sum(dailyResults.map(day => day.pay));
+      return withCompensatoryRest(withExtraNormalTotals({
         pay: dailyTotal,
-        details: [`共${parsedData.detail.length}天，每天分別計算`],
+        steps: [noteStep('multiDay', { days: parsedData.detail.length })],
         dailyBreakdown: dailyResults
-      };
+      }), compensatoryRestDays);
     } else {
       // 單日計算
-      return calculationMethod(parsedData.total, hourlyRate, ...additionalArgs);
+      return calculationMethod(parsedData.total, hourlyRate, ruleVersion);
+    }
+  }
+
+  // 處理日期制紀錄的私有方法（依日期排序後逐日計算）
+  private processDatedCalculation(
+    entries: DatedWorkEntry[],
+    hourlyRate: Fraction,
+    calculationMethod: DayCalculator,
+    getVersion: (date: string) => LaborRuleVersion
+  ): ExactDetail {
+    const sorted = sortEntriesByDate(entries);
+    const versionNames = new Set<string>();
+    let compensatoryRestDays = 0;
+    const dailyResults: ExactDailyDetail[] = sorted
+      .filter(entry => entry.hours > 0)
+      .map((entry, index) => {
+        const version = getVersion(entry.date);
+        versionNames.add(version.name);
+        const result = calculationMethod(entry.hours, hourlyRate, version, entry.contractualHours);
+        compensatoryRestDays += result.compensatoryRestDays ?? 0;
+        return {
+          day: index + 1,
+          date: entry.date,
+          ruleVersionId: version.id,
+          hours: entry.hours,
+          billedHours: result.billedHours,
+          ...extraNormalOf(result),
+          ...(entry.segment && { segment: entry.segment }),
+          ...(hasClockTimes(entry) && { clockIn: entry.clockIn, clockOut: entry.clockOut }),
+          pay: result.pay
+        };
+      });
+
+    const dailyTotal = Fraction.sum(dailyResults.map(day => day.pay));
+    const firstDate = sorted[0].date;
+    const lastDate = sorted[sorted.length - 1].date;
+    const range = firstDate === lastDate ? firstDate : `${firstDate} ~ ${lastDate}`;
+
+    return withCompensatoryRest(withExtraNormalTotals({
+      pay: dailyTotal,
+      steps: [
+        noteStep('datedRange', { days: dailyResults.length, range }),
+        noteStep('ruleVersions', { ruleVersions: [...versionNames] })
+      ],
+      dailyBreakdown: dailyResults
+    }), compensatoryRestDays);
+  }
+
+  // 單一加給規則的計算：時段規則依當日實際工作時段計算重疊時數，否則以適用工作日類型的全部工作時數計算
+  private calculatePremium(
+    rule: PremiumRule,
+    days: PremiumWorkDay[],
+    hourlyRate: Fraction,
+    recorder: RoundingRecorder
+  ): ExactDetail | null {
+    const amount = Fraction.fromNumber(rule.amount);
+    const hourlyPremium = rule.amountType === 'rate' ? hourlyRate.mul(amount) : amount;
+    let missingStartTime = 0;
+
+    const dailyResults: ExactDailyDetail[] = [];
+    days
+      .filter(day => day.hours.compare(0) > 0 && isPremiumApplicableTo(rule, day.dayType))
+      .forEach(day => {
+        let hours = day.hours;
+        if (rule.timeWindow) {
+          if (!day.periods) {
+            missingStartTime++;
+            return;
+          }
+          hours = getWorkPeriodsOverlapHours(day.periods, rule.timeWindow);
+        }
+        if (hours.isZero()) return;
+
+        dailyResults.push({
+          day: dailyResults.length + 1,
+          date: day.date,
+          hours: hours.round(2),
+          pay: recorder.apply('daily', hours.mul(hourlyPremium))
+        });
+      });
+
+    // 未填開始時間而無法計算的紀錄仍列出本項並說明，不直接略過
+    if (dailyResults.length === 0 && missingStartTime === 0) return null;
+
+    // 時薪倍率以時薪為基準；固定金額以每小時加給金額為基準
+    const totalHours = Fraction.sum(dailyResults.map(day => day.hours));
+    const pay = Fraction.sum(dailyResults.map(day => day.pay));
+    const steps: CalculationStep[] = [
+      noteStep('premiumRule', {
+        dayTypes: rule.dayTypes ?? [],
+        windowStart: rule.timeWindow?.start ?? null,
+        windowEnd: rule.timeWindow?.end ?? null,
+        amountType: rule.amountType,
+        amount: rule.amount
+      })
+    ];
+    if (dailyResults.length > 0) {
+      steps.push(segmentStep('premium', { ruleId: rule.id }, {
+        hours: totalHours,
+        baseRate: rule.amountType === 'rate' ? hourlyRate : amount,
+        multiplier: rule.amountType === 'rate' ? rule.amount : 1,
+        exact: totalHours.mul(hourlyPremium),
+        pay,
+        rounding: recorder.policy.daily
+      }));
+    }
+    if (missingStartTime > 0) {
+      steps.push(noteStep('premiumMissingStartTime', { count: missingStartTime }));
+    }
+
+    return {
+      pay,
+      steps,
+      ...(dailyResults.length > 0 && { dailyBreakdown: dailyResults })
+    };
+  }
+
+  // 每月延長工時超過門檻部分的加給（例如日本每月時間外勞動超過60小時部分另加25%）；
+  // 快速輸入沒有日期，全部時數視為同一個月
+  private calculateMonthlySurcharge(
+    paidDays: PaidWorkDay[],
+    hourlyRate: Fraction,
+    recorder: RoundingRecorder
+  ): { category: PremiumCategory; detail: ExactDetail } | null {
+    const surcharge = this.rulePack.monthlyOvertimeSurcharge;
+    if (!surcharge) return null;
+
+    const monthlyHours = new Map<string, Fraction>();
+    paidDays
+      .filter(day => day.dayType === 'weekday' || day.dayType === 'restDay')
+      .forEach(day => {
+        const month = day.date ? getMonthKey(day.date) : CURRENT_PERIOD_KEY;
+        monthlyHours.set(month, (monthlyHours.get(month) ?? Fraction.ZERO).add(day.hours));
+      });
+
+    const hourlyPremium = hourlyRate.mul(surcharge.additionalMultiplier);
+    const dailyResults: ExactDailyDetail[] = [];
+    const steps: CalculationStep[] = [
+      noteStep('monthlySurchargeRule', { thresholdHours: surcharge.thresholdHours, multiplier: surcharge.additionalMultiplier })
+    ];
+    [...monthlyHours.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([month, hours]) => {
+        const excess = hours.sub(surcharge.thresholdHours);
+        if (excess.compare(0) <= 0) return;
+        const exact = excess.mul(hourlyPremium);
+        const pay = recorder.apply('daily', exact);
+        dailyResults.push({ day: dailyResults.length + 1, date: month, hours: excess.round(2), pay });
+        steps.push(segmentStep('monthlySurcharge', { month, thresholdHours: surcharge.thresholdHours }, {
+          hours: excess,
+          baseRate: hourlyRate,
+          multiplier: surcharge.additionalMultiplier,
+          exact,
+          pay,
+          rounding: recorder.policy.daily
+        }));
+      });
+    if (dailyResults.length === 0) return null;
+
+    return {
+      category: getMonthlySurchargeCategory(surcharge.thresholdHours),
+      detail: {
+        pay: Fraction.sum(dailyResults.map(day => day.pay)),
+        steps,
+        dailyBreakdown: dailyResults
+      }
+    };
+  }
+
+  // 檢查紀錄的工作日類型是否適用於目前的法域規則；快速輸入依欄位分別回報
+  private checkSupportedDayTypes(workData: WorkDataInput): CalculationError[] {
+    const { dayTypes, dayTypeLabels, name } = this.rulePack;
+    const entries = workData.entries ?? [];
+    const used = entries.length > 0
+      ? entries.map(entry => entry.dayType)
+      : WORK_DAY_TYPES.filter(dayType => workData[WORK_DAY_INPUT_FIELD[dayType]].trim());
+    const unsupported = [...new Set(used)].filter(dayType => !dayTypes.includes(dayType));
+    const toError = (types: WorkDayType[], field: keyof WorkDataInput): CalculationError => ({
+      type: 'UNSUPPORTED_DAY_TYPE',
+      message: t('input.unsupportedDayTypes', { name, dayTypes: joinList(types.map(dayType => dayTypeLabels[dayType])) }),
+      field
+    });
+    if (unsupported.length === 0) return [];
+    return entries.length > 0
+      ? [toError(unsupported, 'entries')]
+      : unsupported.map(dayType => toError([dayType], WORK_DAY_INPUT_FIELD[dayType]));
+  }
+
+  // 部分工時設定：採用變形工時時以排班判斷延長工時，不另拆分
+  private resolvePartTime(options: ComprehensiveOptions): PartTimeSetting | undefined {
+    return isFlexibleScheme(options.workingHourScheme) ? undefined : { contractualHours: options.contractualHours };
+  }
+
+  // 平日時數中屬延長工時的部分（部分工時扣除以平日工資計的時數）
+  private toWeekdayOvertimeHours(hours: number, partTime?: PartTimeSetting, contractualHours?: number): number {
+    if (!partTime) return hours;
+    return splitPartTimeHours(Fraction.fromNumber(hours), contractualHours ?? partTime.contractualHours).overtime.toNumber();
+  }
+
+  // 變形工時：日期制平日紀錄為實際工作時數，依排班換算為延長工時後再計算
+  private applyWorkingHourScheme(workData: WorkDataInput, scheme?: WorkingHourScheme): WorkDataInput {
+    if (!isFlexibleScheme(scheme) || !workData.entries || workData.entries.length === 0) return workData;
+    return { ...workData, entries: toOvertimeEntries(workData.entries, scheme) };
+  }
+
+  // 打卡紀錄扣除的正常工時：一般工時平日為8小時（部分工時為約定工時）；
+  // 變形工時平日由排班換算，其他工作日全數為出勤時數，皆不在此扣除
+  private getClockNormalHours(entry: DatedWorkEntry, options: ComprehensiveOptions): number {
+    if (entry.dayType !== 'weekday' || isFlexibleScheme(options.workingHourScheme)) return 0;
+    return Math.min(entry.contractualHours ?? options.contractualHours ?? HOURS_PER_DAY, HOURS_PER_DAY);
+  }
+
+  // 以打卡時間輸入的紀錄換算為工作時數
+  private applyClockTimes(workData: WorkDataInput, options: ComprehensiveOptions): WorkDataInput {
+    if (!workData.entries || !workData.entries.some(hasClockTimes)) return workData;
+    const settings = options.clockSettings ?? DEFAULT_CLOCK_SETTINGS;
+    return { ...workData, entries: applyClockTimes(workData.entries, settings, entry => this.getClockNormalHours(entry, options)) };
+  }
+
+  // 打卡紀錄的換算說明（跨日班次依拆分後各段的工作日類型列出）
+  private describeClockEntries(entries: DatedWorkEntry[], dayType: WorkDayType, options: ComprehensiveOptions): CalculationStep[] {
+    const settings = options.clockSettings ?? DEFAULT_CLOCK_SETTINGS;
+    return entries
+      .flatMap(entry => deriveClockSegments(entry, settings, segment => this.getClockNormalHours(segment, options)))
+      .filter(({ entry }) => entry.dayType === dayType)
+      .map(({ entry, clock }) => clockHoursStep(entry, clock));
+  }
+
+  // 額外加給依當日全部實際工作時段計算：打卡紀錄扣除無薪休息；其他紀錄的平日時數僅含延長工時，
+  // 視為緊接於當日正常工時之後，開始時間往前推算正常工時
+  private toPremiumWorkDays(entries: DatedWorkEntry[], options: ComprehensiveOptions): PremiumWorkDay[] {
+    const settings = options.clockSettings ?? DEFAULT_CLOCK_SETTINGS;
+    return sortEntriesByDate(entries).flatMap(entry => {
+      if (hasClockTimes(entry)) {
+        return deriveWorkPeriods(entry, settings).map(({ entry: segment, workedHours, periods }) => ({
+          date: segment.date,
+          dayType: segment.dayType,
+          hours: workedHours,
+          periods
+        }));
+      }
+      if (!(entry.hours > 0)) return [];
+
+      const normalHours = this.getClockNormalHours(entry, options);
+      const hours = Fraction.fromNumber(entry.hours).add(normalHours);
+      const start = entry.startTime ? parseTimeOfDay(entry.startTime) : null;
+      return [{
+        date: entry.date,
+        dayType: entry.dayType,
+        hours,
+        ...(start !== null && {
+          periods: [{ start: formatTimeOfDay(start - normalHours * 60), hours, workedRatio: Fraction.ONE }]
+        })
+      }];
+    });
+  }
+
+  // 檢查日期制紀錄格式，錯誤皆對應至 entries 欄位
+  validateDatedEntries(entries: DatedWorkEntry[]): CalculationError[] {
+    const errors: CalculationError[] = [];
+    const addError = (type: CalculationErrorType, message: string): void => {
+      errors.push({ type, message, field: 'entries' });
+    };
+
+    entries.forEach(entry => {
+      if (!isValidDateString(entry.date)) {
+        addError('INVALID_HOURS_FORMAT', t('date.invalidDate', { date: entry.date }));
+      }
+      if (!Number.isFinite(entry.hours)) {
+        addError('INVALID_HOURS_FORMAT', t('input.invalidEntryHours', { date: entry.date, hours: entry.hours }));
+      } else if (entry.hours < 0) {
+        addError('NEGATIVE_HOURS', t('input.negativeEntryHours', { date: entry.date, hours: entry.hours }));
+      } else if (entry.hours > MAX_HOURS_PER_DAY) {
+        addError('EXCEEDED_DAY_HOURS', t('input.entryExceedsDayHours', { date: entry.date, hours: entry.hours, limit: MAX_HOURS_PER_DAY }));
+      }
+      if (entry.contractualHours !== undefined && (!Number.isFinite(entry.contractualHours) || entry.contractualHours < 0)) {
+        addError('INVALID_HOURS_FORMAT', t('input.invalidContractualHours', { date: entry.date, hours: entry.contractualHours }));
+      }
+      validateClockEntry(entry).forEach(message => addError('INVALID_HOURS_FORMAT', message));
+    });
+    return errors;
+  }
+
+  // 計算前的輸入檢查：工資、各欄時數、日期制紀錄、加給規則及倍率級距，錯誤依欄位回報
+  validateInput(
+    wageAmount: number,
+    workData: WorkDataInput,
+    options: Pick<ComprehensiveOptions, 'payBasis' | 'wageComponents' | 'premiumRules'> = {}
+  ): ValidationResult {
+    const errors: CalculationError[] = [];
+    if (!(wageAmount > 0)) {
+      errors.push({ type: 'INVALID_SALARY', message: t('input.invalidWage', { label: getPayBasisLabel(options.payBasis ?? 'monthly') }) });
     }
+    (options.wageComponents ?? []).forEach(item => {
+      if (!Number.isFinite(item.amount) || item.amount < 0) {
+        errors.push({ type: 'INVALID_SALARY', message: t('input.invalidWageComponent', { name: item.name }) });
+      }
+    });
+
+    if (workData.entries && workData.entries.length > 0) {
+      errors.push(...this.validateDatedEntries(workData.entries));
+    } else {
+      WORK_DAY_TYPES.forEach(dayType => {
+        const field = WORK_DAY_INPUT_FIELD[dayType];
+        errors.push(...this.validateHoursInput(workData[field], field));
+      });
+    }
+    errors.push(...this.checkSupportedDayTypes(workData));
+
+    [...this.rulePack.statutoryPremiums, ...(options.premiumRules ?? [])]
+      .flatMap(validatePremiumRule)
+      .forEach(message => errors.push({ type: 'INVALID_PREMIUM_RULE', message, field: 'premiumRules' }));
+    validateRateTierTable(this.rates.tiers, this.rulePack.dayTypeLabels)
+      .forEach(message => errors.push({ type: 'INVALID_RATE_TIERS', message, field: 'rateTiers' }));
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  // 未先經 validateInput 檢查的呼叫端，輸入有誤時拋出附帶檢查結果的 InputValidationError
+  private assertValidInput(wageAmount: number, workData: WorkDataInput, options: ComprehensiveOptions): void {
+    const validation = this.validateInput(wageAmount, workData, options);
+    if (!validation.isValid) throw new InputValidationError(validation);
   }
 
   // 綜合計算主方法
   calculateComprehensive(
-    monthlySalary: number,
-    workData: WorkDataInput,
-    useCeilingCalculation: boolean = true
+    wageAmount: number,
+    rawWorkData: WorkDataInput,
+    roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+    options: ComprehensiveOptions = {}
   ): ComprehensiveResult {
-    if (!monthlySalary || monthlySalary <= 0) {
-      throw new Error('請輸入有效的月薪');
-    }
+    this.assertValidInput(wageAmount, rawWorkData, options);
+    const workData = this.applyWorkingHourScheme(this.applyClockTimes(rawWorkData, options), options.workingHourScheme);
+    // 法定加給（例如日本深夜勞動）列於約定加給之前
+    const premiumRules = [
+      ...this.rulePack.statutoryPremiums.map(rule => ({ rule, category: getStatutoryPremiumCategory(rule) })),
+      ...(options.premiumRules ?? []).map(rule => ({ rule, category: getPremiumCategory(rule) }))
+    ];
+    const recorder = new RoundingRecorder(roundingPolicy);
+    const { payBasis, hourlyRate, exactHourlyRate, dailyWage, wageBase, minimumWageCheck } =
+      this.resolvePayRates(wageAmount, workData, recorder, options);
 
-    const hourlyRate = this.calculateHourlyRate(monthlySalary, useCeilingCalculation);
-    const dailyWage = this.calculateDailyWage(monthlySalary, useCeilingCalculation);
+    // 記錄本次計算實際用到的法規版本
+    const usedVersions = new Map<string, RuleVersionSummary>();
+    const getVersion = (date: string): LaborRuleVersion => {
+      const version = this.resolveRuleVersion(date, options.ruleVersionId);
+      usedVersions.set(version.id, { id: version.id, name: version.name });
+      return version;
+    };
 
     const result: ComprehensiveResult = {
       hourlyRate,
       dailyWage,
       calculations: {},
-      totalPay: 0
+      totalPay: 0,
+      payBasis,
+      ...(payBasis === 'monthly' && { monthlyHours: this.getMonthlyHours() }),
+      wageBase,
+      minimumWageCheck,
+      roundingPolicy
     };
 
-    let totalPay = 0;
+    // 合計以精確值累加，最後依總額規則捨入
+    let totalPay = Fraction.ZERO;
+    // 逐日工資，供拆分免稅加班費
+    const paidDays: PaidWorkDay[] = [];
+    // 部分工時以平日工資計的部分屬正常工時工資，不列入加班時數與免稅額度
+    const addPaidDay = (
+      dayType: WorkDayType,
+      hours: number,
+      detail: Pick<ExactDetail, 'pay' | 'extraNormalHours' | 'extraNormalPay' | 'extendedHours' | 'extendedPay'>,
+      date?: string
+    ): void => {
+      paidDays.push({
+        date,
+        dayType,
+        hours: Fraction.fromNumber(hours).sub(detail.extraNormalHours ?? 0).toNumber(),
+        pay: detail.extraNormalPay ? detail.pay.sub(detail.extraNormalPay) : detail.pay,
+        ...(detail.extendedPay && { extendedHours: detail.extendedHours, extendedPay: detail.extendedPay })
+      });
+    };
+    const partTime = this.resolvePartTime(options);
 
-    try {
-      // 平日加班費
-      if (workData.weekdayOvertime.trim()) {
-        const parsed = this.parseHoursInput(workData.weekdayOvertime);
-        if (parsed) {
-          result.calculations['平日加班'] = this.processDailyCalculation(
-            parsed,
-            hourlyRate,
-            this.calculateWeekdayOvertime.bind(this),
-            workData.isEmergency
-          );
-          totalPay += result.calculations['平日加班'].pay;
-        }
+    const finalize = (): ComprehensiveResult => {
+      const surcharge = this.calculateMonthlySurcharge(paidDays, exactHourlyRate, recorder);
+      if (surcharge) {
+        result.calculations[surcharge.category] = toCalculationDetail(surcharge.detail);
+        totalPay = totalPay.add(surcharge.detail.pay);
       }
-
-      // 休息日工作
-      if (workData.restDayWork.trim()) {
-        const parsed = this.parseHoursInput(workData.restDayWork);
-        if (parsed) {
-          result.calculations['休息日工作'] = this.processDailyCalculation(
-            parsed,
-            hourlyRate,
-            this.calculateRestDayOvertime.bind(this)
-          );
-          totalPay += result.calculations['休息日工作'].pay;
-        }
+      result.totalPay = toMoney(recorder.apply('total', totalPay));
+      result.ruleVersions = [...usedVersions.values()];
+      if (this.rulePack.splitsTaxFreeOvertime) {
+        result.taxSplit = calculateTaxSplit(paidDays, workData.isEmergency, undefined, result.totalPay);
       }
+      result.roundingAdjustments = recorder.getAdjustments();
+      return result;
+    };
 
-      // 國定假日/特休出勤
-      if (workData.holidayWork.trim()) {
-        const parsed = this.parseHoursInput(workData.holidayWork);
-        if (parsed) {
-          result.calculations['假日出勤'] = this.processDailyCalculation(
-            parsed,
-            hourlyRate,
-            (hours: number, rate: number) => this.calculateHolidayPay(hours, rate, '國定假日')
-          );
-          totalPay += result.calculations['假日出勤'].pay;
-        }
-      }
+    // 額外加給分項列出並計入總額；加給非加班費，全數列為應稅
+    const addPremiums = (days: PremiumWorkDay[]): void => {
+      premiumRules.forEach(({ rule, category }) => {
+        const premium = this.calculatePremium(rule, days, exactHourlyRate, recorder);
+        if (!premium) return;
+        result.calculations[category] = toCalculationDetail(premium);
+        totalPay = totalPay.add(premium.pay);
+      });
+    };
 
-      // 例假出勤
-      if (workData.regularDayOffWork.trim()) {
-        const parsed = this.parseHoursInput(workData.regularDayOffWork);
-        if (parsed) {
-          result.calculations['例假出勤'] = this.processDailyCalculation(
-            parsed,
-            hourlyRate,
-            (hours: number, rate: number) => this.calculateHolidayPay(hours, rate, '例假')
-          );
-          totalPay += result.calculations['例假出勤'].pay;
+    // 日期制紀錄：依工作日類型分組後逐日計算
+    if (workData.entries && workData.entries.length > 0) {
+      // 選擇換補休的紀錄不發給加班費，改由補休計算處理；
+      // 部分工時約定工時後至8小時內的時數屬正常工時，不得換補休，仍以平日工資發給
+      const cashEntries = workData.entries.flatMap(entry => {
+        if (!entry.compLeave) return [entry];
+        const contractualHours = partTime && entry.dayType === 'weekday' ? entry.contractualHours ?? partTime.contractualHours : undefined;
+        const { extraNormal } = splitPartTimeHours(Fraction.fromNumber(entry.hours), contractualHours);
+        return extraNormal.isZero() ? [] : [{ ...entry, hours: extraNormal.toNumber(), compLeave: false }];
+      });
+
+      WORK_DAY_TYPES.forEach(dayType => {
+        const entries = cashEntries.filter(entry => entry.dayType === dayType && entry.hours > 0);
+        if (entries.length === 0) return;
+
+        const category = WORK_DAY_CATEGORY[dayType];
+        const calculation = this.processDatedCalculation(
+          entries,
+          exactHourlyRate,
+          this.getDayCalculator(dayType, workData.isEmergency, recorder, options.billingIncrement, partTime),
+          getVersion
+        );
+        if (dayType === 'weekday' && isFlexibleScheme(options.workingHourScheme)) {
+          calculation.steps.push(noteStep('flexibleScheme', { scheme: options.workingHourScheme.type }));
         }
+        calculation.steps.push(...this.describeClockEntries(
+          rawWorkData.entries!.filter(entry => !entry.compLeave),
+          dayType,
+          options
+        ));
+        result.calculations[category] = toCalculationDetail(calculation);
+        totalPay = totalPay.add(calculation.pay);
+        calculation.dailyBreakdown?.forEach(day => addPaidDay(dayType, day.billedHours ?? day.hours, day, day.date));
+      });
+
+      // 換補休的紀錄仍屬實際出勤，一併計入額外加給
+      addPremiums(this.toPremiumWorkDays(rawWorkData.entries!, options));
+      return finalize();
+    }
+
+    const ruleVersion = getVersion(options.referenceDate ?? todayDateString());
+    const premiumDays: PremiumWorkDay[] = [];
+
+    WORK_DAY_TYPES.forEach(dayType => {
+      const parsed = this.parseHoursInput(workData[WORK_DAY_INPUT_FIELD[dayType]]);
+      if (!parsed) return;
+
+      const category = WORK_DAY_CATEGORY[dayType];
+      const calculation = this.processDailyCalculation(
+        parsed,
+        exactHourlyRate,
+        this.getDayCalculator(dayType, workData.isEmergency, recorder, options.billingIncrement, partTime),
+        ruleVersion
+      );
+      result.calculations[category] = toCalculationDetail(calculation);
+      totalPay = totalPay.add(calculation.pay);
+      if (calculation.dailyBreakdown) {
+        calculation.dailyBreakdown.forEach(day => addPaidDay(dayType, day.billedHours ?? day.hours, day));
+      } else {
+        addPaidDay(dayType, calculation.billedHours ?? parsed.total, calculation);
       }
+      // 平日時數僅含延長工時，加上當日正常工時
+      const normalHours = dayType === 'weekday' ? Math.min(partTime?.contractualHours ?? HOURS_PER_DAY, HOURS_PER_DAY) : 0;
+      parsed.detail
+        .filter(hours => hours > 0)
+        .forEach(hours => premiumDays.push({ dayType, hours: Fraction.fromNumber(hours).add(normalHours) }));
+    });
 
-      result.totalPay = Math.round(totalPay * 100) / 100;
-      return result;
+    // 快速輸入沒有開始時間，僅能計算依工作日類型的加給，時段加給於說明中列出未計入的天數
+    addPremiums(premiumDays);
+    return finalize();
+  }
 
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : '輸入格式錯誤';
-      throw new Error(`${errorMessage}\n\n請確認輸入格式：\n• 單一時數: 3\n• 多天時數: 9,9,9,9`);
+  // 補休計算：記錄換取補休時數、未休應發金額及已休時數
+  calculateCompensatoryLeave(
+    wageAmount: number,
+    rawWorkData: WorkDataInput,
+    roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+    options: CompLeaveOptions = {}
+  ): CompLeaveResult {
+    this.assertValidInput(wageAmount, rawWorkData, options);
+    const workData = this.applyWorkingHourScheme(this.applyClockTimes(rawWorkData, options), options.workingHourScheme);
+    const recorder = new RoundingRecorder(roundingPolicy);
+    const { hourlyRate, exactHourlyRate } = this.resolvePayRates(wageAmount, workData, recorder, options);
+    const asOfDate = options.asOfDate ?? todayDateString();
+    // 依第32條之1，僅延長工時及休息日工作可換取補休
+    const eligibleTypes: WorkDayType[] = ['weekday', 'restDay'];
+    const earned: EarnedCompLeave[] = [];
+    const partTime = this.resolvePartTime(options);
+    // 部分工時以平日工資計的時數不屬延長工時，僅以其餘時數換補休
+    const toCompLeaveOvertime = (result: ExactDetail, hours: number): Pick<EarnedCompLeave, 'hours' | 'payValue'> | null => {
+      const overtimeHours = Fraction.fromNumber(result.billedHours ?? hours).sub(result.extraNormalHours ?? 0);
+      if (overtimeHours.compare(0) <= 0) return null;
+      const overtimePay = result.extraNormalPay ? result.pay.sub(result.extraNormalPay) : result.pay;
+      return { hours: overtimeHours.toNumber(), payValue: toMoney(overtimePay) };
+    };
+
+    if (workData.entries && workData.entries.length > 0) {
+      workData.entries
+        .filter(entry => entry.compLeave && entry.hours > 0 && eligibleTypes.includes(entry.dayType))
+        .forEach(entry => {
+          const version = this.resolveRuleVersion(entry.date, options.ruleVersionId);
+          const calculate = this.getDayCalculator(entry.dayType, workData.isEmergency, recorder, options.billingIncrement, partTime);
+          const result = calculate(entry.hours, exactHourlyRate, version, entry.contractualHours);
+          // 補休時數依計算單位換算後的時數記錄
+          const overtime = toCompLeaveOvertime(result, entry.hours);
+          if (!overtime) return;
+          earned.push({
+            date: entry.date,
+            dayType: entry.dayType,
+            ...overtime,
+            expiryDate: getCompLeaveExpiryDate(entry.date, options.validityMonths)
+          });
+        });
+    } else {
+      // 快速輸入無日期：全部平日加班及休息日工作時數視為換補休，無法判斷期限
+      const version = this.resolveRuleVersion(options.referenceDate ?? asOfDate, options.ruleVersionId);
+      eligibleTypes.forEach(dayType => {
+        const parsed = this.parseHoursInput(workData[WORK_DAY_INPUT_FIELD[dayType]]);
+        if (!parsed) return;
+
+        const calculate = this.getDayCalculator(dayType, workData.isEmergency, recorder, options.billingIncrement, partTime);
+        parsed.detail
+          .filter(hours => hours > 0)
+          .forEach(hours => {
+            const overtime = toCompLeaveOvertime(calculate(hours, exactHourlyRate, version), hours);
+            if (!overtime) return;
+            earned.push({
+              date: null,
+              dayType,
+              ...overtime,
+              expiryDate: null
+            });
+          });
+      });
     }
+
+    return buildCompLeaveLedger(earned, options.usedHours ?? 0, asOfDate, hourlyRate);
   }
 
-  // 工時合規性檢查
-  validateWorkHours(workData: WorkDataInput): {
+  // 工時合規性檢查；採用變形工時時一併檢查排班上限
+  validateWorkHours(
+    rawWorkData: WorkDataInput,
+    options: Pick<ComprehensiveOptions, 'workingHourScheme' | 'contractualHours' | 'clockSettings'> = {}
+  ): {
     isValid: boolean;
     warnings: string[];
   } {
+    const workData = this.applyClockTimes(rawWorkData, options);
     const warnings: string[] = [];
     let isValid = true;
+    const scheme = options.workingHourScheme;
+    const partTime = this.resolvePartTime(options);
+    const { categoryLabels: labels, dailyHourLimits: limits } = this.rulePack;
 
     // 檢查各項工作時數
-    const checkHours = (input: string, type: string, maxRecommended?: number) => {
+    const checkDailyHours = (dailyHours: number[], type: string, maxRecommended?: number) => {
+      if (dailyHours.length === 0) return;
+
+      const maxDaily = Math.max(...dailyHours);
+      if (maxRecommended && maxDaily > maxRecommended) {
+        warnings.push(t('warning.dailyAboveRecommended', { type, hours: maxDaily, limit: maxRecommended }));
+        isValid = false;
+      }
+      const { maxDailyHours } = this.rulePack;
+      if (maxDailyHours !== undefined && maxDaily > maxDailyHours) {
+        warnings.push(t('warning.dailyAboveStatutory', { type, hours: maxDaily, limit: maxDailyHours }));
+        isValid = false;
+      }
+    };
+
+    const checkHours = (input: string, type: string, maxRecommended?: number, toCheckedHours?: (hours: number) => number) => {
       if (!input.trim()) return;
 
       try {
         const parsed = this.parseHoursInput(input);
         if (parsed) {
-          const maxDaily = Math.max(...parsed.detail);
-          if (maxRecommended && maxDaily > maxRecommended) {
-            warnings.push(`${type}單日工作時數 ${maxDaily} 小時可能超過建議上限 ${maxRecommended} 小時`);
-            isValid = false;
-          }
-          if (maxDaily > 12) {
-            warnings.push(`${type}單日工作時數 ${maxDaily} 小時超過法定上限 12 小時`);
-            isValid = false;
-          }
+          checkDailyHours(toCheckedHours ? parsed.detail.map(hours => toCheckedHours(hours)) : parsed.detail, type, maxRecommended);
         }
       } catch (error) {
-        warnings.push(`${type}輸入格式錯誤 ${error}`);
+        warnings.push(t('warning.inputError', { type, message: error instanceof Error ? error.message : String(error) }));
         isValid = false;
       }
     };
 
-    checkHours(workData.weekdayOvertime, '平日加班', 4);
-    checkHours(workData.restDayWork, '休息日工作', 8);
-    checkHours(workData.holidayWork, '假日出勤', 8);
-    checkHours(workData.regularDayOffWork, '例假出勤', 8);
+    const dayTypeErrors = this.checkSupportedDayTypes(workData);
+    if (dayTypeErrors.length > 0) {
+      warnings.push(...dayTypeErrors.map(error => error.message));
+      isValid = false;
+    }
+
+    // 例假僅限第40條天災、事變或突發事件始得出勤
+    const hasRegularDayOffWork = workData.entries && workData.entries.length > 0
+      ? workData.entries.some(entry => entry.dayType === 'regularDayOff' && entry.hours > 0)
+      : workData.regularDayOffWork.trim() !== '';
+    if (hasRegularDayOffWork && !workData.isEmergency && this.rulePack.dayTypes.includes('regularDayOff')) {
+      warnings.push(t('warning.regularDayOffWork'));
+      isValid = false;
+    }
+
+    if (workData.entries && workData.entries.length > 0) {
+      // 法定休息（勞基法第35條：繼續工作4小時，至少應有30分鐘之休息）
+      const clockSettings = options.clockSettings ?? DEFAULT_CLOCK_SETTINGS;
+      const { afterHours, minutes } = this.rulePack.statutoryBreak;
+      rawWorkData.entries?.forEach(entry => {
+        const clock = deriveClockHours(entry, clockSettings, 0);
+        if (clock && clock.spanHours > afterHours && clock.breakHours * 60 < minutes) {
+          warnings.push(t('warning.insufficientBreak', { date: entry.date, hours: afterHours, minutes }));
+          isValid = false;
+        }
+      });
+
+      const hoursOf = (dayType: WorkDayType) => workData.entries!
+        .filter(entry => entry.dayType === dayType)
+        .map(entry => entry.hours);
+
+      if (isFlexibleScheme(scheme)) {
+        // 平日紀錄為實際工作時數，正常工時與延長工時合計不得超過12小時
+        const schemeErrors = validateScheme(scheme);
+        if (schemeErrors.length > 0) {
+          warnings.push(...schemeErrors);
+          isValid = false;
+        }
+        checkDailyHours(hoursOf('weekday'), t('warning.weekdayAttendance'), MAX_DAILY_TOTAL_HOURS);
+      } else {
+        const weekdayOvertime = workData.entries
+          .filter(entry => entry.dayType === 'weekday')
+          .map(entry => this.toWeekdayOvertimeHours(entry.hours, partTime, entry.contractualHours));
+        checkDailyHours(weekdayOvertime, labels.平日加班, limits.weekday);
+      }
+      checkDailyHours(hoursOf('restDay'), labels.休息日工作, limits.restDay);
+      checkDailyHours(hoursOf('holiday'), labels.假日出勤, limits.holiday);
+      checkDailyHours(hoursOf('regularDayOff'), labels.例假出勤, limits.regularDayOff);
+      return { isValid, warnings };
+    }
+
+    checkHours(workData.weekdayOvertime, labels.平日加班, limits.weekday, hours => this.toWeekdayOvertimeHours(hours, partTime));
+    checkHours(workData.restDayWork, labels.休息日工作, limits.restDay);
+    checkHours(workData.holidayWork, labels.假日出勤, limits.holiday);
+    checkHours(workData.regularDayOffWork, labels.例假出勤, limits.regularDayOff);
 
     return { isValid, warnings };
   }
 
+  // 每月及每三個月延長工時上限檢查（台灣為每月46（54）小時、每三個月138小時）
+  checkLegalLimits(
+    rawWorkData: WorkDataInput,
+    options: Pick<OvertimeLimitOptions, 'withConsent'> & Pick<ComprehensiveOptions, 'workingHourScheme' | 'contractualHours' | 'clockSettings'> = {}
+  ): LegalLimitCheck {
+    const workData = this.applyClockTimes(rawWorkData, options);
+    const partTime = this.resolvePartTime(options);
+    const limitOptions: OvertimeLimitOptions = {
+      withConsent: options.withConsent,
+      isEmergency: workData.isEmergency,
+      limits: this.rulePack.overtimeLimits
+    };
+    // 天災事變之平日延長工時依第32條第4項不計入上限
+    const countWeekday = (hours: number) => workData.isEmergency ? 0 : hours;
+    // 國定假日及例假出勤超過8小時的部分屬延長工時，依規則包一併計入上限
+    const toHolidayOvertimeHours = (hours: number) => this.rulePack.countsHolidayExcessAsOvertime
+      ? Fraction.fromNumber(hours).sub(HOURS_PER_DAY).max(0).toNumber()
+      : 0;
+    const isHolidayType = (dayType: WorkDayType) => dayType === 'holiday' || dayType === 'regularDayOff';
+
+    if (workData.entries && workData.entries.length > 0) {
+      const entryErrors = this.validateDatedEntries(workData.entries);
+      if (entryErrors.length > 0) {
+        return { isWithinLimit: false, warnings: entryErrors.map(error => error.message), suggestions: [] };
+      }
+
+      const entries = isFlexibleScheme(options.workingHourScheme)
+        ? toOvertimeEntries(workData.entries, options.workingHourScheme)
+        : workData.entries;
+      const records: OvertimeHoursRecord[] = entries.map(entry => ({
+        month: getMonthKey(entry.date),
+        weekdayOvertimeHours: entry.dayType === 'weekday' ? countWeekday(this.toWeekdayOvertimeHours(entry.hours, partTime, entry.contractualHours)) : 0,
+        restDayHours: entry.dayType === 'restDay' ? entry.hours : 0,
+        holidayOvertimeHours: isHolidayType(entry.dayType) ? toHolidayOvertimeHours(entry.hours) : 0
+      }));
+      return checkOvertimeLimits(records, limitOptions);
+    }
+
+    try {
+      const parseDetail = (input: string): number[] => this.parseHoursInput(input)?.detail ?? [];
+      const weekday = parseDetail(workData.weekdayOvertime);
+      const restDay = parseDetail(workData.restDayWork);
+      const holidays = [...parseDetail(workData.holidayWork), ...parseDetail(workData.regularDayOffWork)];
+      return checkOvertimeLimits([{
+        month: null,
+        weekdayOvertimeHours: countWeekday(Fraction.sum(weekday.map(hours => this.toWeekdayOvertimeHours(hours, partTime))).toNumber()),
+        restDayHours: Fraction.sum(restDay).toNumber(),
+        holidayOvertimeHours: Fraction.sum(holidays.map(toHolidayOvertimeHours)).toNumber()
+      }], limitOptions);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : t('input.formatError');
+      return { isWithinLimit: false, warnings: [message], suggestions: [] };
+    }
+  }
+
+  // 實領估算：以綜合計算結果的應稅／免稅拆分，套用扣繳率及各項扣款
+  estimateNetPay(result: ComprehensiveResult, options: NetPayOptions): NetPayEstimate {
+    const taxSplit: TaxSplit = result.taxSplit ?? calculateTaxSplit([]);
+    return estimateNetPay(taxSplit, options);
+  }
+
+  // 薪資單稽核：比對雇主實發與綜合計算的依法應發金額
+  auditPayslip(result: ComprehensiveResult, paidAmounts: PayslipPaidAmounts): PayslipAuditResult {
+    return auditPayslip(result, paidAmounts, this.rulePack);
+  }
+
+  // 由加班費反推工作時數：列出單日可能的時數範圍，以及以計算單位拆分的多日組合
+  solveHoursForPay(
+    targetPay: number,
+    hourlyRate: number,
+    dayType: WorkDayType,
+    options: SolveHoursOptions = {}
+  ): HoursSolution {
+    if (!(targetPay > 0)) throw new Error(t('input.invalidTargetPay'));
+    if (!(hourlyRate > 0)) throw new Error(t('input.invalidHourlyRate'));
+
+    const { isEmergency = false, roundingPolicy = DEFAULT_ROUNDING_POLICY, step = 0.5, maxDays = 3, limit = 20 } = options;
+    const ruleVersion = this.resolveRuleVersion(options.referenceDate ?? todayDateString(), options.ruleVersionId);
+    const rate = Fraction.fromNumber(hourlyRate);
+    const calculate = this.getDayCalculator(dayType, isEmergency, new RoundingRecorder(roundingPolicy));
+    const payAt = (hours: number): number => hours > 0 ? toMoney(calculate(hours, rate, ruleVersion).pay) : 0;
+
+    // 平日延長工時連同正常工時每日不得超過12小時，天災事變不受此限
+    const maxHours = dayType !== 'weekday'
+      ? MAX_DAILY_TOTAL_HOURS
+      : isEmergency ? 24 - HOURS_PER_DAY : MAX_DAILY_TOTAL_HOURS - HOURS_PER_DAY;
+    const range = findHoursRange(payAt, targetPay, maxHours, PAY_TOLERANCE);
+    const splits = findHourSplits(payAt, targetPay, { step, maxHours, maxDays, tolerance: SPLIT_PAY_TOLERANCE, limit });
+
+    const label = this.rulePack.dayTypeLabels[dayType];
+    const target = this.formatAmount(targetPay);
+    const details = [t('solve.hoursBasis', { hourlyRate: this.formatAmount(hourlyRate), dayType: label, ruleVersion: ruleVersion.name })];
+    if (!range) {
+      details.push(t('solve.hoursUnreachable', { hours: maxHours, pay: this.formatAmount(payAt(maxHours)), target }));
+    } else if (range.min === range.max) {
+      details.push(t('solve.hoursExact', { hours: range.min, target }));
+    } else {
+      details.push(t('solve.hoursRange', { min: range.min, max: range.max, target }));
+    }
+    details.push(splits.length > 0
+      ? t('solve.splitsFound', { step, maxDays, count: splits.length })
+      : t('solve.splitsNone', { step, maxDays }));
+
+    return { dayType, targetPay, hourlyRate, range, splits, details };
+  }
+
+  // 由加班費反推工資：加班費隨時薪等比例增加，先求出比例再依時薪捨入規則列出對應的工資範圍
+  solveSalaryForPay(
+    targetPay: number,
+    workData: WorkDataInput,
+    roundingPolicy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+    options: ComprehensiveOptions = {}
+  ): SalarySolution {
+    if (!(targetPay > 0)) throw new Error(t('input.invalidTargetPay'));
+
+    const payBasis = options.payBasis ?? 'monthly';
+    const label = getPayBasisLabel(payBasis);
+    const solveOptions: ComprehensiveOptions = { ...options, applyMinimumWageFloor: false };
+
+    // 以不捨入的時薪制試算，求出每1元時薪對應的加班費；每小時固定金額的加給與時薪無關，另行合計
+    const exactPolicy: RoundingPolicy = {
+      hourlyRate: { mode: 'none', decimals: MONEY_DECIMALS },
+      segment: { mode: 'none', decimals: MONEY_DECIMALS },
+      daily: { mode: 'none', decimals: MONEY_DECIMALS },
+      total: { mode: 'none', decimals: MONEY_DECIMALS }
+    };
+    const premiumRules = options.premiumRules ?? [];
+    const probe = (rules: PremiumRule[]): ComprehensiveResult => this.calculateComprehensive(
+      PROBE_HOURLY_RATE, workData, exactPolicy, { ...solveOptions, payBasis: 'hourly', wageComponents: [], premiumRules: rules }
+    );
+    const factor = Fraction.fromNumber(probe(premiumRules.filter(rule => rule.amountType === 'rate')).totalPay).div(PROBE_HOURLY_RATE);
+    if (factor.compare(0) <= 0) throw new Error(t('input.overtimeRequired'));
+    const flatRules = premiumRules.filter(rule => rule.amountType === 'flat');
+    const flatCalculations = flatRules.length > 0 ? probe(flatRules).calculations : {};
+    const fixedPay = Fraction.sum(flatRules.map(rule => flatCalculations[getPremiumCategory(rule)]?.pay ?? 0));
+    const exactRate = Fraction.fromNumber(targetPay).sub(fixedPay).div(factor);
+
+    const details = [fixedPay.isZero()
+      ? t('solve.payFormula', { factor: factor.round(4) })
+      : t('solve.payFormulaWithFixed', { factor: factor.round(4), fixedPay: this.formatAmount(toMoney(fixedPay)) })];
+    if (exactRate.compare(0) <= 0) {
+      details.push(t('solve.fixedPayExceeds', { fixedPay: this.formatAmount(toMoney(fixedPay)) }));
+      return { targetPay, payBasis, hourlyRate: 0, range: null, details };
+    }
+
+    // 時薪換算：月薪 ÷ 每月正常工時、日薪 ÷ 每日正常工時，並扣除經常性給與
+    const { hoursPerDay } = this.rulePack;
+    const multiplier = payBasis === 'monthly' ? this.getMonthlyHours() : payBasis === 'daily' ? hoursPerDay : 1;
+    const regularTotal = this.buildWageBase(0, options.wageComponents).regularTotal;
+    const toSalary = (rate: Fraction): Fraction => rate.mul(multiplier).sub(regularTotal);
+    const payAtSalary = (salary: Fraction): number =>
+      this.calculateComprehensive(toMoney(salary), workData, roundingPolicy, solveOptions).totalPay;
+
+    const rule = roundingPolicy.hourlyRate;
+    let hourlyRate = exactRate;
+    let range: ValueRange;
+    if (rule.mode === 'none') {
+      const salary = toMoney(toSalary(exactRate));
+      range = { min: salary, max: salary };
+    } else {
+      // 取捨入後最接近目標金額的時薪，再推回捨入前可能的時薪區間（開區間端點以最小金額單位內縮）
+      const candidates = [exactRate.roundToFraction(rule.decimals, 'floor'), exactRate.roundToFraction(rule.decimals, 'ceil')]
+        .filter(rate => toSalary(rate).compare(0) > 0);
+      if (candidates.length === 0) {
+        details.push(t('solve.regularPayExceeds', { amount: this.formatAmount(regularTotal) }));
+        return { targetPay, payBasis, hourlyRate: toMoney(exactRate), range: null, details };
+      }
+      hourlyRate = candidates.reduce((best, rate) =>
+        Math.abs(payAtSalary(toSalary(rate)) - targetPay) < Math.abs(payAtSalary(toSalary(best)) - targetPay) ? rate : best);
+      const unit = Fraction.of(1, 10 ** rule.decimals);
+      const smallest = Fraction.of(1, 10 ** MONEY_DECIMALS);
+      const [lower, upper] = rule.mode === 'ceil'
+        ? [hourlyRate.sub(unit), hourlyRate]
+        : rule.mode === 'floor' ? [hourlyRate, hourlyRate.add(unit)] : [hourlyRate.sub(unit.div(2)), hourlyRate.add(unit.div(2))];
+      range = {
+        min: toMoney(toSalary(lower).add(rule.mode === 'floor' ? 0 : smallest).max(smallest)),
+        max: toMoney(toSalary(upper).sub(rule.mode === 'ceil' ? 0 : smallest))
+      };
+      details.push(t('solve.roundedHourlyRate', { rule: describeRoundingRule(rule), hourlyRate: this.formatAmount(toMoney(hourlyRate)) }));
+    }
+
+    details.push(range.min === range.max
+      ? t('solve.salaryExact', { label, amount: this.formatAmount(range.min) })
+      : t('solve.salaryRange', { label, min: this.formatAmount(range.min), max: this.formatAmount(range.max) }));
+    if (regularTotal > 0) details.push(t('solve.regularPayDeducted', { amount: this.formatAmount(regularTotal) }));
+
+    const checkedPay = payAtSalary(Fraction.fromNumber(range.max));
+    const checked = { label, amount: this.formatAmount(range.max), pay: this.formatAmount(checkedPay) };
+    details.push(checkedPay === targetPay ? t('solve.checked', checked) : t('solve.closest', checked));
+
+    return { targetPay, payBasis, hourlyRate: toMoney(hourlyRate), range, details };
+  }
+
+  // 情境比較：逐一計算各情境，單一情境失敗時記錄錯誤訊息，不影響其他情境
+  compareScenarios(scenarios: ComparisonScenario[]): ScenarioComparison {
+    const outcomes: ScenarioOutcome[] = scenarios.map(scenario => {
+      const calculator = scenario.rates || scenario.rulePack
+        ? new SalaryCalculatorService(scenario.rates ?? this.rates, scenario.rulePack ?? this.rulePack)
+        : this;
+      try {
+        const result = calculator.calculateComprehensive(scenario.wageAmount, scenario.workData, scenario.roundingPolicy, scenario.options);
+        return { id: scenario.id, name: scenario.name, result };
+      } catch (error) {
+        return { id: scenario.id, name: scenario.name, error: error instanceof Error ? error.message : t('input.calculationFailed') };
+      }
+    });
+    return buildScenarioComparison(outcomes);
+  }
+
   // 獲取當前費率設定
   getCurrentRates(): LaborStandardRates {
     return { ...this.rates };
@@ -354,23 +1666,26 @@ export const createDefaultCalculator = (): SalaryCalculatorService => {
 };
 
 // 建立自定義費率計算器實例
-export const createCustomCalculator = (customRates: Partial<LaborStandardRates>): SalaryCalculatorService => {
-  const rates = { ...DEFAULT_RATES, ...customRates };
-  return new SalaryCalculatorService(rates);
+export const createCustomCalculator = (
+  customRates: Partial<LaborStandardRates>,
+  rulePack: JurisdictionRulePack = TAIWAN_RULE_PACK
+): SalaryCalculatorService => {
+  const rates = { ...rulePack.defaultRates, ...customRates };
+  return new SalaryCalculatorService(rates, rulePack);
 };
 
 // 快速計算方法（無需實例化）
 export const quickCalculate = {
   // 快速計算時薪
-  hourlyRate: (monthlySalary: number, useCeiling: boolean = true): number => {
+  hourlyRate: (monthlySalary: number, rounding: RoundingRule = DEFAULT_ROUNDING_POLICY.hourlyRate): number => {
     const calculator = createDefaultCalculator();
-    return calculator.calculateHourlyRate(monthlySalary, useCeiling);
+    return calculator.calculateHourlyRate(monthlySalary, rounding);
   },
 
   // 快速計算日薪
-  dailyWage: (monthlySalary: number, useCeiling: boolean = true): number => {
+  dailyWage: (monthlySalary: number, rounding: RoundingRule = DEFAULT_ROUNDING_POLICY.hourlyRate): number => {
     const calculator = createDefaultCalculator();
-    return calculator.calculateDailyWage(monthlySalary, useCeiling);
+    return calculator.calculateDailyWage(monthlySalary, rounding);
   },
 
   // 快速計算平日加班費
@@ -0,0 +1,63 @@
+import type {
+  CalculationCategoryName,
+  ComprehensiveResult,
+  ScenarioComparison,
+  ScenarioComparisonRow
+} from '../components/type.ts';
+import { Fraction, toMoney } from './Fraction.ts';
+import { STATUTORY_CATEGORIES } from './WorkDayCategories.ts';
+
+// ===== 情境比較 =====
+
+/** 單一情境的計算結果 */
+export interface ScenarioOutcome {
+  id: string;
+  name: string;
+  result?: ComprehensiveResult;
+  /** 計算失敗時的錯誤訊息 */
+  error?: string;
+}
+
+// 各情境出現過的類別：法定類別依固定順序在前，加給依首次出現順序在後
+const collectCategories = (results: ComprehensiveResult[]): CalculationCategoryName[] => {
+  const present = new Set<CalculationCategoryName>();
+  results.forEach(result => {
+    (Object.keys(result.calculations) as CalculationCategoryName[]).forEach(category => present.add(category));
+  });
+  const statutory = STATUTORY_CATEGORIES.filter(category => present.has(category));
+  const premiums = [...present].filter(category => !(STATUTORY_CATEGORIES as string[]).includes(category));
+  return [...statutory, ...premiums];
+};
+
+// 彙整各情境結果為比較表，以第一個計算成功的情境為基準計算差額
+export const buildScenarioComparison = (outcomes: ScenarioOutcome[]): ScenarioComparison => {
+  const succeeded = outcomes.filter(outcome => outcome.result);
+  const categories = collectCategories(succeeded.map(outcome => outcome.result!));
+  const baseline = succeeded[0]?.result;
+  const payOf = (result: ComprehensiveResult | undefined, category: CalculationCategoryName): number =>
+    result?.calculations[category]?.pay ?? 0;
+
+  const rows: ScenarioComparisonRow[] = outcomes.map(({ id, name, result, error }) => {
+    if (!result) {
+      return { id, name, hourlyRate: 0, pays: {}, totalPay: 0, differences: {}, totalDifference: 0, error };
+    }
+
+    const pays: ScenarioComparisonRow['pays'] = {};
+    const differences: ScenarioComparisonRow['differences'] = {};
+    categories.forEach(category => {
+      pays[category] = payOf(result, category);
+      differences[category] = toMoney(Fraction.fromNumber(payOf(result, category)).sub(payOf(baseline, category)));
+    });
+    return {
+      id,
+      name,
+      hourlyRate: result.hourlyRate,
+      pays,
+      totalPay: result.totalPay,
+      differences,
+      totalDifference: toMoney(Fraction.fromNumber(result.totalPay).sub(baseline?.totalPay ?? 0))
+    };
+  });
+
+  return { baselineId: succeeded[0]?.id ?? null, categories, rows };
+};
@@ -0,0 +1,116 @@
+import type { NetPayEstimate, NetPayOptions, PayDeduction, TaxSplit, WorkDayType } from '../components/type.ts';
+import { getMonthKey, sortEntriesByDate } from './DateUtils.ts';
+import { Fraction, toMoney } from './Fraction.ts';
+import { formatCurrency, t } from './I18n.ts';
+import { OVERTIME_LIMITS } from './LegalLimitService.ts';
+
+/** 已計薪的單日工作（工資為未捨入的精確值） */
+export interface PaidWorkDay {
+  /** 工作日期（快速輸入時為 undefined） */
+  date?: string;
+  dayType: WorkDayType;
+  hours: number;
+  pay: Fraction;
+  /** 假日出勤超過8小時的延長工時 */
+  extendedHours?: number;
+  /** 上述時數的工資（已含於 pay） */
+  extendedPay?: Fraction;
+}
+
+// 依所得稅法第14條第1項第3類：每月延長工時46小時內的加班費免稅，超過部分及假日出勤8小時內的工資應稅
+export const calculateTaxSplit = (
+  days: PaidWorkDay[],
+  isEmergency: boolean = false,
+  monthlyExemptHours: number = OVERTIME_LIMITS.monthly,
+  totalPay?: number
+): TaxSplit => {
+  const usedHoursByMonth = new Map<string, Fraction>();
+  let dayTotal = Fraction.ZERO;
+  let nonTaxablePay = Fraction.ZERO;
+  let exemptHours = Fraction.ZERO;
+  let taxableOvertimeHours = Fraction.ZERO;
+  let holidayPay = Fraction.ZERO;
+
+  // 快速輸入無日期時全部視為同一個月，依平日加班、休息日工作、假日延長工時順序扣抵
+  const ordered = sortEntriesByDate(days.map(day => ({ ...day, date: day.date ?? '' })));
+
+  ordered.forEach(day => {
+    let hours = Fraction.fromNumber(day.hours);
+    let pay = day.pay;
+    dayTotal = dayTotal.add(day.pay);
+
+    // 假日出勤8小時內屬加倍發給之工資應稅；超過8小時部分屬延長工時，與平日加班共用每月免稅時數
+    if (day.dayType === 'holiday' || day.dayType === 'regularDayOff') {
+      hours = Fraction.fromNumber(day.extendedHours ?? 0);
+      pay = day.extendedPay ?? Fraction.ZERO;
+      holidayPay = holidayPay.add(day.pay.sub(pay));
+      if (hours.isZero()) return;
+    }
+
+    // 天災事變之延長工時不受每月上限限制，全數免稅
+    if (day.dayType === 'weekday' && isEmergency) {
+      nonTaxablePay = nonTaxablePay.add(pay);
+      exemptHours = exemptHours.add(hours);
+      return;
+    }
+
+    const month = day.date ? getMonthKey(day.date) : '';
+    const used = usedHoursByMonth.get(month) ?? Fraction.ZERO;
+    const exempt = hours.min(Fraction.fromNumber(monthlyExemptHours).sub(used).max(0));
+    usedHoursByMonth.set(month, used.add(hours));
+
+    // 單日跨越上限時，依時數比例拆分當日加班費
+    if (!hours.isZero()) {
+      nonTaxablePay = nonTaxablePay.add(pay.mul(exempt).div(hours));
+    }
+    exemptHours = exemptHours.add(exempt);
+    taxableOvertimeHours = taxableOvertimeHours.add(hours.sub(exempt));
+  });
+
+  const details = [t('tax.exemptHours', { monthlyHours: monthlyExemptHours, hours: exemptHours.toNumber() })];
+  if (!taxableOvertimeHours.isZero()) {
+    details.push(t('tax.taxableHours', { hours: taxableOvertimeHours.toNumber() }));
+  }
+  if (!holidayPay.isZero()) {
+    // 所得稅法僅適用於台灣，金額以新台幣表示
+    details.push(t('tax.holidayPay', { amount: formatCurrency(toMoney(holidayPay), 'TWD') }));
+  }
+
+  // 應稅金額以捨入後的總加給工資減去免稅金額，確保兩者相加等於總額
+  const roundedNonTaxable = toMoney(nonTaxablePay);
+  return {
+    nonTaxablePay: roundedNonTaxable,
+    taxablePay: Fraction.fromNumber(totalPay ?? toMoney(dayTotal)).sub(roundedNonTaxable).toNumber(),
+    exemptHours: exemptHours.toNumber(),
+    taxableOvertimeHours: taxableOvertimeHours.toNumber(),
+    details
+  };
+};
+
+// 估算實領金額：應稅所得依扣繳率扣繳，再扣除勞健保自付額、勞退自提及其他扣款
+export const estimateNetPay = (taxSplit: TaxSplit, options: NetPayOptions): NetPayEstimate => {
+  const regularPay = Fraction.fromNumber(options.regularPay);
+  const pensionContribution = toMoney(regularPay.mul(options.pensionContributionRate ?? 0));
+  const grossPay = regularPay.add(taxSplit.nonTaxablePay).add(taxSplit.taxablePay);
+  const taxableIncome = regularPay.add(taxSplit.taxablePay).sub(pensionContribution);
+  // 扣繳稅額以元為單位
+  const withholdingTax = taxableIncome.compare(options.withholdingThreshold ?? 0) >= 0
+    ? taxableIncome.mul(options.withholdingRate).round(0)
+    : 0;
+
+  const deductions: PayDeduction[] = [
+    { name: t('deduction.withholdingTax'), amount: withholdingTax },
+    { name: t('deduction.laborInsurance'), amount: options.laborInsurance ?? 0 },
+    { name: t('deduction.healthInsurance'), amount: options.healthInsurance ?? 0 },
+    { name: t('deduction.pension'), amount: pensionContribution },
+    { name: t('deduction.other'), amount: options.otherDeductions ?? 0 }
+  ].filter(item => item.amount > 0);
+
+  return {
+    grossPay: toMoney(grossPay),
+    taxableIncome: toMoney(taxableIncome),
+    withholdingTax,
+    deductions,
+    netPay: toMoney(grossPay.sub(Fraction.sum(deductions.map(item => item.amount))))
+  };
+};
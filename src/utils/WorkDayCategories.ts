@@ -0,0 +1,12 @@
+import type { StatutoryCategory, WorkDayType } from '../components/type.ts';
+
+// ===== 工作日類型對照 =====
+export const WORK_DAY_CATEGORY: Record<WorkDayType, StatutoryCategory> = {
+  weekday: '平日加班',
+  restDay: '休息日工作',
+  holiday: '假日出勤',
+  regularDayOff: '例假出勤'
+};
+
+// 法定類別的固定排列順序，供稽核及情境比較共用
+export const STATUTORY_CATEGORIES: StatutoryCategory[] = ['平日加班', '休息日工作', '假日出勤', '例假出勤'];
@@ -0,0 +1,119 @@
+import type { DatedWorkEntry, WorkingHourScheme, WorkingHourSchemeType } from '../components/type.ts';
+import { getDaysBetween, todayDateString } from './DateUtils.ts';
+import { Fraction } from './Fraction.ts';
+import { t } from './I18n.ts';
+import { formatTimeOfDay, parseTimeOfDay } from './PremiumRules.ts';
+
+// ===== 工時制度 =====
+
+/** 各工時制度的法定限制 */
+interface WorkingHourSchemeRule {
+  /** 週期天數 */
+  cycleDays: number;
+  /** 每日正常工時上限 */
+  maxDailyHours: number;
+  /** 每週正常工時上限（四週變形工時未另設週上限） */
+  maxWeeklyHours?: number;
+  /** 週期內正常工時總數上限 */
+  maxCycleHours: number;
+  /** 週期內例假及休息日最少日數（第36條） */
+  minDaysOff: number;
+}
+
+export const WORKING_HOUR_SCHEME_RULES: Record<WorkingHourSchemeType, WorkingHourSchemeRule> = {
+  standard: { cycleDays: 7, maxDailyHours: 8, maxWeeklyHours: 40, maxCycleHours: 40, minDaysOff: 2 },
+  twoWeek: { cycleDays: 14, maxDailyHours: 10, maxWeeklyHours: 48, maxCycleHours: 80, minDaysOff: 4 },
+  fourWeek: { cycleDays: 28, maxDailyHours: 10, maxCycleHours: 160, minDaysOff: 8 },
+  eightWeek: { cycleDays: 56, maxDailyHours: 8, maxWeeklyHours: 48, maxCycleHours: 320, minDaysOff: 16 }
+};
+
+export const WORKING_HOUR_SCHEME_TYPES = Object.keys(WORKING_HOUR_SCHEME_RULES) as WorkingHourSchemeType[];
+
+// 工時制度名稱，例如：二週變形工時
+export const getWorkingHourSchemeLabel = (type: WorkingHourSchemeType): string => t(`scheme.${type}.label`);
+
+// 工時制度名稱及法源，例如：二週變形工時（第30條第2項）
+export const describeWorkingHourScheme = (type: WorkingHourSchemeType): string =>
+  t('scheme.labelWithArticle', { label: getWorkingHourSchemeLabel(type), article: t(`scheme.${type}.article`) });
+
+// 正常工時加延長工時每日不得超過12小時（第32條第2項）
+export const MAX_DAILY_TOTAL_HOURS = 12;
+
+// 預設排班：起算日起每週前5日各8小時、後2日排休
+export const createDefaultScheme = (type: WorkingHourSchemeType, startDate: string = todayDateString()): WorkingHourScheme => ({
+  type,
+  startDate,
+  dailyHours: Array.from({ length: WORKING_HOUR_SCHEME_RULES[type].cycleDays }, (_, index) => index % 7 < 5 ? 8 : 0)
+});
+
+// 是否採用變形工時（一般工時維持「平日時數即加班時數」的輸入方式）
+export const isFlexibleScheme = (scheme?: WorkingHourScheme): scheme is WorkingHourScheme => {
+  return scheme !== undefined && scheme.type !== 'standard';
+};
+
+// 取得指定日期排定的正常工時，日期無效時回傳 null
+export const getScheduledHours = (scheme: WorkingHourScheme, date: string): number | null => {
+  const offset = getDaysBetween(scheme.startDate, date);
+  const cycleDays = scheme.dailyHours.length;
+  if (offset === null || cycleDays === 0) return null;
+  return scheme.dailyHours[((offset % cycleDays) + cycleDays) % cycleDays];
+};
+
+// 檢查排班是否符合該制度的每日、每週及週期上限，回傳違反項目
+export const validateScheme = (scheme: WorkingHourScheme): string[] => {
+  const rule = WORKING_HOUR_SCHEME_RULES[scheme.type];
+  const label = describeWorkingHourScheme(scheme.type);
+  const errors: string[] = [];
+
+  if (getDaysBetween(scheme.startDate, scheme.startDate) === null) {
+    errors.push(t('scheme.error.startDate', { label, startDate: scheme.startDate }));
+  }
+  if (scheme.dailyHours.length !== rule.cycleDays) {
+    errors.push(t('scheme.error.cycleDays', { label, cycleDays: rule.cycleDays, days: scheme.dailyHours.length }));
+    return errors;
+  }
+
+  scheme.dailyHours.forEach((hours, index) => {
+    if (!Number.isFinite(hours) || hours < 0) {
+      errors.push(t('scheme.error.invalidDay', { day: index + 1, hours }));
+    } else if (hours > rule.maxDailyHours) {
+      errors.push(t('scheme.error.dailyLimit', { day: index + 1, hours, label, limit: rule.maxDailyHours }));
+    }
+  });
+
+  if (rule.maxWeeklyHours !== undefined) {
+    for (let week = 0; week * 7 < rule.cycleDays; week++) {
+      const weeklyHours = Fraction.sum(scheme.dailyHours.slice(week * 7, week * 7 + 7)).toNumber();
+      if (weeklyHours > rule.maxWeeklyHours) {
+        errors.push(t('scheme.error.weeklyLimit', { week: week + 1, hours: weeklyHours, label, limit: rule.maxWeeklyHours }));
+      }
+    }
+  }
+
+  const cycleHours = Fraction.sum(scheme.dailyHours).toNumber();
+  if (cycleHours > rule.maxCycleHours) {
+    errors.push(t('scheme.error.cycleLimit', { hours: cycleHours, label, limit: rule.maxCycleHours }));
+  }
+
+  const daysOff = scheme.dailyHours.filter(hours => hours === 0).length;
+  if (daysOff < rule.minDaysOff) {
+    errors.push(t('scheme.error.daysOff', { daysOff, label, minDaysOff: rule.minDaysOff }));
+  }
+
+  return errors;
+};
+
+// 依排班將平日紀錄的實際工作時數換算為延長工時；開始時間順延至排定工時結束（不計休息時間）
+export const toOvertimeEntries = (entries: DatedWorkEntry[], scheme: WorkingHourScheme): DatedWorkEntry[] => {
+  return entries.map(entry => {
+    if (entry.dayType !== 'weekday') return entry;
+    const scheduled = getScheduledHours(scheme, entry.date) ?? 0;
+    const overtime = Fraction.fromNumber(entry.hours).sub(scheduled).max(0).toNumber();
+    const start = entry.startTime ? parseTimeOfDay(entry.startTime) : null;
+    return {
+      ...entry,
+      hours: overtime,
+      ...(start !== null && { startTime: formatTimeOfDay(start + scheduled * 60) })
+    };
+  });
+};